@@ -0,0 +1,129 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { FakeTransport } from './test-utils/fake-transport.js';
+
+type ApprovalModule = typeof import('./approval.js');
+type MCPClientClass = typeof import('./mcp-client.js').MCPClient;
+
+let approval: ApprovalModule;
+let MCPClient: MCPClientClass;
+let transport: FakeTransport;
+let context: {
+  extensionSettings: Record<string, any>;
+  saveSettingsDebounced: jest.Mock<() => void>;
+  registerFunctionTool: jest.Mock<(tool: any) => void>;
+  unregisterFunctionTool: jest.Mock<(name: string) => void>;
+};
+
+/**
+ * Calls a registered function tool like the model would.
+ */
+async function callAsModel(toolId: string, parameters: any): Promise<any> {
+  const tool = context.registerFunctionTool.mock.calls.map(([tool]) => tool).find((tool) => tool.name === toolId);
+  return await tool.action(parameters);
+}
+
+beforeEach(async () => {
+  jest.resetModules();
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.unstable_mockModule('sillytavern-utils-lib/types/popup', () => ({
+    POPUP_RESULT: { AFFIRMATIVE: 1 },
+    POPUP_TYPE: { CONFIRM: 2 },
+  }));
+  jest.unstable_mockModule('sillytavern-utils-lib/config', () => ({ st_echo: jest.fn() }));
+
+  context = {
+    extensionSettings: {
+      mcp: {
+        enabled: true,
+        directServers: {},
+        defaultApproval: 'allow',
+        serverApprovals: {},
+        toolApprovals: {},
+      },
+    },
+    saveSettingsDebounced: jest.fn(),
+    registerFunctionTool: jest.fn(),
+    unregisterFunctionTool: jest.fn(),
+  };
+  (globalThis as any).SillyTavern = { getContext: () => context };
+
+  approval = await import('./approval.js');
+  MCPClient = (await import('./mcp-client.js')).MCPClient;
+  transport = new FakeTransport();
+  MCPClient.setTransport(transport);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('getApprovalPolicy', () => {
+  it('prefers tool policies over server policies over the default', () => {
+    context.extensionSettings.mcp.defaultApproval = 'ask';
+    approval.setServerApproval('web', 'deny');
+    approval.setToolApproval('web', 'search', 'allow');
+
+    expect(approval.getApprovalPolicy('web', 'search')).toBe('allow');
+    expect(approval.getApprovalPolicy('web', 'fetch')).toBe('deny');
+    expect(approval.getApprovalPolicy('files', 'read')).toBe('ask');
+  });
+
+  it('falls back when a policy is removed', () => {
+    approval.setServerApproval('web', 'deny');
+    approval.setToolApproval('web', 'search', 'ask');
+
+    approval.setToolApproval('web', 'search', undefined);
+    expect(approval.getApprovalPolicy('web', 'search')).toBe('deny');
+
+    approval.setServerApproval('web', undefined);
+    expect(approval.getApprovalPolicy('web', 'search')).toBe('allow');
+    expect(context.saveSettingsDebounced).toHaveBeenCalledTimes(4);
+  });
+});
+
+describe('approveToolCall', () => {
+  it('approves allowed calls and refuses denied calls without asking', async () => {
+    approval.setToolApproval('web', 'delete', 'deny');
+
+    await expect(approval.approveToolCall('web', 'search', { query: 'cats' })).resolves.toEqual({
+      approved: true,
+      args: { query: 'cats' },
+    });
+    await expect(approval.approveToolCall('web', 'delete', { id: 1 })).resolves.toEqual({
+      approved: false,
+      args: { id: 1 },
+      reason: 'Calls to this tool are denied by the user.',
+    });
+  });
+});
+
+describe('model requested calls', () => {
+  beforeEach(async () => {
+    transport.addFakeServer('web', [{ name: 'search' }, { name: 'delete' }], {
+      handleToolCall: (toolName, args) => ({
+        content: [{ type: 'text', text: `${toolName} ${JSON.stringify(args)}` }],
+      }),
+    });
+    await MCPClient.handleTools(true);
+  });
+
+  it('tells the model why a call was refused and does not run it', async () => {
+    approval.setToolApproval('web', 'delete', 'deny');
+    MCPClient.setToolCallApprover(approval.approveToolCall);
+
+    await expect(callAsModel('mcp_web_delete', { id: 1 })).resolves.toEqual({
+      refused: true,
+      reason: 'Calls to this tool are denied by the user.',
+    });
+    expect(transport.calls).not.toContain('callTool:web');
+  });
+
+  it('runs the call with the arguments the user approved', async () => {
+    MCPClient.setToolCallApprover(async (serverName, toolName, args) => ({
+      approved: true,
+      args: { ...args, query: 'dogs' },
+    }));
+
+    await expect(callAsModel('mcp_web_search', { query: 'cats' })).resolves.toBe('search {"query":"dogs"}');
+  });
+});
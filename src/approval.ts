@@ -0,0 +1,98 @@
+import { POPUP_RESULT, POPUP_TYPE } from 'sillytavern-utils-lib/types/popup';
+import { st_echo } from 'sillytavern-utils-lib/config';
+import { ToolCallApproval } from './mcp-client.js';
+import { ApprovalPolicy, extensionName, getExtensionSettings } from './settings.js';
+
+/**
+ * Gets the effective approval policy of a tool.
+ * Tool policies take priority over server policies, server policies over the default policy.
+ */
+export function getApprovalPolicy(serverName: string, toolName: string): ApprovalPolicy {
+  const settings = getExtensionSettings();
+  return (
+    settings.toolApprovals[serverName]?.[toolName] ?? settings.serverApprovals[serverName] ?? settings.defaultApproval
+  );
+}
+
+/**
+ * Sets the approval policy of a server.
+ * @param policy The policy, or undefined to use the default policy.
+ */
+export function setServerApproval(serverName: string, policy: ApprovalPolicy | undefined): void {
+  const context = SillyTavern.getContext();
+  const settings = getExtensionSettings();
+  if (policy) {
+    settings.serverApprovals[serverName] = policy;
+  } else {
+    delete settings.serverApprovals[serverName];
+  }
+  context.saveSettingsDebounced();
+}
+
+/**
+ * Sets the approval policy of a tool.
+ * @param policy The policy, or undefined to use the server policy.
+ */
+export function setToolApproval(serverName: string, toolName: string, policy: ApprovalPolicy | undefined): void {
+  const context = SillyTavern.getContext();
+  const settings = getExtensionSettings();
+  if (policy) {
+    settings.toolApprovals[serverName] = { ...settings.toolApprovals[serverName], [toolName]: policy };
+  } else if (settings.toolApprovals[serverName]) {
+    delete settings.toolApprovals[serverName][toolName];
+  }
+  context.saveSettingsDebounced();
+}
+
+/**
+ * Shows a popup to approve, edit or reject a tool call.
+ */
+async function askForApproval(serverName: string, toolName: string, args: any): Promise<ToolCallApproval> {
+  const context = SillyTavern.getContext();
+  const content = await context.renderExtensionTemplateAsync(`third-party/${extensionName}`, 'templates/approval');
+  const tempDiv = document.createElement('div');
+  tempDiv.innerHTML = content;
+  const approvalContent = tempDiv.firstElementChild as HTMLElement;
+
+  approvalContent.querySelector('.approval-server')!.textContent = serverName;
+  approvalContent.querySelector('.approval-tool')!.textContent = toolName;
+  const argsInput = approvalContent.querySelector('#mcp-approval-args') as HTMLTextAreaElement;
+  argsInput.value = JSON.stringify(args ?? {}, null, 2);
+
+  let editedArgs = args;
+  const result = await context.callGenericPopup($(approvalContent), POPUP_TYPE.CONFIRM, '', {
+    okButton: 'Approve',
+    cancelButton: 'Reject',
+    onClosing: async (popup) => {
+      if (popup.result !== POPUP_RESULT.AFFIRMATIVE) {
+        return true;
+      }
+      try {
+        editedArgs = JSON.parse(argsInput.value);
+        return true;
+      } catch (error) {
+        await st_echo('error', `Invalid JSON: ${(error as Error).message}`);
+        return false;
+      }
+    },
+  });
+
+  if (result !== POPUP_RESULT.AFFIRMATIVE) {
+    return { approved: false, args, reason: 'The user rejected this tool call.' };
+  }
+  return { approved: true, args: editedArgs };
+}
+
+/**
+ * Applies the approval policy of a tool to a model requested tool call.
+ */
+export async function approveToolCall(serverName: string, toolName: string, args: any): Promise<ToolCallApproval> {
+  switch (getApprovalPolicy(serverName, toolName)) {
+    case 'allow':
+      return { approved: true, args };
+    case 'deny':
+      return { approved: false, args, reason: 'Calls to this tool are denied by the user.' };
+    case 'ask':
+      return await askForApproval(serverName, toolName, args);
+  }
+}
@@ -0,0 +1,238 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { createHash } from 'node:crypto';
+import { ServerConfig } from './mcp-client.js';
+
+type AuthModule = typeof import('./auth.js');
+
+let auth: AuthModule;
+let context: { extensionSettings: Record<string, any>; saveSettingsDebounced: jest.Mock };
+let fetchMock: jest.Mock<(url: string, init?: RequestInit) => Promise<Response>>;
+
+const serverUrl = 'https://mcp.example.com/mcp';
+const oauthConfig: ServerConfig = { type: 'streamableHttp', url: serverUrl, auth: { type: 'oauth' } };
+
+function json(body: any, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } });
+}
+
+/**
+ * Answers fetches by URL. Unknown URLs get a 404.
+ */
+function route(routes: Record<string, (init?: RequestInit) => Response>): void {
+  fetchMock.mockImplementation(async (url, init) => routes[url]?.(init) ?? new Response('', { status: 404 }));
+}
+
+beforeEach(async () => {
+  jest.resetModules();
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+  context = {
+    extensionSettings: { mcp: { oauth: {} } },
+    saveSettingsDebounced: jest.fn(),
+  };
+  (globalThis as any).SillyTavern = { getContext: () => context };
+  fetchMock = jest.fn();
+  globalThis.fetch = fetchMock as any;
+
+  auth = await import('./auth.js');
+});
+
+describe('createPkcePair', () => {
+  it('derives the S256 challenge from the verifier', async () => {
+    const { verifier, challenge } = await auth.createPkcePair();
+
+    expect(verifier).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    expect(challenge).toBe(createHash('sha256').update(verifier).digest('base64url'));
+  });
+});
+
+describe('parseWwwAuthenticate', () => {
+  it('reads quoted and bare parameters', () => {
+    const header = 'Bearer realm="mcp", resource_metadata="https://x/.well-known/oauth-protected-resource", scope=read';
+
+    expect(auth.parseWwwAuthenticate(header, 'resource_metadata')).toBe(
+      'https://x/.well-known/oauth-protected-resource',
+    );
+    expect(auth.parseWwwAuthenticate(header, 'scope')).toBe('read');
+    expect(auth.parseWwwAuthenticate(null, 'scope')).toBeUndefined();
+  });
+});
+
+describe('discoverAuthorizationServer', () => {
+  it('follows the resource metadata announced by the server', async () => {
+    route({
+      [serverUrl]: () =>
+        new Response('', {
+          status: 401,
+          headers: { 'WWW-Authenticate': 'Bearer resource_metadata="https://mcp.example.com/prm"' },
+        }),
+      'https://mcp.example.com/prm': () =>
+        json({ authorization_servers: ['https://auth.example.com'], scopes_supported: ['read', 'write'] }),
+      'https://auth.example.com/.well-known/oauth-authorization-server': () =>
+        json({
+          authorization_endpoint: 'https://auth.example.com/oauth/authorize',
+          token_endpoint: 'https://auth.example.com/oauth/token',
+          code_challenge_methods_supported: ['S256'],
+        }),
+    });
+
+    const { metadata, scopes } = await auth.discoverAuthorizationServer(oauthConfig);
+
+    expect(metadata.token_endpoint).toBe('https://auth.example.com/oauth/token');
+    expect(scopes).toBe('read write');
+  });
+
+  it('tries the path-aware well-known locations first', async () => {
+    route({
+      'https://mcp.example.com/.well-known/oauth-protected-resource/mcp': () =>
+        json({ authorization_servers: ['https://auth.example.com/tenant'] }),
+      'https://auth.example.com/.well-known/openid-configuration/tenant': () =>
+        json({
+          authorization_endpoint: 'https://auth.example.com/tenant/authorize',
+          token_endpoint: 'https://auth.example.com/tenant/token',
+        }),
+    });
+
+    const { metadata } = await auth.discoverAuthorizationServer(oauthConfig);
+
+    expect(metadata.authorization_endpoint).toBe('https://auth.example.com/tenant/authorize');
+  });
+
+  it('falls back to the default endpoints of the server origin', async () => {
+    route({});
+
+    const { metadata } = await auth.discoverAuthorizationServer(oauthConfig);
+
+    expect(metadata).toEqual({
+      authorization_endpoint: 'https://mcp.example.com/authorize',
+      token_endpoint: 'https://mcp.example.com/token',
+      registration_endpoint: 'https://mcp.example.com/register',
+    });
+  });
+
+  it('rejects authorization servers without S256', async () => {
+    route({
+      'https://mcp.example.com/.well-known/oauth-authorization-server': () =>
+        json({ authorization_endpoint: 'a', token_endpoint: 't', code_challenge_methods_supported: ['plain'] }),
+    });
+
+    await expect(auth.discoverAuthorizationServer(oauthConfig)).rejects.toThrow('PKCE');
+  });
+});
+
+describe('registerClient', () => {
+  it('registers a public client for the redirect URI', async () => {
+    route({
+      'https://auth.example.com/register': () => json({ client_id: 'client-1' }, 201),
+    });
+
+    const client = await auth.registerClient(
+      { authorization_endpoint: 'a', token_endpoint: 't', registration_endpoint: 'https://auth.example.com/register' },
+      'https://st.local/callback.html',
+    );
+
+    expect(client.clientId).toBe('client-1');
+    const body = JSON.parse(fetchMock.mock.calls[0][1]!.body as string);
+    expect(body).toMatchObject({
+      redirect_uris: ['https://st.local/callback.html'],
+      token_endpoint_auth_method: 'none',
+    });
+  });
+
+  it('asks for a client id if registration is not supported', async () => {
+    await expect(auth.registerClient({ authorization_endpoint: 'a', token_endpoint: 't' }, 'r')).rejects.toThrow(
+      'Set a client id',
+    );
+  });
+});
+
+describe('getAuthHeaders', () => {
+  it('keeps the headers of servers without authorization', async () => {
+    const config: ServerConfig = { type: 'sse', url: serverUrl, headers: { 'X-Key': 'k' } };
+
+    expect(await auth.getAuthHeaders('server', config)).toEqual({ 'X-Key': 'k' });
+  });
+
+  it('adds bearer tokens', async () => {
+    const config: ServerConfig = { type: 'sse', url: serverUrl, auth: { type: 'bearer', token: 'abc' } };
+
+    expect(await auth.getAuthHeaders('server', config)).toEqual({ Authorization: 'Bearer abc' });
+  });
+
+  it('requires a login for OAuth servers without tokens', async () => {
+    await expect(auth.getAuthHeaders('server', oauthConfig)).rejects.toBeInstanceOf(auth.AuthorizationRequiredError);
+  });
+
+  it('uses the stored access token until it expires', async () => {
+    context.extensionSettings.mcp.oauth.server = {
+      clientId: 'client',
+      tokenEndpoint: 'https://auth.example.com/token',
+      tokens: { accessToken: 'access', expiresAt: Date.now() + 3_600_000 },
+    };
+
+    expect(await auth.getAuthHeaders('server', oauthConfig)).toEqual({ Authorization: 'Bearer access' });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('refreshes expired tokens once for concurrent requests', async () => {
+    context.extensionSettings.mcp.oauth.server = {
+      clientId: 'client',
+      tokenEndpoint: 'https://auth.example.com/token',
+      tokens: { accessToken: 'old', refreshToken: 'refresh', expiresAt: Date.now() - 1000 },
+    };
+    route({
+      'https://auth.example.com/token': () => json({ access_token: 'new', expires_in: 3600 }),
+    });
+
+    const headers = await Promise.all([
+      auth.getAuthHeaders('server', oauthConfig),
+      auth.getAuthHeaders('server', oauthConfig),
+    ]);
+
+    expect(headers).toEqual([{ Authorization: 'Bearer new' }, { Authorization: 'Bearer new' }]);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const body = new URLSearchParams(fetchMock.mock.calls[0][1]!.body as URLSearchParams);
+    expect(Object.fromEntries(body)).toEqual({
+      grant_type: 'refresh_token',
+      refresh_token: 'refresh',
+      resource: serverUrl,
+      client_id: 'client',
+    });
+    // The refresh token is kept when the server does not rotate it
+    expect(context.extensionSettings.mcp.oauth.server.tokens.refreshToken).toBe('refresh');
+  });
+
+  it('drops the tokens if the refresh fails', async () => {
+    context.extensionSettings.mcp.oauth.server = {
+      clientId: 'client',
+      tokenEndpoint: 'https://auth.example.com/token',
+      tokens: { accessToken: 'old', refreshToken: 'refresh' },
+    };
+    route({
+      'https://auth.example.com/token': () => json({ error: 'invalid_grant' }, 400),
+    });
+
+    await expect(auth.getAuthHeaders('server', oauthConfig, true)).rejects.toBeInstanceOf(
+      auth.AuthorizationRequiredError,
+    );
+    expect(auth.isLoggedIn('server')).toBe(false);
+  });
+});
+
+describe('withAuthHeaders', () => {
+  it('replaces the authorization with plain headers', async () => {
+    const config: ServerConfig = {
+      type: 'streamableHttp',
+      url: serverUrl,
+      headers: { 'X-Key': 'k' },
+      auth: { type: 'bearer', token: 'abc' },
+    };
+
+    expect(await auth.withAuthHeaders('server', config)).toEqual({
+      type: 'streamableHttp',
+      url: serverUrl,
+      headers: { 'X-Key': 'k', Authorization: 'Bearer abc' },
+    });
+  });
+});
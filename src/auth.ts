@@ -0,0 +1,473 @@
+import { ServerConfig } from './mcp-client.js';
+import { extensionName, getExtensionSettings } from './settings.js';
+
+/**
+ * OAuth tokens issued for a server.
+ */
+export interface OAuthTokens {
+  accessToken: string;
+  refreshToken?: string;
+  /** Unix time in milliseconds, missing if the token does not expire */
+  expiresAt?: number;
+  scope?: string;
+}
+
+/**
+ * What is remembered about the authorization server of a server between logins.
+ */
+export interface OAuthState {
+  /** Client id, either configured or registered dynamically */
+  clientId: string;
+  clientSecret?: string;
+  tokenEndpoint: string;
+  /** How the client secret is sent to the token endpoint */
+  tokenEndpointAuthMethod?: string;
+  tokens?: OAuthTokens;
+}
+
+/**
+ * Thrown when a server needs the user to log in before it can be used.
+ */
+export class AuthorizationRequiredError extends Error {
+  constructor(readonly serverName: string) {
+    super(`Server "${serverName}" requires login. Press the login button next to the server in Manage Tools.`);
+  }
+}
+
+interface AuthorizationServerMetadata {
+  issuer?: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  registration_endpoint?: string;
+  code_challenge_methods_supported?: string[];
+  token_endpoint_auth_methods_supported?: string[];
+}
+
+interface ProtectedResourceMetadata {
+  resource?: string;
+  authorization_servers?: string[];
+  scopes_supported?: string[];
+}
+
+const CALLBACK_MESSAGE_TYPE = 'mcp-oauth-callback';
+/** Tokens are refreshed this long before they expire */
+const EXPIRY_MARGIN_MS = 60_000;
+
+const refreshes: Map<string, Promise<OAuthTokens>> = new Map();
+
+function getAuthStates(): Record<string, OAuthState> {
+  const settings = getExtensionSettings();
+  settings.oauth ??= {};
+  return settings.oauth;
+}
+
+function saveSettings(): void {
+  SillyTavern.getContext().saveSettingsDebounced();
+}
+
+/**
+ * Gets the stored OAuth state of a server.
+ */
+export function getOAuthState(serverName: string): OAuthState | undefined {
+  return getExtensionSettings().oauth?.[serverName];
+}
+
+/**
+ * Checks if a server logged in with OAuth has tokens.
+ */
+export function isLoggedIn(serverName: string): boolean {
+  return getOAuthState(serverName)?.tokens !== undefined;
+}
+
+/**
+ * Forgets the client registration and tokens of a server.
+ */
+export function forgetOAuthState(serverName: string): void {
+  const states = getExtensionSettings().oauth;
+  if (states?.[serverName]) {
+    delete states[serverName];
+    saveSettings();
+  }
+}
+
+/**
+ * Gets the URL the authorization server redirects to after login.
+ */
+export function getRedirectUri(): string {
+  return `${window.location.origin}/scripts/extensions/third-party/${extensionName}/oauth-callback.html`;
+}
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function randomString(byteLength = 32): string {
+  return base64UrlEncode(crypto.getRandomValues(new Uint8Array(byteLength)));
+}
+
+/**
+ * Creates a PKCE code verifier and its S256 challenge.
+ */
+export async function createPkcePair(): Promise<{ verifier: string; challenge: string }> {
+  const verifier = randomString();
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier));
+  return { verifier, challenge: base64UrlEncode(new Uint8Array(digest)) };
+}
+
+/**
+ * Reads a parameter of a `WWW-Authenticate: Bearer ...` header.
+ */
+export function parseWwwAuthenticate(header: string | null, param: string): string | undefined {
+  if (!header) return undefined;
+  const match = header.match(new RegExp(`${param}="([^"]*)"|${param}=([^\\s,]+)`));
+  return match ? (match[1] ?? match[2]) : undefined;
+}
+
+/**
+ * Builds the well-known URLs for a metadata document, path-aware first.
+ */
+function wellKnownUrls(url: string, suffixes: string[]): string[] {
+  const { origin, pathname } = new URL(url);
+  const path = pathname === '/' ? '' : pathname.replace(/\/$/, '');
+  const urls: string[] = [];
+  for (const suffix of suffixes) {
+    if (path) {
+      urls.push(`${origin}/.well-known/${suffix}${path}`);
+    }
+  }
+  for (const suffix of suffixes) {
+    urls.push(`${origin}/.well-known/${suffix}`);
+  }
+  return urls;
+}
+
+async function fetchFirstJson<T>(urls: string[]): Promise<T | undefined> {
+  for (const url of urls) {
+    try {
+      const response = await fetch(url, { headers: { Accept: 'application/json' } });
+      if (response.ok) {
+        return (await response.json()) as T;
+      }
+    } catch (error) {
+      // Unreachable or blocked by CORS, try the next location
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Finds the authorization server of an MCP server and its endpoints.
+ * Falls back to the default endpoints on the server origin if no metadata is published.
+ * @param config The server configuration.
+ */
+export async function discoverAuthorizationServer(
+  config: ServerConfig,
+): Promise<{ metadata: AuthorizationServerMetadata; scopes?: string }> {
+  const serverUrl = config.url!;
+  let resourceMetadataUrl: string | undefined;
+  let scopes: string | undefined;
+
+  // An unauthorized request tells where the resource metadata is
+  try {
+    const response = await fetch(serverUrl, {
+      method: config.type === 'sse' ? 'GET' : 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' },
+      body: config.type === 'sse' ? undefined : JSON.stringify({ jsonrpc: '2.0', id: 0, method: 'ping' }),
+    });
+    const header = response.headers.get('www-authenticate');
+    resourceMetadataUrl = parseWwwAuthenticate(header, 'resource_metadata');
+    scopes = parseWwwAuthenticate(header, 'scope');
+    await response.body?.cancel();
+  } catch (error) {
+    // Discovery continues with the well-known locations
+  }
+
+  const resourceMetadata = await fetchFirstJson<ProtectedResourceMetadata>(
+    resourceMetadataUrl ? [resourceMetadataUrl] : wellKnownUrls(serverUrl, ['oauth-protected-resource']),
+  );
+  const issuer = resourceMetadata?.authorization_servers?.[0] ?? new URL(serverUrl).origin;
+  scopes ??= resourceMetadata?.scopes_supported?.join(' ');
+
+  const metadataUrls = new Set([
+    ...wellKnownUrls(issuer, ['oauth-authorization-server', 'openid-configuration']),
+    `${issuer.replace(/\/$/, '')}/.well-known/openid-configuration`,
+  ]);
+  const metadata = await fetchFirstJson<AuthorizationServerMetadata>([...metadataUrls]);
+  if (metadata) {
+    if (metadata.code_challenge_methods_supported && !metadata.code_challenge_methods_supported.includes('S256')) {
+      throw new Error('The authorization server does not support PKCE with S256.');
+    }
+    return { metadata, scopes };
+  }
+
+  const base = issuer.replace(/\/$/, '');
+  return {
+    metadata: {
+      authorization_endpoint: `${base}/authorize`,
+      token_endpoint: `${base}/token`,
+      registration_endpoint: `${base}/register`,
+    },
+    scopes,
+  };
+}
+
+/**
+ * Registers this extension as an OAuth client with dynamic client registration.
+ * @param metadata The authorization server metadata.
+ * @param redirectUri The redirect URI of the client.
+ */
+export async function registerClient(
+  metadata: AuthorizationServerMetadata,
+  redirectUri: string,
+): Promise<{ clientId: string; clientSecret?: string; tokenEndpointAuthMethod?: string }> {
+  if (!metadata.registration_endpoint) {
+    throw new Error('The authorization server does not support dynamic client registration. Set a client id.');
+  }
+
+  const response = await fetch(metadata.registration_endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+    body: JSON.stringify({
+      client_name: 'SillyTavern MCP Client',
+      redirect_uris: [redirectUri],
+      grant_types: ['authorization_code', 'refresh_token'],
+      response_types: ['code'],
+      token_endpoint_auth_method: 'none',
+    }),
+  });
+  if (!response.ok) {
+    throw new Error(`Client registration failed: ${response.status} ${await response.text()}`);
+  }
+
+  const client = await response.json();
+  return {
+    clientId: client.client_id,
+    clientSecret: client.client_secret,
+    tokenEndpointAuthMethod: client.token_endpoint_auth_method,
+  };
+}
+
+/**
+ * Sends a request to the token endpoint.
+ * @param state The client of the server.
+ * @param params The grant parameters.
+ */
+async function requestTokens(
+  state: OAuthState,
+  params: Record<string, string>,
+  previous?: OAuthTokens,
+): Promise<OAuthTokens> {
+  const body = new URLSearchParams({ ...params, client_id: state.clientId });
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/x-www-form-urlencoded',
+    Accept: 'application/json',
+  };
+  if (state.clientSecret) {
+    if (state.tokenEndpointAuthMethod === 'client_secret_basic') {
+      headers.Authorization = `Basic ${btoa(`${encodeURIComponent(state.clientId)}:${encodeURIComponent(state.clientSecret)}`)}`;
+    } else {
+      body.set('client_secret', state.clientSecret);
+    }
+  }
+
+  const response = await fetch(state.tokenEndpoint, { method: 'POST', headers, body });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || !data.access_token) {
+    throw new Error(`Token request failed: ${data.error_description ?? data.error ?? response.status}`);
+  }
+
+  return {
+    accessToken: data.access_token,
+    // Refresh tokens are not always rotated
+    refreshToken: data.refresh_token ?? previous?.refreshToken,
+    expiresAt: typeof data.expires_in === 'number' ? Date.now() + data.expires_in * 1000 : undefined,
+    scope: data.scope ?? previous?.scope,
+  };
+}
+
+/**
+ * Opens the login page in a new window and waits for the redirect back.
+ * @param authorizationUrl The authorization request URL.
+ * @param state The state parameter the redirect must carry.
+ * @returns The authorization code.
+ */
+function waitForAuthorizationCode(authorizationUrl: string, state: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const loginWindow = window.open(authorizationUrl, 'mcp-oauth', 'width=600,height=700');
+    if (!loginWindow) {
+      reject(new Error('The login window was blocked. Allow popups for SillyTavern and try again.'));
+      return;
+    }
+
+    const cleanup = () => {
+      window.removeEventListener('message', onMessage);
+      clearInterval(closedCheck);
+    };
+    const onMessage = (event: MessageEvent) => {
+      if (event.origin !== window.location.origin || event.data?.type !== CALLBACK_MESSAGE_TYPE) return;
+      const params = new URL(event.data.url).searchParams;
+      if (params.get('state') !== state) return;
+
+      cleanup();
+      loginWindow.close();
+      const code = params.get('code');
+      if (code) {
+        resolve(code);
+      } else {
+        reject(new Error(`Login failed: ${params.get('error_description') ?? params.get('error') ?? 'no code'}`));
+      }
+    };
+    const closedCheck = setInterval(() => {
+      if (loginWindow.closed) {
+        cleanup();
+        reject(new Error('The login window was closed.'));
+      }
+    }, 500);
+    window.addEventListener('message', onMessage);
+  });
+}
+
+/**
+ * Logs in to a server with the MCP authorization flow: OAuth 2.1 with PKCE, using
+ * dynamic client registration unless a client id is configured. The tokens are stored per server.
+ * @param serverName The name of the server.
+ * @param config The server configuration.
+ */
+export async function login(serverName: string, config: ServerConfig): Promise<void> {
+  if (config.auth?.type !== 'oauth' || !config.url) {
+    throw new Error(`Server "${serverName}" does not use OAuth.`);
+  }
+
+  const { metadata, scopes } = await discoverAuthorizationServer(config);
+  const redirectUri = getRedirectUri();
+  const previous = getOAuthState(serverName);
+
+  let client: Pick<OAuthState, 'clientId' | 'clientSecret' | 'tokenEndpointAuthMethod'>;
+  if (config.auth.clientId) {
+    client = { clientId: config.auth.clientId, clientSecret: config.auth.clientSecret };
+  } else if (previous && previous.tokenEndpoint === metadata.token_endpoint) {
+    // Reuse the registered client, so logging in again does not register a new one
+    client = previous;
+  } else {
+    client = await registerClient(metadata, redirectUri);
+  }
+
+  const pkce = await createPkcePair();
+  const state = randomString(16);
+  const scope = config.auth.scope ?? scopes;
+  const authorizationUrl = new URL(metadata.authorization_endpoint);
+  authorizationUrl.searchParams.set('response_type', 'code');
+  authorizationUrl.searchParams.set('client_id', client.clientId);
+  authorizationUrl.searchParams.set('redirect_uri', redirectUri);
+  authorizationUrl.searchParams.set('code_challenge', pkce.challenge);
+  authorizationUrl.searchParams.set('code_challenge_method', 'S256');
+  authorizationUrl.searchParams.set('state', state);
+  authorizationUrl.searchParams.set('resource', config.url);
+  if (scope) {
+    authorizationUrl.searchParams.set('scope', scope);
+  }
+
+  const code = await waitForAuthorizationCode(authorizationUrl.toString(), state);
+
+  const oauthState: OAuthState = {
+    clientId: client.clientId,
+    clientSecret: client.clientSecret,
+    tokenEndpoint: metadata.token_endpoint,
+    tokenEndpointAuthMethod: client.tokenEndpointAuthMethod,
+  };
+  oauthState.tokens = await requestTokens(oauthState, {
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: redirectUri,
+    code_verifier: pkce.verifier,
+    resource: config.url,
+  });
+
+  getAuthStates()[serverName] = oauthState;
+  saveSettings();
+  console.log(`[MCPClient] Logged in to server "${serverName}"`);
+}
+
+/**
+ * Exchanges the refresh token of a server for new tokens. Concurrent refreshes share one request.
+ */
+async function refreshTokens(serverName: string, config: ServerConfig, state: OAuthState): Promise<OAuthTokens> {
+  let refresh = refreshes.get(serverName);
+  if (!refresh) {
+    refresh = requestTokens(
+      state,
+      { grant_type: 'refresh_token', refresh_token: state.tokens!.refreshToken!, resource: config.url! },
+      state.tokens,
+    ).finally(() => refreshes.delete(serverName));
+    refreshes.set(serverName, refresh);
+  }
+
+  try {
+    state.tokens = await refresh;
+    saveSettings();
+    return state.tokens;
+  } catch (error) {
+    console.warn(`[MCPClient] Could not refresh the token of server "${serverName}":`, error);
+    delete state.tokens;
+    saveSettings();
+    throw new AuthorizationRequiredError(serverName);
+  }
+}
+
+/**
+ * Builds the headers to send to a remote server, including its authorization.
+ * OAuth access tokens are refreshed when they are about to expire.
+ * @param serverName The name of the server.
+ * @param config The server configuration.
+ * @param forceRefresh Whether to refresh the OAuth access token even if it has not expired, e.g. after a 401.
+ */
+export async function getAuthHeaders(
+  serverName: string,
+  config: ServerConfig,
+  forceRefresh = false,
+): Promise<Record<string, string>> {
+  const headers = { ...config.headers };
+  const auth = config.auth;
+
+  if (auth?.type === 'bearer') {
+    headers.Authorization = `Bearer ${auth.token}`;
+  } else if (auth?.type === 'oauth') {
+    const state = getOAuthState(serverName);
+    let tokens = state?.tokens;
+    if (!state || !tokens) {
+      throw new AuthorizationRequiredError(serverName);
+    }
+
+    const expired = tokens.expiresAt !== undefined && tokens.expiresAt - EXPIRY_MARGIN_MS < Date.now();
+    if (forceRefresh || expired) {
+      if (!tokens.refreshToken) {
+        if (expired) {
+          delete state.tokens;
+          saveSettings();
+        }
+        throw new AuthorizationRequiredError(serverName);
+      }
+      tokens = await refreshTokens(serverName, config, state);
+    }
+    headers.Authorization = `Bearer ${tokens.accessToken}`;
+  }
+
+  return headers;
+}
+
+/**
+ * Resolves the authorization of a remote server into its headers, for transports that send the configuration on.
+ * @param serverName The name of the server.
+ * @param config The server configuration.
+ */
+export async function withAuthHeaders(serverName: string, config: ServerConfig): Promise<ServerConfig> {
+  if (config.type === 'stdio' || !config.auth) {
+    return config;
+  }
+  const { auth, ...rest } = config;
+  return { ...rest, headers: await getAuthHeaders(serverName, config) };
+}
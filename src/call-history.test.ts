@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { FakeTransport } from './test-utils/fake-transport.js';
+
+type CallHistoryModule = typeof import('./call-history.js');
+
+let callHistory: CallHistoryModule;
+/** What the fake localforage instance stores */
+let stored: Map<string, any>;
+let context: {
+  chatId?: string;
+  chat: any[];
+  extensionSettings: Record<string, any>;
+  uuidv4: () => string;
+  registerFunctionTool: jest.Mock<(tool: any) => void>;
+  unregisterFunctionTool: jest.Mock<(name: string) => void>;
+  saveSettingsDebounced: jest.Mock<() => void>;
+};
+
+function record(toolName: string) {
+  return { serverName: 'web', toolName, args: {}, result: 'ok', startedAt: 0, durationMs: 1 };
+}
+
+beforeEach(async () => {
+  jest.resetModules();
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.unstable_mockModule('sillytavern-utils-lib/config', () => ({ st_echo: jest.fn() }));
+
+  stored = new Map();
+  let nextId = 0;
+  context = {
+    chatId: 'chat-1',
+    chat: [{}, {}],
+    extensionSettings: { mcp: { enabled: true, directServers: {} } },
+    uuidv4: () => `id-${nextId++}`,
+    registerFunctionTool: jest.fn(),
+    unregisterFunctionTool: jest.fn(),
+    saveSettingsDebounced: jest.fn(),
+  };
+  const localforage = {
+    createInstance: () => ({
+      getItem: async (key: string) => stored.get(key) ?? null,
+      setItem: async (key: string, value: any) => {
+        stored.set(key, structuredClone(value));
+      },
+      removeItem: async (key: string) => {
+        stored.delete(key);
+      },
+    }),
+  };
+  (globalThis as any).SillyTavern = { getContext: () => context, libs: { localforage } };
+
+  callHistory = await import('./call-history.js');
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('call history', () => {
+  it('records calls newest first with their chat and message', async () => {
+    await callHistory.recordToolCall(record('search'));
+    context.chat.push({});
+    await callHistory.recordToolCall(record('fetch'));
+
+    const entries = await callHistory.getCallHistory();
+    expect(entries.map((entry) => [entry.id, entry.toolName, entry.chatId, entry.messageId])).toEqual([
+      ['id-1', 'fetch', 'chat-1', 3],
+      ['id-0', 'search', 'chat-1', 2],
+    ]);
+    expect(stored.get('mcp_call_history')).toEqual(entries);
+  });
+
+  it('loads the stored history', async () => {
+    stored.set('mcp_call_history', [{ ...record('search'), id: 'old' }]);
+
+    await callHistory.recordToolCall(record('fetch'));
+
+    expect((await callHistory.getCallHistory()).map((entry) => entry.id)).toEqual(['id-0', 'old']);
+  });
+
+  it('keeps the newest 500 calls', async () => {
+    stored.set(
+      'mcp_call_history',
+      Array.from({ length: 500 }, (_, i) => ({ ...record('search'), id: `old-${i}` })),
+    );
+
+    await callHistory.recordToolCall(record('fetch'));
+
+    const entries = await callHistory.getCallHistory();
+    expect(entries).toHaveLength(500);
+    expect(entries[0].id).toBe('id-0');
+    expect(entries[499].id).toBe('old-498');
+  });
+
+  it('clears the history', async () => {
+    await callHistory.recordToolCall(record('search'));
+
+    await callHistory.clearCallHistory();
+
+    expect(await callHistory.getCallHistory()).toEqual([]);
+    expect(stored.has('mcp_call_history')).toBe(false);
+  });
+
+  it('records the calls MCPClient makes', async () => {
+    const { MCPClient } = await import('./mcp-client.js');
+    const transport = new FakeTransport();
+    MCPClient.setTransport(transport);
+    transport.addFakeServer('web', [{ name: 'search' }]);
+    await MCPClient.handleTools(true);
+    callHistory.initializeCallHistory();
+
+    await MCPClient.callTool('web', 'search', { query: 'cats' });
+    // The listener records without waiting, give it a turn to finish
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    const [entry] = await callHistory.getCallHistory();
+    expect(entry).toMatchObject({ serverName: 'web', toolName: 'search', args: { query: 'cats' } });
+  });
+});
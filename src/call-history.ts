@@ -0,0 +1,171 @@
+import { st_echo } from 'sillytavern-utils-lib/config';
+import { MCPClient, ToolCallRecord } from './mcp-client.js';
+
+const HISTORY_STORAGE_KEY = 'mcp_call_history';
+const MAX_HISTORY_ENTRIES = 500;
+
+export interface CallHistoryEntry extends ToolCallRecord {
+  id: string;
+  chatId?: string;
+  /** Index of the chat message the call belongs to */
+  messageId?: number;
+}
+
+type HistoryStorage = ReturnType<typeof SillyTavern.libs.localforage.createInstance>;
+
+let storage: HistoryStorage | null = null;
+let history: Promise<CallHistoryEntry[]> | null = null;
+
+function getStorage(): HistoryStorage {
+  if (!storage) {
+    storage = SillyTavern.libs.localforage.createInstance({ name: 'SillyTavern_MCP_Client' });
+  }
+  return storage;
+}
+
+/**
+ * Gets the tool call history, newest first.
+ */
+export function getCallHistory(): Promise<CallHistoryEntry[]> {
+  if (!history) {
+    history = getStorage()
+      .getItem(HISTORY_STORAGE_KEY)
+      .then((stored: CallHistoryEntry[] | null) => stored || []);
+  }
+  return history!;
+}
+
+/**
+ * Adds a tool call to the history.
+ */
+export async function recordToolCall(record: ToolCallRecord): Promise<void> {
+  const context = SillyTavern.getContext();
+  const entries = await getCallHistory();
+
+  entries.unshift({
+    ...record,
+    id: context.uuidv4(),
+    chatId: context.chatId,
+    messageId: context.chat.length,
+  });
+  entries.splice(MAX_HISTORY_ENTRIES);
+
+  await getStorage().setItem(HISTORY_STORAGE_KEY, entries);
+}
+
+/**
+ * Removes all entries from the tool call history.
+ */
+export async function clearCallHistory(): Promise<void> {
+  history = Promise.resolve([]);
+  await getStorage().removeItem(HISTORY_STORAGE_KEY);
+}
+
+/**
+ * Starts recording every tool call to the history.
+ */
+export function initializeCallHistory(): void {
+  MCPClient.addToolCallListener((record) => {
+    recordToolCall(record).catch((error) => console.error('[MCPClient] Error recording tool call:', error));
+  });
+}
+
+function formatJson(value: any): string {
+  return typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+}
+
+/**
+ * Renders the call history panel of the Manage Tools popup.
+ * @param panel The call history panel element
+ */
+export async function renderCallHistory(panel: HTMLElement): Promise<void> {
+  const list = panel.querySelector('#call-history-list') as HTMLElement;
+  const search = (panel.querySelector('#call-history-search') as HTMLInputElement).value.trim().toLowerCase();
+  const serverSelect = panel.querySelector('#call-history-server') as HTMLSelectElement;
+  const status = (panel.querySelector('#call-history-status') as HTMLSelectElement).value;
+
+  const entries = await getCallHistory();
+
+  // Keep the server filter options in sync with the history
+  const selectedServer = serverSelect.value;
+  const serverNames = Array.from(new Set(entries.map((entry) => entry.serverName))).sort();
+  serverSelect.innerHTML = '<option value="">All servers</option>';
+  for (const serverName of serverNames) {
+    const option = document.createElement('option');
+    option.value = serverName;
+    option.textContent = serverName;
+    serverSelect.appendChild(option);
+  }
+  serverSelect.value = serverNames.includes(selectedServer) ? selectedServer : '';
+
+  const filtered = entries.filter((entry) => {
+    if (serverSelect.value && entry.serverName !== serverSelect.value) return false;
+    if (status === 'success' && entry.error !== undefined) return false;
+    if (status === 'error' && entry.error === undefined) return false;
+    if (search) {
+      const haystack = [
+        entry.serverName,
+        entry.toolName,
+        formatJson(entry.args),
+        formatJson(entry.result ?? entry.error),
+      ]
+        .join('\n')
+        .toLowerCase();
+      if (!haystack.includes(search)) return false;
+    }
+    return true;
+  });
+
+  list.innerHTML = '';
+  if (filtered.length === 0) {
+    const empty = document.createElement('div');
+    empty.className = 'no-servers';
+    empty.textContent = 'No tool calls found.';
+    list.appendChild(empty);
+    return;
+  }
+
+  for (const entry of filtered) {
+    const failed = entry.error !== undefined;
+    const item = document.createElement('details');
+    item.className = `call-history-entry${failed ? ' failed' : ''}`;
+    item.innerHTML = `
+      <summary>
+        <i class="fa-solid ${failed ? 'fa-circle-xmark' : 'fa-circle-check'}"></i>
+        <span class="call-history-tool"></span>
+        <span class="call-history-meta"></span>
+      </summary>
+      <div class="call-history-details">
+        <div class="call-history-context"></div>
+        <b>Arguments</b>
+        <pre class="call-history-args"></pre>
+        <b>${failed ? 'Error' : 'Result'}</b>
+        <pre class="call-history-result"></pre>
+        <button class="menu_button replay-call"><i class="fa-solid fa-rotate-right"></i> Replay</button>
+      </div>
+    `;
+
+    item.querySelector('.call-history-tool')!.textContent = `${entry.serverName}: ${entry.toolName}`;
+    item.querySelector('.call-history-meta')!.textContent =
+      `${new Date(entry.startedAt).toLocaleString()} · ${entry.cached ? 'cached' : `${entry.durationMs} ms`}`;
+    item.querySelector('.call-history-context')!.textContent =
+      `Chat: ${entry.chatId ?? 'none'} · Message: ${entry.messageId ?? 'none'}`;
+    item.querySelector('.call-history-args')!.textContent = formatJson(entry.args ?? {});
+    item.querySelector('.call-history-result')!.textContent = formatJson(failed ? entry.error : entry.result);
+
+    item.querySelector('.replay-call')!.addEventListener('click', async (e) => {
+      const button = e.currentTarget as HTMLButtonElement;
+      button.disabled = true;
+      button.innerHTML = '<i class="fa-solid fa-spinner fa-spin"></i> Replaying';
+      try {
+        await MCPClient.callTool(entry.serverName, entry.toolName, entry.args, { bypassCache: true });
+        await st_echo('success', `Replayed "${entry.toolName}" on server "${entry.serverName}"`);
+      } catch (error) {
+        await st_echo('error', `Replay failed: ${error}`);
+      }
+      await renderCallHistory(panel);
+    });
+
+    list.appendChild(item);
+  }
+}
@@ -0,0 +1,97 @@
+import { describe, expect, it } from '@jest/globals';
+import { parseQuickAdd, suggestServerName, tokenizeCommand } from './command-parser.js';
+
+describe('tokenizeCommand', () => {
+  it('splits on any whitespace', () => {
+    expect(tokenizeCommand('npx  -y\tpackage\n--flag')).toEqual(['npx', '-y', 'package', '--flag']);
+  });
+
+  it('keeps quoted words together', () => {
+    expect(tokenizeCommand(`node "C:\\Program Files\\server.js" 'it''s' "a \\"b\\""`)).toEqual([
+      'node',
+      'C:\\Program Files\\server.js',
+      'its',
+      'a "b"',
+    ]);
+  });
+
+  it('supports backslash escapes and line continuations', () => {
+    expect(tokenizeCommand('node my\\ server.js \\\n --port 3000')).toEqual(['node', 'my server.js', '--port', '3000']);
+  });
+
+  it('keeps empty quoted words', () => {
+    expect(tokenizeCommand(`cmd "" ''`)).toEqual(['cmd', '', '']);
+  });
+
+  it('rejects unclosed quotes', () => {
+    expect(() => tokenizeCommand('npx "package')).toThrow('Unclosed double quote');
+  });
+});
+
+describe('suggestServerName', () => {
+  it.each([
+    ['@modelcontextprotocol/server-brave-search', 'brave-search'],
+    ['@modelcontextprotocol/server-filesystem@1.2.0', 'filesystem'],
+    ['mcp-server-git==0.6.2', 'git'],
+    ['mcp_server_fetch', 'fetch'],
+    ['ghcr.io/github/github-mcp-server:latest', 'github'],
+    ['/home/me/servers/weather.py', 'weather'],
+    ['context7-mcp@latest', 'context7'],
+    ['mcp-server', 'mcp-server'],
+    ['@playwright/mcp@latest', 'playwright'],
+  ])('%s becomes %s', (packageName, name) => {
+    expect(suggestServerName(packageName)).toBe(name);
+  });
+});
+
+describe('parseQuickAdd', () => {
+  it('parses npx commands with flags after the package', () => {
+    expect(parseQuickAdd('npx -y @modelcontextprotocol/server-filesystem "/home/me/My Documents" --readonly')).toEqual({
+      name: 'filesystem',
+      config: {
+        type: 'stdio',
+        command: 'npx',
+        args: ['-y', '@modelcontextprotocol/server-filesystem', '/home/me/My Documents', '--readonly'],
+        env: {},
+      },
+    });
+  });
+
+  it('moves environment variable prefixes to env', () => {
+    const { name, config } = parseQuickAdd(
+      'BRAVE_API_KEY="abc 123" DEBUG=1 npx -y @modelcontextprotocol/server-brave-search',
+    );
+
+    expect(name).toBe('brave-search');
+    expect(config.command).toBe('npx');
+    expect(config.env).toEqual({ BRAVE_API_KEY: 'abc 123', DEBUG: '1' });
+  });
+
+  it('accepts the env launcher', () => {
+    expect(parseQuickAdd('env TOKEN=x uvx mcp-server-git').config).toMatchObject({
+      command: 'uvx',
+      args: ['mcp-server-git'],
+      env: { TOKEN: 'x' },
+    });
+  });
+
+  it.each([
+    ['uvx mcp-server-git --repository /repo', 'git'],
+    ['uvx --from git+https://github.com/me/tools weather-mcp', 'tools'],
+    ['uvx --python 3.12 mcp-server-time --local-timezone UTC', 'time'],
+    ['uv run --with mcp mcp-server-sqlite --db-path test.db', 'sqlite'],
+    ['python -m mcp_server_fetch', 'fetch'],
+    ['python3 ./servers/weather.py', 'weather'],
+    ['docker run -i --rm -e GITHUB_TOKEN ghcr.io/github/github-mcp-server', 'github'],
+    ['docker run -i --rm --name my-tools image/tools:1.0', 'my-tools'],
+    ['node build/index.js', 'index'],
+    ['pnpm dlx @playwright/mcp@latest', 'playwright'],
+    ['/usr/local/bin/my-mcp-server --stdio', 'my'],
+  ])('suggests a name for %s', (input, name) => {
+    expect(parseQuickAdd(input).name).toBe(name);
+  });
+
+  it('rejects input without a command', () => {
+    expect(() => parseQuickAdd('TOKEN=x')).toThrow('No command found');
+  });
+});
@@ -0,0 +1,261 @@
+import { ServerConfig } from './mcp-client.js';
+
+export interface QuickAddResult {
+  /** Suggested server name */
+  name: string;
+  config: ServerConfig;
+}
+
+const ENV_ASSIGNMENT = /^([A-Za-z_][A-Za-z0-9_]*)=(.*)$/s;
+
+/** Launcher flags that take a value, so the value is not mistaken for the package */
+const FLAGS_WITH_VALUE: Record<string, string[]> = {
+  npx: ['-p', '--package', '-c', '--call', '--cache', '--registry'],
+  uvx: ['--from', '--with', '--with-requirements', '--python', '-p', '--index', '--index-url', '--extra-index-url'],
+  docker: [
+    '-e',
+    '--env',
+    '--env-file',
+    '-v',
+    '--volume',
+    '-p',
+    '--publish',
+    '--network',
+    '--name',
+    '-w',
+    '--workdir',
+    '-u',
+    '--user',
+    '--entrypoint',
+    '--platform',
+    '--mount',
+    '-l',
+    '--label',
+    '--add-host',
+    '--pull',
+  ],
+};
+
+/**
+ * Splits a command line into words like a POSIX shell.
+ * Supports single quotes, double quotes and backslash escapes. Does not expand variables.
+ * @param input The command line.
+ */
+export function tokenizeCommand(input: string): string[] {
+  const tokens: string[] = [];
+  let current = '';
+  let inToken = false;
+  let quote: "'" | '"' | null = null;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quote === "'") {
+      if (char === "'") {
+        quote = null;
+      } else {
+        current += char;
+      }
+    } else if (quote === '"') {
+      if (char === '"') {
+        quote = null;
+      } else if (char === '\\' && i + 1 < input.length && '"\\$`'.includes(input[i + 1])) {
+        current += input[++i];
+      } else {
+        current += char;
+      }
+    } else if (char === "'" || char === '"') {
+      quote = char;
+      inToken = true;
+    } else if (char === '\\' && i + 1 < input.length) {
+      // A backslash before a line break continues the line
+      if (input[i + 1] !== '\n') {
+        current += input[i + 1];
+        inToken = true;
+      }
+      i++;
+    } else if (/\s/.test(char)) {
+      if (inToken) {
+        tokens.push(current);
+        current = '';
+        inToken = false;
+      }
+    } else {
+      current += char;
+      inToken = true;
+    }
+  }
+
+  if (quote) {
+    throw new Error(`Unclosed ${quote === '"' ? 'double' : 'single'} quote`);
+  }
+  if (inToken) {
+    tokens.push(current);
+  }
+  return tokens;
+}
+
+/**
+ * Finds the first argument that is not a flag or the value of a flag.
+ * @param args The arguments to search.
+ * @param flagsWithValue Flags whose next argument is their value.
+ * @returns The index of the argument, or -1.
+ */
+function findPositional(args: string[], flagsWithValue: string[]): number {
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith('-')) {
+      return i;
+    }
+    if (flagsWithValue.includes(arg)) {
+      i++;
+    }
+  }
+  return -1;
+}
+
+function findFlagValue(args: string[], flags: string[]): string | undefined {
+  for (let i = 0; i < args.length; i++) {
+    for (const flag of flags) {
+      if (args[i] === flag) return args[i + 1];
+      if (args[i].startsWith(`${flag}=`)) return args[i].slice(flag.length + 1);
+    }
+  }
+  return undefined;
+}
+
+function basename(path: string): string {
+  return path.split(/[\\/]/).filter(Boolean).pop() ?? path;
+}
+
+/**
+ * Turns a package, module or image name into a short server name.
+ * `@modelcontextprotocol/server-brave-search@1.0.0` becomes `brave-search`.
+ */
+export function suggestServerName(packageName: string): string {
+  let name = packageName
+    // npm versions, keeping the scope
+    .replace(/(.)@[^/@]*$/, '$1')
+    // Python versions and extras
+    .replace(/(\[.*\])?([=<>~!]=?.*)?$/, '');
+  // Packages like `@playwright/mcp` are named after their scope
+  const scope = name.match(/^@([^/]+)\/(mcp|server|mcp-server)$/);
+  if (scope) {
+    name = scope[1];
+  }
+  name = basename(name)
+    // Docker tags and digests
+    .replace(/[:@].*$/, '')
+    .replace(/\.(js|mjs|cjs|ts|py|exe)$/i, '')
+    .replace(/_/g, '-')
+    .toLowerCase();
+
+  const stripped = name
+    .replace(/^(mcp-server-|server-|mcp-)/, '')
+    .replace(/(-mcp-server|-server-mcp|-mcp|-server)$/, '');
+  // A package called `mcp-server` has nothing better to offer
+  if (stripped === '' || stripped === 'mcp' || stripped === 'server') {
+    return name || 'server';
+  }
+  return stripped;
+}
+
+function nameFromPackage(command: string, args: string[]): string | undefined {
+  switch (command) {
+    case 'npx':
+    case 'bunx':
+    case 'pnpx': {
+      const index = findPositional(args, FLAGS_WITH_VALUE.npx);
+      return index === -1 ? findFlagValue(args, ['-p', '--package']) : args[index];
+    }
+    case 'npm':
+    case 'pnpm':
+    case 'yarn': {
+      // npm exec, pnpm dlx and yarn dlx
+      if (!['exec', 'dlx', 'x'].includes(args[0])) return undefined;
+      const rest = args.slice(1);
+      const index = findPositional(rest, FLAGS_WITH_VALUE.npx);
+      return index === -1 ? undefined : rest[index];
+    }
+    case 'uvx':
+    case 'pipx': {
+      const rest = command === 'pipx' && args[0] === 'run' ? args.slice(1) : args;
+      const from = findFlagValue(rest, ['--from', '--spec']);
+      const index = findPositional(rest, [...FLAGS_WITH_VALUE.uvx, '--spec']);
+      return from ?? (index === -1 ? undefined : rest[index]);
+    }
+    case 'uv': {
+      // uv run and uv tool run
+      const rest = args[0] === 'tool' ? args.slice(1) : args;
+      if (rest[0] !== 'run') return undefined;
+      const index = findPositional(rest.slice(1), FLAGS_WITH_VALUE.uvx);
+      return index === -1 ? undefined : rest[index + 1];
+    }
+    case 'docker':
+    case 'podman': {
+      if (args[0] !== 'run') return undefined;
+      const rest = args.slice(1);
+      const containerName = findFlagValue(rest, ['--name']);
+      if (containerName) return containerName;
+      const index = findPositional(rest, FLAGS_WITH_VALUE.docker);
+      return index === -1 ? undefined : rest[index];
+    }
+    case 'python':
+    case 'python3':
+    case 'py': {
+      const module = findFlagValue(args, ['-m']);
+      if (module) {
+        return module
+          .split('.')
+          .filter((part) => part !== '__main__')
+          .pop();
+      }
+      const index = findPositional(args, []);
+      return index === -1 ? undefined : args[index];
+    }
+    case 'node':
+    case 'bun':
+    case 'deno':
+    case 'tsx': {
+      const rest = args[0] === 'run' ? args.slice(1) : args;
+      const index = findPositional(rest, []);
+      return index === -1 ? undefined : rest[index];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Parses a command line typed into the quick-add box into a stdio server configuration.
+ * Leading `KEY=value` words become environment variables.
+ * @param input The command line.
+ */
+export function parseQuickAdd(input: string): QuickAddResult {
+  const tokens = tokenizeCommand(input.trim());
+  if (tokens[0] === 'env') {
+    tokens.shift();
+  }
+
+  const env: Record<string, string> = {};
+  while (tokens.length > 0) {
+    const match = tokens[0].match(ENV_ASSIGNMENT);
+    if (!match) break;
+    env[match[1]] = match[2];
+    tokens.shift();
+  }
+
+  if (tokens.length === 0) {
+    throw new Error('No command found');
+  }
+
+  const [command, ...args] = tokens;
+  const launcher = basename(command)
+    .replace(/\.(exe|cmd)$/i, '')
+    .toLowerCase();
+  const packageName = nameFromPackage(launcher, args) ?? command;
+
+  return {
+    name: suggestServerName(packageName),
+    config: { type: 'stdio', command, args, env },
+  };
+}
@@ -0,0 +1,325 @@
+import { enumTypes, SlashCommandEnumValue } from 'sillytavern-utils-lib/config';
+import { MCPClient } from './mcp-client.js';
+import { applyToolProfile, getActiveToolProfile, getToolProfileNames } from './tool-profiles.js';
+import { parseToolResult } from './tool-result.js';
+
+/**
+ * Names of all configured servers, refreshed whenever a command lists them.
+ * Autocomplete runs synchronously, so it can not ask the plugin.
+ */
+let knownServers: string[] = [];
+
+async function getServerNames(): Promise<string[]> {
+  knownServers = (await MCPClient.getServers()).map((server) => server.name);
+  return knownServers;
+}
+
+async function assertServerExists(serverName: string, command: string): Promise<void> {
+  if (!serverName) {
+    throw new Error(`Usage: /${command} server`);
+  }
+  if (!(await getServerNames()).includes(serverName)) {
+    throw new Error(`Server "${serverName}" not found.`);
+  }
+}
+
+function getServerEnum(): SlashCommandEnumValue[] {
+  const names = new Set([...knownServers, ...MCPClient.getConnectedServers()]);
+  return Array.from(names).map((serverName) => new SlashCommandEnumValue(serverName, null, enumTypes.name));
+}
+
+function getConnectedServerEnum(): SlashCommandEnumValue[] {
+  return MCPClient.getConnectedServers().map(
+    (serverName) => new SlashCommandEnumValue(serverName, null, enumTypes.name),
+  );
+}
+
+function getToolEnum(): SlashCommandEnumValue[] {
+  return MCPClient.getConnectedServers().flatMap((serverName) =>
+    MCPClient.getCachedTools(serverName).map(
+      (tool) => new SlashCommandEnumValue(tool.name, `${serverName}: ${tool.description ?? ''}`, enumTypes.enum),
+    ),
+  );
+}
+
+function getToolProfileEnum(): SlashCommandEnumValue[] {
+  return getToolProfileNames().map((name) => new SlashCommandEnumValue(name, null, enumTypes.name));
+}
+
+/**
+ * Parses the JSON arguments of `/mcp-call`.
+ * @throws If the text is not a JSON object.
+ */
+function parseCallArguments(text: string | undefined): Record<string, any> {
+  if (!text?.trim()) {
+    return {};
+  }
+  let args: any;
+  try {
+    args = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`The tool arguments are not valid JSON: ${(error as Error).message}`);
+  }
+  if (typeof args !== 'object' || args === null || Array.isArray(args)) {
+    throw new Error('The tool arguments must be a JSON object.');
+  }
+  return args;
+}
+
+/**
+ * Registers the `/mcp-profile` slash command.
+ */
+export function registerProfileCommand(): void {
+  const context = SillyTavern.getContext();
+  const { SlashCommandParser, SlashCommand, SlashCommandArgument, ARGUMENT_TYPE } = context;
+
+  SlashCommandParser.addCommandObject(
+    SlashCommand.fromProps({
+      name: 'mcp-profile',
+      callback: async (namedArgs: Record<string, any>, name: string) => {
+        const profileName = String(name ?? '').trim();
+        if (profileName) {
+          await applyToolProfile(profileName);
+        }
+        return getActiveToolProfile() ?? '';
+      },
+      returns: 'the name of the active tool profile',
+      unnamedArgumentList: [
+        SlashCommandArgument.fromProps({
+          description: 'profile name',
+          typeList: [ARGUMENT_TYPE.STRING],
+          isRequired: false,
+          enumProvider: getToolProfileEnum,
+        }),
+      ],
+      helpString: `
+        <div>Switches to a saved MCP tool profile, enabling and disabling servers and tools to match it.</div>
+        <div>Without a name, returns the name of the active profile.</div>
+        <div><strong>Example:</strong> <pre><code>/mcp-profile Research</code></pre></div>
+      `,
+    }),
+  );
+}
+
+/**
+ * Registers the slash commands that manage servers and call tools:
+ * `/mcp-call`, `/mcp-list`, `/mcp-connect`, `/mcp-disconnect`, `/mcp-reload`, `/mcp-enable` and `/mcp-disable`.
+ */
+export function registerManagementCommands(): void {
+  const context = SillyTavern.getContext();
+  const { SlashCommandParser, SlashCommand, SlashCommandArgument, SlashCommandNamedArgument, ARGUMENT_TYPE } = context;
+
+  const serverArgument = (enumProvider: () => SlashCommandEnumValue[], isRequired = true) =>
+    SlashCommandArgument.fromProps({
+      description: 'server name',
+      typeList: [ARGUMENT_TYPE.STRING],
+      isRequired,
+      enumProvider,
+    });
+
+  // Fill the autocomplete list once the plugin is reachable
+  getServerNames().catch(() => {});
+
+  SlashCommandParser.addCommandObject(
+    SlashCommand.fromProps({
+      name: 'mcp-call',
+      callback: async (namedArgs: Record<string, any>, unnamedArgs: string[]) => {
+        const [serverName, toolName, argsText] = unnamedArgs;
+        if (!serverName || !toolName) {
+          throw new Error('Usage: /mcp-call server tool [{"argument": "value"}]');
+        }
+        if (!MCPClient.isConnected(serverName)) {
+          throw new Error(`MCP server "${serverName}" is not connected.`);
+        }
+
+        const args = parseCallArguments(namedArgs.args || argsText);
+        const result = await MCPClient.callTool(serverName, toolName, args, {
+          bypassCache: namedArgs.cache === 'false',
+        });
+        if (namedArgs.format === 'json') {
+          return JSON.stringify(result);
+        }
+
+        const parsed = parseToolResult(result);
+        if (parsed.isError) {
+          throw new Error(parsed.text || `Tool "${toolName}" failed`);
+        }
+        return parsed.text;
+      },
+      returns: 'the text of the tool result, or the whole result as JSON',
+      namedArgumentList: [
+        SlashCommandNamedArgument.fromProps({
+          name: 'args',
+          description: 'the tool arguments as a JSON object, instead of the third argument',
+          typeList: [ARGUMENT_TYPE.STRING],
+        }),
+        SlashCommandNamedArgument.fromProps({
+          name: 'format',
+          description: 'return the text of the result, or the whole MCP result as JSON',
+          typeList: [ARGUMENT_TYPE.STRING],
+          defaultValue: 'text',
+          enumList: ['text', 'json'],
+        }),
+        SlashCommandNamedArgument.fromProps({
+          name: 'cache',
+          description: 'use a cached result if there is one. The new result is cached either way.',
+          typeList: [ARGUMENT_TYPE.BOOLEAN],
+          defaultValue: 'true',
+          enumList: ['true', 'false'],
+        }),
+      ],
+      unnamedArgumentList: [
+        serverArgument(getConnectedServerEnum),
+        SlashCommandArgument.fromProps({
+          description: 'tool name',
+          typeList: [ARGUMENT_TYPE.STRING],
+          isRequired: true,
+          enumProvider: getToolEnum,
+        }),
+        SlashCommandArgument.fromProps({
+          description: 'tool arguments as a JSON object',
+          typeList: [ARGUMENT_TYPE.STRING],
+          isRequired: false,
+        }),
+      ],
+      splitUnnamedArgument: true,
+      splitUnnamedArgumentCount: 3,
+      helpString: `
+        <div>Calls a tool of a connected MCP server directly, without asking the model, and returns its result.</div>
+        <div>Tool errors stop the script.</div>
+        <div><strong>Example:</strong> <pre><code>/mcp-call brave-search brave_web_search {"query": "SillyTavern"} | /echo</code></pre></div>
+      `,
+    }),
+  );
+
+  SlashCommandParser.addCommandObject(
+    SlashCommand.fromProps({
+      name: 'mcp-list',
+      callback: async (namedArgs: Record<string, any>, serverName: string) => {
+        if (serverName) {
+          const tools = await MCPClient.getServerTools(serverName);
+          if (!tools) {
+            throw new Error(`Could not list the tools of MCP server "${serverName}".`);
+          }
+          const listed = namedArgs.enabled === 'true' ? tools.filter((tool) => tool._enabled) : tools;
+          return JSON.stringify(listed.map((tool) => tool.name));
+        }
+
+        const names = await getServerNames();
+        const listed = namedArgs.connected === 'true' ? names.filter((name) => MCPClient.isConnected(name)) : names;
+        return JSON.stringify(listed);
+      },
+      returns: 'a JSON array of server names, or of the tool names of a server',
+      namedArgumentList: [
+        SlashCommandNamedArgument.fromProps({
+          name: 'connected',
+          description: 'only list connected servers',
+          typeList: [ARGUMENT_TYPE.BOOLEAN],
+          defaultValue: 'false',
+          enumList: ['true', 'false'],
+        }),
+        SlashCommandNamedArgument.fromProps({
+          name: 'enabled',
+          description: 'only list enabled tools',
+          typeList: [ARGUMENT_TYPE.BOOLEAN],
+          defaultValue: 'false',
+          enumList: ['true', 'false'],
+        }),
+      ],
+      unnamedArgumentList: [serverArgument(getServerEnum, false)],
+      helpString: `
+        <div>Lists the configured MCP servers, or the tools of one server.</div>
+        <div><strong>Example:</strong> <pre><code>/mcp-list connected=true | /echo</code></pre></div>
+      `,
+    }),
+  );
+
+  SlashCommandParser.addCommandObject(
+    SlashCommand.fromProps({
+      name: 'mcp-connect',
+      callback: async (namedArgs: Record<string, any>, serverName: string) => {
+        await assertServerExists(serverName, 'mcp-connect');
+        if (!MCPClient.isConnected(serverName)) {
+          await MCPClient.restartServer(serverName);
+        }
+        return '';
+      },
+      unnamedArgumentList: [serverArgument(getServerEnum)],
+      helpString: `
+        <div>Connects to an MCP server and registers its tools until it is disconnected.</div>
+        <div>Unlike <code>/mcp-enable</code>, the server stays disabled after a reload.</div>
+      `,
+    }),
+  );
+
+  SlashCommandParser.addCommandObject(
+    SlashCommand.fromProps({
+      name: 'mcp-disconnect',
+      callback: async (namedArgs: Record<string, any>, serverName: string) => {
+        await assertServerExists(serverName, 'mcp-disconnect');
+        if (MCPClient.isConnected(serverName)) {
+          await MCPClient.disconnect(serverName);
+        }
+        return '';
+      },
+      unnamedArgumentList: [serverArgument(getConnectedServerEnum)],
+      helpString: `
+        <div>Disconnects from an MCP server and unregisters its tools. The server stays enabled.</div>
+      `,
+    }),
+  );
+
+  SlashCommandParser.addCommandObject(
+    SlashCommand.fromProps({
+      name: 'mcp-reload',
+      callback: async (namedArgs: Record<string, any>, serverName: string) => {
+        if (serverName) {
+          await MCPClient.reloadServerTools(serverName);
+        } else {
+          await MCPClient.reloadAllTools();
+        }
+        return '';
+      },
+      unnamedArgumentList: [serverArgument(getConnectedServerEnum, false)],
+      helpString: `
+        <div>Reloads the tools, resources and prompts of one MCP server, or of all servers.</div>
+      `,
+    }),
+  );
+
+  for (const enabled of [true, false]) {
+    const name = enabled ? 'mcp-enable' : 'mcp-disable';
+    SlashCommandParser.addCommandObject(
+      SlashCommand.fromProps({
+        name,
+        callback: async (namedArgs: Record<string, any>, unnamedArgs: string[]) => {
+          const [serverName, toolName] = unnamedArgs;
+          if (!serverName) {
+            throw new Error(`Usage: /${name} server [tool]`);
+          }
+          if (toolName) {
+            await MCPClient.setToolEnabled(serverName, toolName, enabled);
+          } else {
+            await MCPClient.setServerEnabled(serverName, enabled);
+          }
+          return '';
+        },
+        unnamedArgumentList: [
+          serverArgument(getServerEnum),
+          SlashCommandArgument.fromProps({
+            description: 'tool name',
+            typeList: [ARGUMENT_TYPE.STRING],
+            isRequired: false,
+            enumProvider: getToolEnum,
+          }),
+        ],
+        splitUnnamedArgument: true,
+        splitUnnamedArgumentCount: 2,
+        helpString: `
+          <div>${enabled ? 'Enables' : 'Disables'} an MCP server, or one of its tools. The change is saved.</div>
+          <div><strong>Example:</strong> <pre><code>/${name} brave-search brave_local_search</code></pre></div>
+        `,
+      }),
+    );
+  }
+}
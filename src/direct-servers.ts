@@ -0,0 +1,192 @@
+import { getAuthHeaders } from './auth.js';
+import { McpHttpSession } from './mcp-http-session.js';
+import { getExtensionSettings } from './settings.js';
+import {
+  McpPrompt,
+  McpPromptResult,
+  McpResource,
+  McpResourceContents,
+  McpResourceTemplate,
+  McpTool,
+  ServerConfig,
+  ServerData,
+  ToolCallOptions,
+} from './mcp-client.js';
+import { McpTransport } from './transport.js';
+
+/**
+ * A server the browser connects to directly, stored in the extension settings.
+ */
+export interface DirectServerData {
+  config: ServerConfig;
+  enabled: boolean;
+  disabledTools: string[];
+}
+
+function getDirectServers(): Record<string, DirectServerData> {
+  return getExtensionSettings().directServers;
+}
+
+function saveSettings(): void {
+  SillyTavern.getContext().saveSettingsDebounced();
+}
+
+/**
+ * Checks if a server is configured for direct mode.
+ */
+export function isDirectServer(name: string): boolean {
+  return name in getDirectServers();
+}
+
+/**
+ * Sends a list request and follows `nextCursor` until every page is read.
+ * @param session The session to send the requests with.
+ * @param method The list method, like `tools/list`.
+ * @param key The result property holding the items of a page.
+ */
+async function listAll(session: McpHttpSession, method: string, key: string): Promise<any[]> {
+  const items: any[] = [];
+  let cursor: string | undefined;
+  do {
+    const result = await session.request(method, cursor ? { cursor } : undefined);
+    items.push(...(result[key] ?? []));
+    cursor = result.nextCursor;
+  } while (cursor);
+  return items;
+}
+
+/**
+ * Connects to remote servers straight from the browser. Server configurations are stored in the extension settings.
+ */
+export class DirectTransport implements McpTransport {
+  onToolsChanged?: (name: string) => void;
+  onRequest?: (name: string, method: string, params: any) => Promise<any>;
+  #sessions: Map<string, McpHttpSession> = new Map();
+
+  #getSession(name: string): McpHttpSession {
+    const session = this.#sessions.get(name);
+    if (!session) {
+      throw new Error(`MCP server "${name}" is not connected.`);
+    }
+    return session;
+  }
+
+  async listServers(): Promise<ServerData[]> {
+    return Object.entries(getDirectServers()).map(([name, server]) => ({
+      name,
+      config: server.config,
+      enabled: server.enabled,
+      cachedTools: {},
+    }));
+  }
+
+  async addServer(name: string, config: ServerConfig): Promise<void> {
+    if (config.type === 'stdio' || !config.url) {
+      throw new Error('Direct mode requires an "sse" or "streamableHttp" server with a "url".');
+    }
+    if (isDirectServer(name)) {
+      throw new Error(`Server "${name}" already exists.`);
+    }
+
+    getDirectServers()[name] = { config, enabled: true, disabledTools: [] };
+    saveSettings();
+  }
+
+  async updateServer(name: string, config: ServerConfig): Promise<void> {
+    if (config.type === 'stdio' || !config.url) {
+      throw new Error('Direct mode requires an "sse" or "streamableHttp" server with a "url".');
+    }
+    getDirectServers()[name].config = config;
+    saveSettings();
+  }
+
+  async deleteServer(name: string): Promise<void> {
+    delete getDirectServers()[name];
+    saveSettings();
+  }
+
+  async startServer(name: string, config: ServerConfig): Promise<void> {
+    await this.stopServer(name);
+
+    const session = new McpHttpSession(config.url!, config.type as 'sse' | 'streamableHttp', config.headers);
+    if (config.auth) {
+      // Resolved per request, so refreshed OAuth tokens are picked up
+      session.authorize = (refresh) => getAuthHeaders(name, config, refresh);
+    }
+    session.onNotification = (method) => {
+      if (method === 'notifications/tools/list_changed') {
+        this.onToolsChanged?.(name);
+      }
+    };
+    if (this.onRequest) {
+      const onRequest = this.onRequest;
+      session.clientCapabilities = { elicitation: {}, sampling: {} };
+      session.onRequest = (method, params) => onRequest(name, method, params);
+    }
+    await session.connect();
+    this.#sessions.set(name, session);
+  }
+
+  async stopServer(name: string): Promise<void> {
+    const session = this.#sessions.get(name);
+    this.#sessions.delete(name);
+    await session?.close();
+  }
+
+  async ping(name: string): Promise<void> {
+    await this.#getSession(name).request('ping');
+  }
+
+  async setDisabledServers(disabledServers: string[]): Promise<void> {
+    for (const [name, server] of Object.entries(getDirectServers())) {
+      server.enabled = !disabledServers.includes(name);
+    }
+    saveSettings();
+  }
+
+  async setDisabledTools(name: string, disabledTools: string[]): Promise<void> {
+    getDirectServers()[name].disabledTools = disabledTools;
+    saveSettings();
+  }
+
+  async reloadTools(name: string): Promise<void> {
+    // Direct servers have no tool cache of their own, their tools are listed again on fetch
+  }
+
+  async listTools(name: string): Promise<McpTool[]> {
+    const tools = await listAll(this.#getSession(name), 'tools/list', 'tools');
+    const disabledTools = getDirectServers()[name]?.disabledTools ?? [];
+    return (tools as McpTool[]).map((tool) => ({ ...tool, _enabled: !disabledTools.includes(tool.name) }));
+  }
+
+  async callTool(name: string, toolName: string, args: any, options: ToolCallOptions = {}): Promise<any> {
+    return await this.#getSession(name).request('tools/call', { name: toolName, arguments: args }, options);
+  }
+
+  async listResources(name: string): Promise<McpResource[]> {
+    const session = this.#getSession(name);
+    if (!session.serverCapabilities.resources) return [];
+    return await listAll(session, 'resources/list', 'resources');
+  }
+
+  async listResourceTemplates(name: string): Promise<McpResourceTemplate[]> {
+    const session = this.#getSession(name);
+    if (!session.serverCapabilities.resources) return [];
+    return await listAll(session, 'resources/templates/list', 'resourceTemplates');
+  }
+
+  async readResource(name: string, uri: string): Promise<McpResourceContents[]> {
+    const { contents } = await this.#getSession(name).request('resources/read', { uri });
+    return contents;
+  }
+
+  async listPrompts(name: string): Promise<McpPrompt[]> {
+    const session = this.#getSession(name);
+    if (!session.serverCapabilities.prompts) return [];
+    return await listAll(session, 'prompts/list', 'prompts');
+  }
+
+  async getPrompt(name: string, promptName: string, args: Record<string, string>): Promise<McpPromptResult> {
+    return await this.#getSession(name).request('prompts/get', { name: promptName, arguments: args });
+  }
+}
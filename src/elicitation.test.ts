@@ -0,0 +1,93 @@
+import { describe, expect, it } from '@jest/globals';
+import { getElicitationFields, readElicitationValues } from './elicitation.js';
+
+const schema = {
+  type: 'object' as const,
+  properties: {
+    name: { type: 'string', title: 'Project name', minLength: 2 },
+    email: { type: 'string', format: 'email' },
+    license: { type: 'string', enum: ['mit', 'gpl'], enumNames: ['MIT', 'GPL'], default: 'mit' },
+    workers: { type: 'integer', minimum: 1, maximum: 8 },
+    private: { type: 'boolean', default: true },
+  },
+  required: ['name', 'workers'],
+};
+
+describe('getElicitationFields', () => {
+  it('builds a field for each property', () => {
+    const fields = getElicitationFields(schema);
+
+    expect(fields.map((field) => [field.name, field.input, field.required])).toEqual([
+      ['name', 'text', true],
+      ['email', 'email', false],
+      ['license', 'select', false],
+      ['workers', 'number', true],
+      ['private', 'checkbox', false],
+    ]);
+    expect(fields[0].label).toBe('Project name');
+    expect(fields[2].options).toEqual([
+      { value: 'mit', label: 'MIT' },
+      { value: 'gpl', label: 'GPL' },
+    ]);
+    expect(fields[2].defaultValue).toBe('mit');
+    expect(fields[4].defaultValue).toBe(true);
+  });
+
+  it('reads the options of oneOf enums', () => {
+    const [field] = getElicitationFields({
+      type: 'object',
+      properties: { size: { type: 'string', oneOf: [{ const: 's', title: 'Small' }, { const: 'l' }] } },
+    });
+
+    expect(field.options).toEqual([
+      { value: 's', label: 'Small' },
+      { value: 'l', label: 'l' },
+    ]);
+  });
+
+  it('rejects nested properties', () => {
+    expect(() => getElicitationFields({ type: 'object', properties: { tags: { type: 'array' } } })).toThrow(
+      'unsupported type "array"',
+    );
+  });
+});
+
+describe('readElicitationValues', () => {
+  const fields = getElicitationFields(schema);
+
+  it('converts the entered values to the schema types', () => {
+    const { content, errors } = readElicitationValues(fields, {
+      name: ' Atlas ',
+      email: '',
+      license: 'gpl',
+      workers: '4',
+      private: false,
+    });
+
+    expect(errors).toEqual([]);
+    expect(content).toEqual({ name: 'Atlas', license: 'gpl', workers: 4, private: false });
+  });
+
+  it('reports every invalid field', () => {
+    const { errors } = readElicitationValues(fields, {
+      name: 'A',
+      email: 'nobody',
+      license: 'bsd',
+      workers: '2.5',
+      private: true,
+    });
+
+    expect(errors).toEqual([
+      'Project name must be at least 2 characters long.',
+      'email must be an email address.',
+      'license must be one of the listed values.',
+      'workers must be a whole number.',
+    ]);
+  });
+
+  it('requires required fields', () => {
+    const { errors } = readElicitationValues(fields, { name: '', workers: '9' });
+
+    expect(errors).toEqual(['Project name is required.', 'workers must be at most 8.']);
+  });
+});
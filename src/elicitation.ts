@@ -0,0 +1,167 @@
+/**
+ * The parameters of an `elicitation/create` request.
+ */
+export interface ElicitationRequest {
+  message: string;
+  /** A flat object schema whose properties are strings, numbers, integers or booleans */
+  requestedSchema: {
+    type: 'object';
+    properties: Record<string, any>;
+    required?: string[];
+  };
+}
+
+export interface ElicitationResult {
+  /** `decline` if the user refused, `cancel` if they closed the form without choosing */
+  action: 'accept' | 'decline' | 'cancel';
+  content?: Record<string, string | number | boolean>;
+}
+
+/**
+ * A form field generated from a property of the requested schema.
+ */
+export interface ElicitationField {
+  name: string;
+  label: string;
+  description?: string;
+  required: boolean;
+  /** How the field is shown */
+  input: 'checkbox' | 'select' | 'text' | 'email' | 'url' | 'date' | 'datetime-local' | 'number';
+  /** Values and labels of a select field */
+  options?: Array<{ value: string; label: string }>;
+  /** The default value as the input shows it */
+  defaultValue?: string | boolean;
+  schema: any;
+}
+
+const STRING_INPUTS: Record<string, ElicitationField['input']> = {
+  email: 'email',
+  uri: 'url',
+  date: 'date',
+  'date-time': 'datetime-local',
+};
+
+/**
+ * Gets the options of an enum property, from `enum` and `enumNames` or from `oneOf` with `const` and `title`.
+ */
+function getEnumOptions(property: any): ElicitationField['options'] {
+  if (Array.isArray(property.enum)) {
+    return property.enum.map((value: any, index: number) => ({
+      value: String(value),
+      label: String(property.enumNames?.[index] ?? value),
+    }));
+  }
+  if (Array.isArray(property.oneOf) && property.oneOf.every((option: any) => option?.const !== undefined)) {
+    return property.oneOf.map((option: any) => ({ value: String(option.const), label: option.title ?? option.const }));
+  }
+  return undefined;
+}
+
+/**
+ * Builds the form fields of an elicitation request.
+ * @throws If the schema has properties that are not primitive.
+ */
+export function getElicitationFields(schema: ElicitationRequest['requestedSchema']): ElicitationField[] {
+  const required = schema?.required ?? [];
+  return Object.entries<any>(schema?.properties ?? {}).map(([name, property]) => {
+    const field: ElicitationField = {
+      name,
+      label: property.title || name,
+      description: property.description,
+      required: required.includes(name),
+      input: 'text',
+      schema: property,
+    };
+
+    switch (property.type) {
+      case 'boolean':
+        field.input = 'checkbox';
+        field.defaultValue = property.default === true;
+        break;
+      case 'number':
+      case 'integer':
+        field.input = 'number';
+        break;
+      case 'string': {
+        field.options = getEnumOptions(property);
+        field.input = field.options ? 'select' : (STRING_INPUTS[property.format] ?? 'text');
+        break;
+      }
+      default:
+        throw new Error(`Field "${name}" has the unsupported type "${property.type}".`);
+    }
+
+    if (property.default !== undefined && field.input !== 'checkbox') {
+      field.defaultValue = String(property.default);
+    }
+    return field;
+  });
+}
+
+/**
+ * Reads the values the user entered into the form of an elicitation request.
+ * @param fields The fields of the form.
+ * @param values The raw input values by field name. Checkboxes give booleans, other inputs strings.
+ * @returns The content to send to the server, and a message for each invalid field.
+ */
+export function readElicitationValues(
+  fields: ElicitationField[],
+  values: Record<string, string | boolean>,
+): { content: Record<string, string | number | boolean>; errors: string[] } {
+  const content: Record<string, string | number | boolean> = {};
+  const errors: string[] = [];
+
+  for (const field of fields) {
+    const value = values[field.name];
+    const schema = field.schema;
+    if (field.input === 'checkbox') {
+      content[field.name] = value === true;
+      continue;
+    }
+
+    const text = typeof value === 'string' ? value.trim() : '';
+    if (text === '') {
+      if (field.required) {
+        errors.push(`${field.label} is required.`);
+      }
+      continue;
+    }
+
+    if (field.input === 'number') {
+      const number = Number(text);
+      if (Number.isNaN(number) || (schema.type === 'integer' && !Number.isInteger(number))) {
+        errors.push(`${field.label} must be ${schema.type === 'integer' ? 'a whole number' : 'a number'}.`);
+      } else if (schema.minimum !== undefined && number < schema.minimum) {
+        errors.push(`${field.label} must be at least ${schema.minimum}.`);
+      } else if (schema.maximum !== undefined && number > schema.maximum) {
+        errors.push(`${field.label} must be at most ${schema.maximum}.`);
+      } else {
+        content[field.name] = number;
+      }
+      continue;
+    }
+
+    if (field.options && !field.options.some((option) => option.value === text)) {
+      errors.push(`${field.label} must be one of the listed values.`);
+    } else if (schema.minLength !== undefined && text.length < schema.minLength) {
+      errors.push(`${field.label} must be at least ${schema.minLength} characters long.`);
+    } else if (schema.maxLength !== undefined && text.length > schema.maxLength) {
+      errors.push(`${field.label} must be at most ${schema.maxLength} characters long.`);
+    } else if (field.input === 'email' && !/^[^\s@]+@[^\s@]+$/.test(text)) {
+      errors.push(`${field.label} must be an email address.`);
+    } else if (field.input === 'url' && !URL.canParse(text)) {
+      errors.push(`${field.label} must be a URL.`);
+    } else if (field.input === 'datetime-local') {
+      const date = new Date(text);
+      if (Number.isNaN(date.getTime())) {
+        errors.push(`${field.label} must be a date and time.`);
+      } else {
+        content[field.name] = date.toISOString();
+      }
+    } else {
+      content[field.name] = text;
+    }
+  }
+
+  return { content, errors };
+}
@@ -0,0 +1,148 @@
+import { POPUP_RESULT, POPUP_TYPE } from 'sillytavern-utils-lib/types/popup';
+import { st_echo } from 'sillytavern-utils-lib/config';
+import { MCPClient, ServerConfig } from './mcp-client.js';
+import { exportServersConfig, ImportAction, ImportEntry, ImportResult, importServers } from './server-import.js';
+import { extensionName } from './settings.js';
+
+async function renderTemplate(templatePath: string): Promise<HTMLElement> {
+  const context = SillyTavern.getContext();
+  const content = await context.renderExtensionTemplateAsync(`third-party/${extensionName}`, templatePath);
+  const tempDiv = document.createElement('div');
+  tempDiv.innerHTML = content;
+  return tempDiv.firstElementChild as HTMLElement;
+}
+
+function describeConfig(config: ServerConfig): string {
+  if (config?.type === 'stdio') {
+    return [config.command, ...(config.args ?? [])].join(' ');
+  }
+  return `${config?.type ?? 'unknown'} ${config?.url ?? ''}`.trim();
+}
+
+const RESULT_LABELS: Record<ImportResult['status'], string> = {
+  added: 'Added',
+  overwritten: 'Overwritten',
+  skipped: 'Skipped',
+  warning: 'Added with warning',
+  failed: 'Failed',
+};
+
+/**
+ * Shows a preview of the servers to import, where the user picks what to do with each of them.
+ * @param entries The servers found in the pasted config.
+ * @returns The chosen action per server name, or null if the import was cancelled.
+ */
+async function showImportPreview(entries: ImportEntry[]): Promise<Record<string, ImportAction> | null> {
+  const context = SillyTavern.getContext();
+  const previewContent = await renderTemplate('templates/import');
+  const list = previewContent.querySelector('.import-list') as HTMLElement;
+  const rowTemplate = previewContent.querySelector('#import-row-template') as HTMLTemplateElement;
+  const existingNames = new Set((await MCPClient.getServers()).map((server) => server.name));
+
+  const selects: Record<string, HTMLSelectElement> = {};
+  for (const entry of entries) {
+    const row = (rowTemplate.content.cloneNode(true) as DocumentFragment).querySelector('.import-row') as HTMLElement;
+    const select = row.querySelector('.import-action') as HTMLSelectElement;
+    const message = row.querySelector('.import-message') as HTMLElement;
+    const exists = existingNames.has(entry.name);
+
+    row.querySelector('.import-name')!.textContent = entry.name;
+    row.querySelector('.import-summary')!.textContent = describeConfig(entry.config);
+
+    if (entry.errors.length > 0) {
+      row.classList.add('invalid');
+      message.textContent = entry.errors.join(' ');
+      select.value = 'skip';
+      select.disabled = true;
+    } else if (exists) {
+      row.classList.add('conflict');
+      message.textContent = 'A server with this name already exists.';
+      (select.querySelector('option[value="add"]') as HTMLOptionElement).disabled = true;
+      select.value = 'skip';
+    } else {
+      (select.querySelector('option[value="overwrite"]') as HTMLOptionElement).disabled = true;
+      select.value = 'add';
+    }
+
+    selects[entry.name] = select;
+    list.appendChild(row);
+  }
+
+  const result = await context.callGenericPopup($(previewContent), POPUP_TYPE.CONFIRM, '', {
+    okButton: 'Import',
+    cancelButton: 'Cancel',
+    wide: true,
+  });
+  if (result !== POPUP_RESULT.AFFIRMATIVE) {
+    return null;
+  }
+
+  return Object.fromEntries(Object.entries(selects).map(([name, select]) => [name, select.value as ImportAction]));
+}
+
+/**
+ * Shows the outcome of an import for each server.
+ */
+async function showImportReport(results: ImportResult[]): Promise<void> {
+  const context = SillyTavern.getContext();
+  const reportContent = document.createElement('div');
+  reportContent.className = 'mcp-import-content';
+  reportContent.innerHTML = '<h3>Import results</h3><div class="import-list"></div>';
+  const list = reportContent.querySelector('.import-list') as HTMLElement;
+
+  for (const result of results) {
+    const row = document.createElement('div');
+    row.className = `import-row ${result.status}`;
+    row.innerHTML = '<div class="import-info"><b class="import-name"></b><small class="import-message"></small></div>';
+    row.querySelector('.import-name')!.textContent = `${result.name}: ${RESULT_LABELS[result.status]}`;
+    row.querySelector('.import-message')!.textContent = result.message ?? '';
+    list.appendChild(row);
+  }
+
+  await context.callGenericPopup($(reportContent), POPUP_TYPE.TEXT, '', { wide: true });
+}
+
+/**
+ * Previews, imports and reports the servers of a pasted MCP client config.
+ * @param entries The servers found in the pasted config.
+ * @returns Whether anything was imported.
+ */
+export async function runImport(entries: ImportEntry[]): Promise<boolean> {
+  const actions = await showImportPreview(entries);
+  if (!actions) {
+    return false;
+  }
+
+  const results = await importServers(entries, actions);
+  await showImportReport(results);
+  return results.some((result) => result.status !== 'skipped' && result.status !== 'failed');
+}
+
+/**
+ * Shows the configuration of all servers as a portable `mcpServers` config.
+ */
+export async function openExportPopup(): Promise<void> {
+  const context = SillyTavern.getContext();
+  const exportContent = await renderTemplate('templates/export');
+  const secretsToggle = exportContent.querySelector('#mcp-export-secrets') as HTMLInputElement;
+  const output = exportContent.querySelector('#mcp-export-json') as HTMLTextAreaElement;
+  const servers = await MCPClient.getServers();
+
+  const render = () => {
+    output.value = JSON.stringify(exportServersConfig(servers, secretsToggle.checked), null, 2);
+  };
+  secretsToggle.addEventListener('change', render);
+  render();
+
+  exportContent.querySelector('#mcp-export-copy')!.addEventListener('click', async () => {
+    try {
+      await navigator.clipboard.writeText(output.value);
+      await st_echo('success', 'Copied to clipboard');
+    } catch (error) {
+      output.select();
+      await st_echo('error', `Could not copy to clipboard: ${(error as Error).message}`);
+    }
+  });
+
+  await context.callGenericPopup($(exportContent), POPUP_TYPE.TEXT, '', { wide: true });
+}
@@ -1,51 +1,49 @@
 import { EventNames } from 'sillytavern-utils-lib/types';
-import { POPUP_TYPE } from 'sillytavern-utils-lib/types/popup';
-import { st_echo } from 'sillytavern-utils-lib/config';
-import { MCPClient, McpTool, ServerConfig } from './mcp-client.js';
+import { POPUP_RESULT, POPUP_TYPE } from 'sillytavern-utils-lib/types/popup';
+import { st_echo, st_updateMessageBlock } from 'sillytavern-utils-lib/config';
+import { MCPClient, McpTool, ServerConfig, ServerStatus, ToolScope } from './mcp-client.js';
+import { approveToolCall, setServerApproval, setToolApproval } from './approval.js';
+import { forgetOAuthState, isLoggedIn, login } from './auth.js';
+import { isDirectServer } from './direct-servers.js';
+import { clearCallHistory, initializeCallHistory, renderCallHistory } from './call-history.js';
+import { registerManagementCommands, registerProfileCommand } from './commands.js';
+import { registerPromptCommand } from './prompts.js';
+import { injectPinnedResources, isResourcePinned, pinResource, unpinResource } from './resources.js';
+import { applyToolScope, getScope, isScopeTargetAvailable, ScopeTarget, setScope } from './scopes.js';
+import { getSchemaProfile, getSchemaProfiles, sanitizeToolDefinitions } from './schema-sanitizers.js';
+import { parseQuickAdd } from './command-parser.js';
+import { openExportPopup, runImport } from './import-export.js';
+import { openServerEditor } from './server-editor.js';
+import { parseServersConfig } from './server-import.js';
+import { setServerTimeout, setToolTimeout } from './timeouts.js';
+import { setServerSamplingLimit } from './sampling.js';
+import { handleServerRequest } from './server-requests.js';
+import { getToolBadges, getToolTitle, isReadOnlyTool } from './tool-annotations.js';
+import { clearResultCache, setToolCacheTtl } from './result-cache.js';
+import { limitToolCallResult, ResultLimitStrategy, setToolResultLimit } from './result-limits.js';
+import { openToolEditor } from './tool-editor.js';
+import { buildToolId } from './tool-ids.js';
+import { describeDroppedImages } from './tool-result.js';
+import {
+  estimateSchemaTokens,
+  formatTokenCount,
+  matchesServerFilter,
+  matchesToolFilter,
+  ToolListStatus,
+} from './tool-list-filter.js';
+import { getToolOverride } from './tool-overrides.js';
+import {
+  addToolProfileListener,
+  applyToolProfile,
+  deleteToolProfile,
+  getActiveToolProfile,
+  getToolProfileNames,
+  saveToolProfile,
+} from './tool-profiles.js';
+import { initializeToolProgress } from './tool-progress.js';
+import { ApprovalPolicy, extensionName, getExtensionSettings, initializeDefaultSettings } from './settings.js';
 
-const extensionName = 'SillyTavern-MCP-Client';
 const globalContext = SillyTavern.getContext();
-const EXTENSION_SETTINGS_KEY = 'mcp';
-
-interface ExtensionSettings {
-  enabled: boolean;
-}
-
-function getExtensionSettings(): ExtensionSettings {
-  const context = SillyTavern.getContext();
-  return context.extensionSettings[EXTENSION_SETTINGS_KEY] as ExtensionSettings;
-}
-
-const DEFAULT_SETTINGS: ExtensionSettings = {
-  enabled: false,
-};
-
-function initializeDefaultSettings(): void {
-  globalContext.extensionSettings[EXTENSION_SETTINGS_KEY] =
-    globalContext.extensionSettings?.[EXTENSION_SETTINGS_KEY] || {};
-
-  function initializeRecursively(target: any, defaults: any): boolean {
-    let anyChange = false;
-
-    for (const key of Object.keys(defaults)) {
-      if (target[key] === undefined) {
-        target[key] = defaults[key];
-        anyChange = true;
-      } else if (typeof defaults[key] === 'object' && defaults[key] !== null) {
-        target[key] = target[key] || {};
-        if (initializeRecursively(target[key], defaults[key])) {
-          anyChange = true;
-        }
-      }
-    }
-
-    return anyChange;
-  }
-
-  if (initializeRecursively(globalContext.extensionSettings[EXTENSION_SETTINGS_KEY], DEFAULT_SETTINGS)) {
-    globalContext.saveSettingsDebounced();
-  }
-}
 
 async function handleUIChanges(): Promise<void> {
   const settingsHtml: string = await globalContext.renderExtensionTemplateAsync(
@@ -90,6 +88,139 @@ async function handleUIChanges(): Promise<void> {
       }, 1500);
     });
 
+  const toolProfileSelect = $('#mcp_tool_profile');
+  const renderToolProfiles = () => {
+    toolProfileSelect.find('option:not([value=""])').remove();
+    for (const name of getToolProfileNames()) {
+      toolProfileSelect.append($('<option></option>').val(name).text(name));
+    }
+    toolProfileSelect.val(getActiveToolProfile() ?? '');
+  };
+  renderToolProfiles();
+  addToolProfileListener(renderToolProfiles);
+
+  toolProfileSelect.on('change', async function () {
+    const name = $(this).val() as string;
+    if (!name) {
+      // Keeps the current servers and tools, only forgets which profile they came from
+      settings.activeToolProfile = '';
+      globalContext.saveSettingsDebounced();
+      return;
+    }
+    toolProfileSelect.prop('disabled', true);
+    try {
+      await applyToolProfile(name);
+      await st_echo('success', `Switched to tool profile "${name}"`);
+    } catch (error) {
+      console.error('[MCPClient] Error applying tool profile:', error);
+      await st_echo('error', `Failed to switch to tool profile "${name}": ${(error as Error).message}`);
+      renderToolProfiles();
+    }
+    toolProfileSelect.prop('disabled', false);
+  });
+
+  $('#mcp_save_tool_profile').on('click', async function () {
+    const name = await globalContext.Popup.show.input(
+      'Save tool profile',
+      'Name of the profile. The enabled servers and tools are saved, replacing a profile with the same name.',
+      getActiveToolProfile() ?? '',
+    );
+    if (!name?.trim()) return;
+    try {
+      await saveToolProfile(name);
+      await st_echo('success', `Tool profile "${name.trim()}" saved`);
+    } catch (error) {
+      await st_echo('error', `Failed to save tool profile: ${(error as Error).message}`);
+    }
+  });
+
+  $('#mcp_delete_tool_profile').on('click', async function () {
+    const name = toolProfileSelect.val() as string;
+    if (!name) return;
+    const confirm = await globalContext.Popup.show.confirm('Are you sure you want to delete the tool profile?', name);
+    if (!confirm) return;
+    deleteToolProfile(name);
+  });
+
+  $('#mcp_safe_mode')
+    .prop('checked', settings.safeMode)
+    .on('change', function () {
+      settings.safeMode = $(this).prop('checked');
+      globalContext.saveSettingsDebounced();
+      MCPClient.setSafeMode(settings.safeMode);
+    });
+
+  $('#mcp_disable_destructive_tools')
+    .prop('checked', settings.disableDestructiveTools)
+    .on('change', function () {
+      settings.disableDestructiveTools = $(this).prop('checked');
+      globalContext.saveSettingsDebounced();
+    });
+
+  $('#mcp_default_approval')
+    .val(settings.defaultApproval)
+    .on('change', function () {
+      settings.defaultApproval = $(this).val() as ApprovalPolicy;
+      globalContext.saveSettingsDebounced();
+    });
+
+  const schemaProfileSelect = $('#mcp_schema_profile');
+  for (const profile of getSchemaProfiles()) {
+    schemaProfileSelect.append($('<option></option>').val(profile.name).text(profile.label));
+  }
+  schemaProfileSelect.val(settings.schemaProfile).on('change', function () {
+    settings.schemaProfile = $(this).val() as string;
+    globalContext.saveSettingsDebounced();
+  });
+
+  $('#mcp_tool_timeout')
+    .val(settings.toolTimeout)
+    .on('change', function () {
+      settings.toolTimeout = Math.max(0, Number($(this).val()) || 0);
+      globalContext.saveSettingsDebounced();
+    });
+
+  $('#mcp_result_token_limit')
+    .val(settings.resultTokenLimit)
+    .on('change', function () {
+      settings.resultTokenLimit = Math.max(0, Number($(this).val()) || 0);
+      globalContext.saveSettingsDebounced();
+    });
+
+  $('#mcp_result_limit_strategy')
+    .val(settings.resultLimitStrategy)
+    .on('change', function () {
+      settings.resultLimitStrategy = $(this).val() as ResultLimitStrategy;
+      globalContext.saveSettingsDebounced();
+    });
+
+  $('#mcp_cache_ttl')
+    .val(settings.cacheTtl)
+    .on('change', function () {
+      settings.cacheTtl = Math.max(0, Number($(this).val()) || 0);
+      globalContext.saveSettingsDebounced();
+    });
+
+  $('#mcp_clear_cache').on('click', async function () {
+    clearResultCache();
+    await st_echo('success', 'Cleared the cached tool results');
+  });
+
+  $('#mcp_sampling_token_limit')
+    .val(settings.samplingTokenLimit)
+    .on('change', function () {
+      settings.samplingTokenLimit = Math.max(0, Number($(this).val()) || 0);
+      globalContext.saveSettingsDebounced();
+    });
+
+  $('#mcp_health_check_interval')
+    .val(settings.healthCheckInterval)
+    .on('change', function () {
+      settings.healthCheckInterval = Math.max(0, Number($(this).val()) || 0);
+      globalContext.saveSettingsDebounced();
+      MCPClient.startHealthChecks(settings.healthCheckInterval * 1000);
+    });
+
   /**
    * Creates and shows a popup from a template
    * @param templatePath The path to the template (without the extension)
@@ -121,6 +252,10 @@ async function handleUIChanges(): Promise<void> {
     toolsList.innerHTML = '';
 
     const allServers = await MCPClient.getServers();
+    renderPluginNotice(
+      popupContent,
+      allServers.map((server) => server.name),
+    );
 
     if (allServers.length === 0) {
       const noServers = document.createElement('div');
@@ -130,22 +265,49 @@ async function handleUIChanges(): Promise<void> {
     } else {
       for (const server of allServers) {
         const isConnected = MCPClient.isConnected(server.name);
+        // A server that lost its connection stays enabled while it reconnects
+        const isReconnecting = MCPClient.getServerStatus(server.name)?.state === 'reconnecting';
         // Clone server template
         const serverNode = serverTemplate.content.cloneNode(true) as DocumentFragment;
-        const serverSection = serverNode.querySelector('.server-tools-section')!;
+        const serverSection = serverNode.querySelector('.server-tools-section') as HTMLElement;
+        serverSection.dataset.server = server.name;
         if (!isConnected) serverSection.classList.add('disabled');
 
-        // Set server name and enabled state
+        // Set server name, status and enabled state
         (serverSection.querySelector('h4') as HTMLHeadingElement).textContent = server.name;
+        const statusBadge = serverSection.querySelector('.server-status') as HTMLElement;
+        statusBadge.dataset.server = server.name;
+        renderServerStatus(statusBadge, MCPClient.getServerStatus(server.name));
         const serverToggle = serverSection.querySelector('.server-toggle') as HTMLInputElement;
-        serverToggle.checked = isConnected;
+        serverToggle.checked = isConnected || isReconnecting;
         (serverToggle as HTMLInputElement & { dataset: DOMStringMap }).dataset.server = server.name;
 
+        // Set server approval policy
+        const serverApproval = serverSection.querySelector('.server-approval') as HTMLSelectElement;
+        serverApproval.value = settings.serverApprovals[server.name] ?? '';
+        serverApproval.addEventListener('change', () => {
+          setServerApproval(server.name, (serverApproval.value as ApprovalPolicy) || undefined);
+        });
+
+        // Set server timeout
+        const serverTimeout = serverSection.querySelector('.server-timeout') as HTMLInputElement;
+        serverTimeout.value = settings.serverTimeouts[server.name]?.toString() ?? '';
+        serverTimeout.addEventListener('change', () => {
+          setServerTimeout(server.name, parseNumberInput(serverTimeout.value));
+        });
+
+        // Set server sampling token limit
+        const serverSamplingLimit = serverSection.querySelector('.server-sampling-limit') as HTMLInputElement;
+        serverSamplingLimit.value = settings.serverSamplingLimits[server.name]?.toString() ?? '';
+        serverSamplingLimit.addEventListener('change', () => {
+          setServerSamplingLimit(server.name, parseNumberInput(serverSamplingLimit.value));
+        });
+
         // Add accordion click handler
         const serverHeader = serverSection.querySelector('.server-header') as HTMLElement;
         serverHeader.addEventListener('click', (e) => {
-          // Don't trigger accordion when clicking the toggle
-          if ((e.target as HTMLElement).closest('.checkbox_label')) return;
+          // Don't trigger accordion when clicking the toggle or the approval select
+          if ((e.target as HTMLElement).closest('.checkbox_label, select, input')) return;
 
           const toolsList = serverSection.querySelector('.tools-list') as HTMLElement;
           const chevron = serverHeader.querySelector('i') as HTMLElement;
@@ -214,23 +376,180 @@ async function handleUIChanges(): Promise<void> {
           }
         });
 
+        // Add enable and disable all tools handlers
+        for (const [selector, enabled] of [
+          ['.enable-server-tools', true],
+          ['.disable-server-tools', false],
+        ] as const) {
+          const button = serverSection.querySelector(selector) as HTMLButtonElement;
+          button.addEventListener('click', async (e) => {
+            e.stopPropagation(); // Prevent accordion from triggering
+            try {
+              await setToolsEnabled(popupContent, server.name, undefined, enabled);
+            } catch (error) {
+              console.error('Error updating tool states:', error);
+              await st_echo('error', `Failed to ${enabled ? 'enable' : 'disable'} the tools of "${server.name}"`);
+            }
+          });
+        }
+
+        // Add edit server handler
+        const editButton = serverSection.querySelector('.edit-server') as HTMLButtonElement;
+        editButton.addEventListener('click', async (e) => {
+          e.stopPropagation(); // Prevent accordion from triggering
+          const edited = await openServerEditor(server.name, server.config);
+          if (!edited) return;
+
+          try {
+            await MCPClient.updateServer(server.name, edited.config);
+            await st_echo('success', `Server "${server.name}" updated`);
+          } catch (error) {
+            console.error('Error updating server:', error);
+            await st_echo('error', `Error updating server "${server.name}": ${(error as Error).message}`);
+          }
+          await populateToolsList(popupContent);
+        });
+
+        // Add OAuth login handler
+        if (server.config.auth?.type === 'oauth') {
+          const loginButton = serverSection.querySelector('.login-server') as HTMLButtonElement;
+          const loggedIn = isLoggedIn(server.name);
+          loginButton.style.display = '';
+          loginButton.title = loggedIn ? 'Log out' : 'Log in';
+          loginButton.querySelector('i')!.className =
+            `fa-solid ${loggedIn ? 'fa-right-from-bracket' : 'fa-right-to-bracket'}`;
+          loginButton.addEventListener('click', async (e) => {
+            e.stopPropagation(); // Prevent accordion from triggering
+            try {
+              if (loggedIn) {
+                if (MCPClient.isConnected(server.name)) {
+                  await MCPClient.disconnect(server.name);
+                }
+                forgetOAuthState(server.name);
+                await st_echo('info', `Logged out of server "${server.name}"`);
+              } else {
+                await login(server.name, server.config);
+                if (settings.enabled && server.enabled) {
+                  await MCPClient.restartServer(server.name);
+                }
+                await st_echo('success', `Logged in to server "${server.name}"`);
+              }
+            } catch (error) {
+              console.error('Error logging in:', error);
+              await st_echo('error', `Login to server "${server.name}" failed: ${(error as Error).message}`);
+            }
+            await populateToolsList(popupContent);
+          });
+        }
+
         // Add tools if available
         const tools = await MCPClient.getServerTools(server.name);
+        renderToolCount(serverSection, tools);
         if (tools && tools.length > 0) {
           const toolsList = serverSection.querySelector('.tools-list') as HTMLElement;
           tools.forEach((tool: McpTool) => {
             const toolItem = document.createElement('div');
             toolItem.className = 'tool-item';
+            toolItem.dataset.server = server.name;
+            toolItem.dataset.tool = tool.name;
             toolItem.innerHTML = `
               <div class="tool-header">
-                <span class="tool-name">${tool.name}</span>
-                <label class="checkbox_label">
-                  <input type="checkbox" class="tool-toggle" ${tool._enabled ? 'checked' : ''} />
-                  <span>Enable</span>
-                </label>
+                <div class="tool-label">
+                  <span class="tool-name"></span>
+                  <span class="tool-title"></span>
+                  <span class="tool-badges"></span>
+                </div>
+                <div class="tool-controls">
+                  <input type="text" class="tool-alias text_pole" maxlength="64"
+                    title="Function name the model sees. Leave empty for the generated name." />
+                  <select class="tool-approval text_pole" title="Tool call approval">
+                    <option value="">Server approval</option>
+                    <option value="allow">Always allow</option>
+                    <option value="ask">Always ask</option>
+                    <option value="deny">Deny</option>
+                  </select>
+                  <input type="number" class="tool-timeout text_pole" min="0" placeholder="Server"
+                    title="Tool call timeout in seconds, 0 for no limit" />
+                  <input type="number" class="tool-result-limit text_pole" min="0" placeholder="Default"
+                    title="Most tokens a result may take, 0 for no limit" />
+                  <input type="number" class="tool-cache-ttl text_pole" min="0" placeholder="Auto"
+                    title="Seconds results are cached, 0 to never cache. Auto caches read-only tools." />
+                  <button class="edit-tool menu_button" title="Edit name, description and parameters">
+                    <i class="fa-solid fa-pen"></i>
+                  </button>
+                  <label class="checkbox_label">
+                    <input type="checkbox" class="tool-toggle" ${tool._enabled ? 'checked' : ''} />
+                    <span>Enable</span>
+                  </label>
+                </div>
               </div>
-              <div class="tool-description">${tool.description || 'No description available'}</div>
+              <div class="tool-description"></div>
             `;
+            toolItem.querySelector('.tool-name')!.textContent = tool.name;
+            toolItem.querySelector('.tool-title')!.textContent = getToolTitle(tool) ?? '';
+            const toolBadges = toolItem.querySelector('.tool-badges') as HTMLElement;
+            for (const badge of getToolBadges(tool)) {
+              const badgeElement = document.createElement('span');
+              badgeElement.className = `tool-badge ${badge.className}`;
+              badgeElement.title = badge.title;
+              badgeElement.innerHTML = `<i class="fa-solid ${badge.icon}"></i> ${badge.label}`;
+              toolBadges.appendChild(badgeElement);
+            }
+            if (MCPClient.isSafeMode() && !isReadOnlyTool(tool)) {
+              toolItem.classList.add('tool-unsafe');
+              toolItem.title = 'Not given to the model in safe mode';
+            }
+
+            const toolDescription = toolItem.querySelector('.tool-description') as HTMLElement;
+            const renderDescription = () => {
+              const override = getToolOverride(server.name, tool.name);
+              toolDescription.textContent = override?.description || tool.description || 'No description available';
+              toolItem.classList.toggle('tool-edited', override !== undefined);
+            };
+            renderDescription();
+
+            toolItem.querySelector('.edit-tool')!.addEventListener('click', async () => {
+              const edited = await openToolEditor(server.name, tool, getToolOverride(server.name, tool.name));
+              if (!edited) return;
+              MCPClient.updateToolOverride(server.name, tool.name, edited);
+              renderDescription();
+            });
+
+            const toolAlias = toolItem.querySelector('.tool-alias') as HTMLInputElement;
+            toolAlias.placeholder = MCPClient.getToolId(server.name, tool.name) ?? buildToolId(server.name, tool.name);
+            toolAlias.value = settings.toolAliases[server.name]?.[tool.name] ?? '';
+            toolAlias.addEventListener('change', async () => {
+              try {
+                MCPClient.updateToolAlias(server.name, tool.name, toolAlias.value.trim() || undefined);
+              } catch (error) {
+                await st_echo('error', (error as Error).message);
+                toolAlias.value = settings.toolAliases[server.name]?.[tool.name] ?? '';
+              }
+            });
+
+            const toolApproval = toolItem.querySelector('.tool-approval') as HTMLSelectElement;
+            toolApproval.value = settings.toolApprovals[server.name]?.[tool.name] ?? '';
+            toolApproval.addEventListener('change', () => {
+              setToolApproval(server.name, tool.name, (toolApproval.value as ApprovalPolicy) || undefined);
+            });
+
+            const toolTimeout = toolItem.querySelector('.tool-timeout') as HTMLInputElement;
+            toolTimeout.value = settings.toolTimeouts[server.name]?.[tool.name]?.toString() ?? '';
+            toolTimeout.addEventListener('change', () => {
+              setToolTimeout(server.name, tool.name, parseNumberInput(toolTimeout.value));
+            });
+
+            const toolResultLimit = toolItem.querySelector('.tool-result-limit') as HTMLInputElement;
+            toolResultLimit.value = settings.toolResultLimits[server.name]?.[tool.name]?.toString() ?? '';
+            toolResultLimit.addEventListener('change', () => {
+              setToolResultLimit(server.name, tool.name, parseNumberInput(toolResultLimit.value));
+            });
+
+            const toolCacheTtl = toolItem.querySelector('.tool-cache-ttl') as HTMLInputElement;
+            toolCacheTtl.value = settings.toolCacheTtls[server.name]?.[tool.name]?.toString() ?? '';
+            toolCacheTtl.addEventListener('change', () => {
+              setToolCacheTtl(server.name, tool.name, parseNumberInput(toolCacheTtl.value));
+            });
 
             const toolToggle = toolItem.querySelector('.tool-toggle') as HTMLInputElement & { dataset: DOMStringMap };
             toolToggle.dataset.server = server.name;
@@ -240,9 +559,303 @@ async function handleUIChanges(): Promise<void> {
           });
         }
 
+        // Add resources if available
+        if (isConnected) {
+          await appendResources(serverSection, server.name);
+        }
+
         toolsList.appendChild(serverSection);
       }
     }
+
+    applyToolFilter(popupContent);
+  }
+
+  /**
+   * Enables or disables tools of a server and updates their checkboxes.
+   * @param popupContent The popup content element
+   * @param serverName The name of the server
+   * @param toolNames The tools to change, or undefined for all tools of the server
+   * @param enabled Whether the tools should be enabled
+   */
+  async function setToolsEnabled(
+    popupContent: HTMLElement,
+    serverName: string,
+    toolNames: string[] | undefined,
+    enabled: boolean,
+  ): Promise<void> {
+    const tools = await MCPClient.getServerTools(serverName);
+    if (!tools) throw new Error('Could not get server tools');
+
+    const changed = new Set(toolNames ?? tools.map((tool) => tool.name));
+    const disabledTools = tools
+      .filter((tool) => (changed.has(tool.name) ? !enabled : !tool._enabled))
+      .map((tool) => tool.name);
+    await MCPClient.updateDisabledTools(serverName, disabledTools);
+
+    const serverSection = popupContent.querySelector(
+      `.server-tools-section[data-server="${CSS.escape(serverName)}"]`,
+    ) as HTMLElement;
+    serverSection.querySelectorAll<HTMLElement>('.tool-item[data-tool]').forEach((toolItem) => {
+      const toolToggle = toolItem.querySelector('.tool-toggle') as HTMLInputElement;
+      toolToggle.checked = !disabledTools.includes(toolItem.dataset.tool!);
+    });
+    renderToolCount(serverSection, tools);
+  }
+
+  /**
+   * Shows only the tools that match the search and status filter of the popup
+   * @param popupContent The popup content element
+   */
+  function applyToolFilter(popupContent: HTMLElement): void {
+    const filter = {
+      search: (popupContent.querySelector('#mcp-tools-search') as HTMLInputElement).value,
+      status: (popupContent.querySelector('#mcp-tools-status') as HTMLSelectElement).value as ToolListStatus,
+    };
+    const filtering = filter.search.trim() !== '' || filter.status !== '';
+    let shownTools = 0;
+    let totalTools = 0;
+
+    popupContent.querySelectorAll<HTMLElement>('.server-tools-section[data-server]').forEach((serverSection) => {
+      const serverName = serverSection.dataset.server!;
+      const status = MCPClient.getServerStatus(serverName);
+      const server = {
+        serverName,
+        connected: MCPClient.isConnected(serverName),
+        failed: status?.state === 'failed' || status?.lastError !== undefined,
+      };
+
+      let shownServerTools = 0;
+      serverSection.querySelectorAll<HTMLElement>('.tool-item[data-tool]').forEach((toolItem) => {
+        const visible = matchesToolFilter(
+          {
+            ...server,
+            toolName: toolItem.dataset.tool!,
+            title: toolItem.querySelector('.tool-title')!.textContent || undefined,
+            description: toolItem.querySelector('.tool-description')!.textContent || undefined,
+            enabled: (toolItem.querySelector('.tool-toggle') as HTMLInputElement).checked,
+          },
+          filter,
+        );
+        toolItem.style.display = visible ? '' : 'none';
+        totalTools++;
+        if (visible) shownServerTools++;
+      });
+      shownTools += shownServerTools;
+
+      // Resources are not filtered, so they are only shown without a filter
+      serverSection.querySelectorAll<HTMLElement>('.resources-header, .resource-item').forEach((element) => {
+        element.style.display = filtering ? 'none' : '';
+      });
+      serverSection.style.display =
+        !filtering || shownServerTools > 0 || matchesServerFilter(server, filter) ? '' : 'none';
+
+      // Expand servers with matching tools
+      if (filtering && shownServerTools > 0) {
+        serverSection.querySelector('.tools-list')!.classList.remove('collapsed');
+        (serverSection.querySelector('.server-header i') as HTMLElement).style.transform = '';
+      }
+    });
+
+    popupContent.querySelector('#mcp-tools-filter-count')!.textContent = filtering
+      ? `${shownTools} of ${totalTools} tools`
+      : `${totalTools} tools`;
+  }
+
+  /**
+   * Appends the resources and resource templates of a server to its section
+   * @param serverSection The server section element
+   * @param serverName The name of the server
+   */
+  async function appendResources(serverSection: Element, serverName: string): Promise<void> {
+    const resources = await MCPClient.getServerResources(serverName);
+    const resourceTemplates = await MCPClient.getServerResourceTemplates(serverName);
+    if (resources.length === 0 && resourceTemplates.length === 0) {
+      return;
+    }
+
+    const toolsList = serverSection.querySelector('.tools-list') as HTMLElement;
+    const resourcesHeader = document.createElement('h5');
+    resourcesHeader.className = 'resources-header';
+    resourcesHeader.textContent = 'Resources';
+    toolsList.appendChild(resourcesHeader);
+
+    for (const resource of resources) {
+      const resourceItem = document.createElement('div');
+      resourceItem.className = 'tool-item resource-item';
+      resourceItem.innerHTML = `
+        <div class="tool-header">
+          <span class="tool-name"><i class="fa-solid fa-file-lines"></i> <span class="resource-name"></span></span>
+          <label class="checkbox_label">
+            <input type="checkbox" class="resource-pin" ${isResourcePinned(serverName, resource.uri) ? 'checked' : ''} />
+            <span>Pin to chat</span>
+          </label>
+        </div>
+        <div class="tool-description"></div>
+      `;
+      // Names and descriptions come from the server, so they are set as text
+      resourceItem.querySelector('.resource-name')!.textContent = resource.name;
+      resourceItem.querySelector('.tool-description')!.textContent = resource.description || resource.uri;
+
+      const pinToggle = resourceItem.querySelector('.resource-pin') as HTMLInputElement;
+      pinToggle.addEventListener('change', async () => {
+        try {
+          if (pinToggle.checked) {
+            pinResource({ server: serverName, uri: resource.uri, name: resource.name });
+          } else {
+            unpinResource(serverName, resource.uri);
+          }
+        } catch (error) {
+          pinToggle.checked = !pinToggle.checked;
+          await st_echo('error', (error as Error).message);
+        }
+      });
+
+      toolsList.appendChild(resourceItem);
+    }
+
+    for (const template of resourceTemplates) {
+      const templateItem = document.createElement('div');
+      templateItem.className = 'tool-item resource-item';
+      templateItem.innerHTML = `
+        <div class="tool-header">
+          <span class="tool-name"><i class="fa-solid fa-file-code"></i> <span class="resource-name"></span></span>
+          <button class="menu_button pin-resource-template"><i class="fa-solid fa-thumbtack"></i> Pin</button>
+        </div>
+        <div class="tool-description"></div>
+      `;
+      templateItem.querySelector('.resource-name')!.textContent = template.name;
+      templateItem.querySelector('.tool-description')!.textContent = template.description || template.uriTemplate;
+
+      templateItem.querySelector('.pin-resource-template')!.addEventListener('click', async () => {
+        const uri = await globalContext.Popup.show.input(
+          'Pin resource',
+          // The popup shows HTML, so the template name from the server is left out
+          'Fill in the URI template',
+          template.uriTemplate,
+        );
+        if (!uri) return;
+
+        try {
+          pinResource({ server: serverName, uri, name: template.name });
+          await st_echo('success', `Pinned "${uri}" to the current chat`);
+        } catch (error) {
+          await st_echo('error', (error as Error).message);
+        }
+      });
+
+      toolsList.appendChild(templateItem);
+    }
+  }
+
+  /**
+   * Opens the tool scope editor for the current chat, character or group
+   */
+  async function openScopeEditor(): Promise<void> {
+    const content = await globalContext.renderExtensionTemplateAsync(`third-party/${extensionName}`, 'templates/scope');
+    const tempDiv = document.createElement('div');
+    tempDiv.innerHTML = content;
+    const scopeContent = tempDiv.firstElementChild as HTMLElement;
+
+    const targetSelect = scopeContent.querySelector('#mcp-scope-target') as HTMLSelectElement;
+    const enabledToggle = scopeContent.querySelector('#mcp-scope-enabled') as HTMLInputElement;
+    const serversList = scopeContent.querySelector('#mcp-scope-servers') as HTMLElement;
+
+    for (const option of Array.from(targetSelect.options)) {
+      option.disabled = !isScopeTargetAvailable(option.value as ScopeTarget);
+    }
+    const firstAvailable = Array.from(targetSelect.options).find((option) => !option.disabled);
+    if (!firstAvailable) {
+      await st_echo('warning', 'Open a chat to bind a tool scope.');
+      return;
+    }
+    targetSelect.value = firstAvailable.value;
+
+    const servers = await MCPClient.getServers();
+    const serverTools = new Map<string, McpTool[]>();
+    for (const server of servers) {
+      serverTools.set(server.name, (await MCPClient.getServerTools(server.name)) || []);
+    }
+
+    const renderScope = () => {
+      const scope = getScope(targetSelect.value as ScopeTarget);
+      enabledToggle.checked = !!scope;
+      serversList.innerHTML = '';
+
+      for (const [serverName, tools] of serverTools) {
+        const serverItem = document.createElement('div');
+        serverItem.className = 'scope-server';
+        serverItem.innerHTML = `
+          <label class="checkbox_label">
+            <input type="checkbox" class="scope-server-toggle" ${!scope || scope.servers.includes(serverName) ? 'checked' : ''} />
+            <span></span>
+          </label>
+          <div class="scope-tools"></div>
+        `;
+        (serverItem.querySelector('.scope-server-toggle') as HTMLInputElement).dataset.server = serverName;
+        serverItem.querySelector('.checkbox_label span')!.textContent = serverName;
+
+        const toolsContainer = serverItem.querySelector('.scope-tools') as HTMLElement;
+        for (const tool of tools) {
+          const allowedTools = scope?.tools[serverName];
+          const toolLabel = document.createElement('label');
+          toolLabel.className = 'checkbox_label';
+          toolLabel.innerHTML = `
+            <input type="checkbox" class="scope-tool-toggle" ${!allowedTools || allowedTools.includes(tool.name) ? 'checked' : ''} />
+            <span></span>
+          `;
+          toolLabel.querySelector('span')!.textContent = tool.name;
+          const toolToggle = toolLabel.querySelector('input') as HTMLInputElement;
+          toolToggle.dataset.server = serverName;
+          toolToggle.dataset.tool = tool.name;
+          toolsContainer.appendChild(toolLabel);
+        }
+
+        serversList.appendChild(serverItem);
+      }
+
+      serversList.classList.toggle('disabled', !enabledToggle.checked);
+    };
+
+    targetSelect.addEventListener('change', renderScope);
+    enabledToggle.addEventListener('change', () => serversList.classList.toggle('disabled', !enabledToggle.checked));
+    renderScope();
+
+    const result = await globalContext.callGenericPopup($(scopeContent), POPUP_TYPE.CONFIRM, '', {
+      okButton: 'Save',
+      cancelButton: 'Cancel',
+    });
+    if (result !== POPUP_RESULT.AFFIRMATIVE) {
+      return;
+    }
+
+    let scope: ToolScope | undefined;
+    if (enabledToggle.checked) {
+      scope = { servers: [], tools: {} };
+      for (const serverToggle of Array.from(serversList.querySelectorAll<HTMLInputElement>('.scope-server-toggle'))) {
+        if (!serverToggle.checked) continue;
+
+        const serverName = serverToggle.dataset.server!;
+        scope.servers.push(serverName);
+
+        const toolToggles = Array.from(
+          serversList.querySelectorAll<HTMLInputElement>(`.scope-tool-toggle[data-server="${CSS.escape(serverName)}"]`),
+        );
+        if (toolToggles.some((toggle) => !toggle.checked)) {
+          scope.tools[serverName] = toolToggles
+            .filter((toggle) => toggle.checked)
+            .map((toggle) => toggle.dataset.tool!);
+        }
+      }
+    }
+
+    try {
+      setScope(targetSelect.value as ScopeTarget, scope);
+      applyToolScope();
+      await st_echo('success', scope ? 'Tool scope saved' : 'Tool scope removed');
+    } catch (error) {
+      await st_echo('error', (error as Error).message);
+    }
   }
 
   $('#mcp_manage_tools').on('click', async function () {
@@ -290,38 +903,31 @@ async function handleUIChanges(): Promise<void> {
       try {
         // Check if input is JSON
         if (input.trim().startsWith('{')) {
-          const jsonConfig = JSON.parse(input);
-          if (!jsonConfig.mcpServers) {
-            throw new Error('Invalid config: missing mcpServers object');
-          }
-
-          const serverEntry = Object.entries(jsonConfig.mcpServers)[0];
-          if (!serverEntry) {
-            throw new Error('Invalid config: no server configuration found');
+          // A config may contain many servers, they are previewed and imported together
+          const entries = parseServersConfig(JSON.parse(input));
+          const imported = await runImport(entries);
+
+          submitButton.innerHTML = originalText;
+          if (imported) {
+            $('#add-server-form').hide();
+            $('#server-input').val('');
+            addButton.disabled = false;
           }
+          submitButton.disabled = !serverInput.val();
+          await populateToolsList(popupContent);
+          return;
+        }
 
-          serverName = serverEntry[0];
-          const serverConfig = serverEntry[1] as {
-            command: string;
-            args: string[];
-            env: Record<string, string>;
-            type?: string;
-          };
-          config = { type: 'stdio' as any, ...serverConfig };
-        } else {
-          // Assume it's an command
-          const parts = input.trim().split(' ');
-
-          // Get the last part of the package name for server name
-          const packageName = parts[parts.length - 1];
-          serverName = packageName.split('/').pop()!;
-          config = {
-            command: parts[0],
-            args: parts.slice(1),
-            env: {},
-            type: 'stdio',
-          };
+        // Assume it's a command line, the user confirms the parsed configuration
+        const suggestion = parseQuickAdd(input);
+        const confirmed = await openServerEditor(suggestion.name, suggestion.config, { isNew: true });
+        if (!confirmed) {
+          submitButton.innerHTML = originalText;
+          submitButton.disabled = !serverInput.val();
+          return;
         }
+        serverName = confirmed.name;
+        config = confirmed.config;
 
         await MCPClient.addServer(serverName, config);
         console.log(`Server "${serverName}" added successfully`);
@@ -415,6 +1021,42 @@ async function handleUIChanges(): Promise<void> {
       }
     });
 
+    // Add call history panel handlers
+    const historyPanel = popupContent.querySelector('#call-history-panel') as HTMLElement;
+    popupContent.querySelector('#toggle-call-history')?.addEventListener('click', async () => {
+      const isVisible = $(historyPanel).is(':visible');
+      $(historyPanel).toggle(!isVisible);
+      if (!isVisible) {
+        await renderCallHistory(historyPanel);
+      }
+    });
+    historyPanel
+      .querySelector('#call-history-search')
+      ?.addEventListener('input', () => renderCallHistory(historyPanel));
+    historyPanel
+      .querySelector('#call-history-server')
+      ?.addEventListener('change', () => renderCallHistory(historyPanel));
+    historyPanel
+      .querySelector('#call-history-status')
+      ?.addEventListener('change', () => renderCallHistory(historyPanel));
+    historyPanel.querySelector('#clear-call-history')?.addEventListener('click', async () => {
+      const confirm = await globalContext.Popup.show.confirm('Are you sure you want to clear the tool call history?');
+      if (confirm) {
+        await clearCallHistory();
+        await renderCallHistory(historyPanel);
+      }
+    });
+
+    // Add tool scope button handler
+    popupContent.querySelector('#open-tool-scope')?.addEventListener('click', async () => {
+      await openScopeEditor();
+    });
+
+    // Add export button handler
+    popupContent.querySelector('#export-servers')?.addEventListener('click', async () => {
+      await openExportPopup();
+    });
+
     // Add settings button handler
     popupContent.querySelector('#open-server-settings')?.addEventListener('click', async (e) => {
       const button = e.currentTarget as HTMLButtonElement;
@@ -445,6 +1087,45 @@ async function handleUIChanges(): Promise<void> {
       }, 1500);
     });
 
+    // Add tool filter handlers
+    popupContent.querySelector('#mcp-tools-search')?.addEventListener('input', () => applyToolFilter(popupContent));
+    popupContent.querySelector('#mcp-tools-status')?.addEventListener('change', () => applyToolFilter(popupContent));
+    for (const [selector, enabled] of [
+      ['#enable-filtered-tools', true],
+      ['#disable-filtered-tools', false],
+    ] as const) {
+      popupContent.querySelector(selector)?.addEventListener('click', async () => {
+        // Group the shown tools by server, so each server is updated once
+        const shownTools = new Map<string, string[]>();
+        popupContent.querySelectorAll<HTMLElement>('.tool-item[data-tool]').forEach((toolItem) => {
+          if (toolItem.style.display === 'none') return;
+          const serverName = toolItem.dataset.server!;
+          shownTools.set(serverName, [...(shownTools.get(serverName) ?? []), toolItem.dataset.tool!]);
+        });
+
+        const toolCount = Array.from(shownTools.values()).reduce((count, toolNames) => count + toolNames.length, 0);
+        if (toolCount === 0) {
+          await st_echo('info', 'No tools match the filter');
+          return;
+        }
+        const confirm = await globalContext.Popup.show.confirm(
+          `${enabled ? 'Enable' : 'Disable'} ${toolCount === 1 ? 'the tool' : `all ${toolCount} tools`} shown?`,
+          `Servers affected: ${Array.from(shownTools.keys()).join(', ')}`,
+        );
+        if (!confirm) return;
+
+        for (const [serverName, toolNames] of shownTools) {
+          try {
+            await setToolsEnabled(popupContent, serverName, toolNames, enabled);
+          } catch (error) {
+            console.error('Error updating tool states:', error);
+            await st_echo('error', `Failed to ${enabled ? 'enable' : 'disable'} the tools of "${serverName}"`);
+          }
+        }
+        applyToolFilter(popupContent);
+      });
+    }
+
     // Add toggle handler for tools after content is populated
     popupContent.addEventListener('change', async (e) => {
       const target = e.target as HTMLInputElement;
@@ -467,13 +1148,14 @@ async function handleUIChanges(): Promise<void> {
         const disabledTools = tools
           .filter((tool) => {
             const checkbox = popupContent.querySelector(
-              `input.tool-toggle[data-server="${serverName}"][data-tool="${tool.name}"]`,
+              `input.tool-toggle[data-server="${CSS.escape(serverName)}"][data-tool="${CSS.escape(tool.name)}"]`,
             ) as HTMLInputElement;
             return !checkbox.checked;
           })
           .map((tool) => tool.name);
 
         await MCPClient.updateDisabledTools(serverName, disabledTools);
+        renderToolCount(target.closest('.server-tools-section') as HTMLElement, tools);
 
         // Show success state briefly
         labelSpan.innerHTML = '<i class="fa-solid fa-check"></i> Updated';
@@ -493,91 +1175,159 @@ async function handleUIChanges(): Promise<void> {
     });
   });
 
+  // Keep the status badges of an open tools popup up to date
+  MCPClient.addServerStatusListener((serverName, status) => {
+    document.querySelectorAll<HTMLElement>('.mcp-tools-content .server-status').forEach((badge) => {
+      if (badge.dataset.server === serverName) {
+        renderServerStatus(badge, status);
+      }
+    });
+  });
+
   // Initial tool registration if enabled
   try {
+    MCPClient.setSafeMode(settings.safeMode);
     await MCPClient.handleTools(settings.enabled);
   } catch (error) {
     await st_echo('error', `Error handling tools: ${(error as Error).message}`);
   }
+  MCPClient.startHealthChecks(settings.healthCheckInterval * 1000);
 }
 
-function initializeEvents() {
-  globalContext.eventSource.on(
-    EventNames.CHAT_COMPLETION_SETTINGS_READY,
-    async (payload: { tools?: any[]; chat_completion_source: string }) => {
-      if (!payload.tools) {
-        return;
-      }
+/**
+ * Reads a timeout or limit input. Empty inputs fall back to the next level.
+ * @param value The input value
+ */
+function parseNumberInput(value: string): number | undefined {
+  if (value.trim() === '') return undefined;
+  return Math.max(0, Number(value) || 0);
+}
 
-      const removeTitle = (obj: any) => {
-        if (typeof obj !== 'object' || obj === null) return;
-        if (obj.title) {
-          delete obj.title;
-        }
+/**
+ * Shows the connection status of a server in its badge.
+ * @param badge The status badge element
+ * @param status The server status, undefined if the server is not connected
+ */
+function renderServerStatus(badge: HTMLElement, status: ServerStatus | undefined): void {
+  badge.className = `server-status status-${status?.state ?? 'disconnected'}`;
+  switch (status?.state) {
+    case 'connected':
+      badge.innerHTML = '<i class="fa-solid fa-circle"></i> Connected';
+      badge.title = 'The server responds';
+      break;
+    case 'reconnecting': {
+      badge.innerHTML = `<i class="fa-solid fa-rotate fa-spin"></i> Reconnecting (attempt ${status.attempts + 1})`;
+      const retryIn = status.nextAttemptAt ? Math.max(0, Math.round((status.nextAttemptAt - Date.now()) / 1000)) : 0;
+      badge.title = `Connection lost: ${status.lastError}\nNext attempt in ${retryIn}s`;
+      break;
+    }
+    case 'failed':
+      badge.innerHTML = '<i class="fa-solid fa-triangle-exclamation"></i> Failed';
+      badge.title = status.lastError ?? 'The server could not be connected';
+      break;
+    default:
+      badge.innerHTML = '';
+      badge.title = '';
+  }
+}
 
-        // Process properties if they exist
-        if (obj.properties) {
-          Object.values(obj.properties).forEach((prop) => removeTitle(prop));
-        }
+/**
+ * Tells the user which features servers run by the plugin lack, so they don't just silently not work.
+ * @param serverNames The names of all servers.
+ */
+function renderPluginNotice(popupContent: HTMLElement, serverNames: string[]): void {
+  const notice = popupContent.querySelector('#mcp-plugin-notice') as HTMLElement;
+  notice.style.display = serverNames.some((name) => !isDirectServer(name)) ? '' : 'none';
+  notice.querySelector('span')!.textContent =
+    'Servers run by the MCP Server plugin only offer tools. Resources, prompts, progress, cancellation, ' +
+    'tool list changes, elicitation and sampling need remote servers added with "mode": "direct".';
+}
 
-        // Process items for arrays
-        if (obj.items) {
-          removeTitle(obj.items);
-        }
+/**
+ * Shows how many tools of a server are enabled and about how many prompt tokens their definitions take.
+ */
+function renderToolCount(serverSection: HTMLElement, tools: McpTool[] | undefined): void {
+  const count = serverSection.querySelector('.server-tool-count') as HTMLElement;
+  if (!tools || tools.length === 0) {
+    count.textContent = '';
+    return;
+  }
+  const enabledTools = tools.filter((tool) => tool._enabled);
+  const tokens = enabledTools.reduce((sum, tool) => sum + estimateSchemaTokens(tool), 0);
+  count.textContent = `${enabledTools.length}/${tools.length} tools · ~${formatTokenCount(tokens)} tokens`;
+  count.title = 'Enabled tools, and the estimated prompt tokens of their definitions';
+}
 
-        // Process allOf, anyOf, oneOf if they exist
-        ['allOf', 'anyOf', 'oneOf'].forEach((key) => {
-          if (Array.isArray(obj[key])) {
-            obj[key].forEach((item) => removeTitle(item));
-          }
-        });
-      };
+function initializeEvents() {
+  globalContext.eventSource.on(EventNames.TOOL_CALLS_PERFORMED, async () => {
+    const images = MCPClient.takePendingImages();
+    if (images.length === 0) {
+      return;
+    }
 
-      payload.tools.forEach((tool) => {
-        removeTitle(tool.function.parameters);
-      });
+    // Attach the image to the tool invocation message so vision capable backends receive it
+    let messageId = globalContext.chat.length - 1;
+    while (messageId >= 0 && !globalContext.chat[messageId].extra?.tool_invocations) {
+      messageId--;
+    }
+    if (messageId === -1) {
+      return;
+    }
+    // A message holds one image, so the others are mentioned in its text
+    const [image, ...droppedImages] = images;
+    const message = globalContext.chat[messageId];
+    message.extra = {
+      ...message.extra,
+      image: `data:${image.mimeType};base64,${image.data}`,
+      inline_image: true,
+    };
+    if (droppedImages.length > 0) {
+      message.mes = [message.mes, describeDroppedImages(droppedImages)].filter(Boolean).join('\n\n');
+    }
+    st_updateMessageBlock(messageId, message);
+    await globalContext.saveChat();
+  });
 
-      const removeProps = (obj: any) => {
-        if (typeof obj !== 'object' || obj === null) return;
-        delete obj.additionalProperties;
-        delete obj.default;
-
-        // Process properties if they exist
-        if (obj.properties) {
-          if (obj.type === 'object' && Object.keys(obj.properties).length === 0) {
-            obj.properties = {
-              _dummy: {
-                type: 'string',
-                description: 'This is a placeholder property to satisfy MakerSuite requirements.',
-              },
-            };
-          }
-          Object.values(obj.properties).forEach((prop) => removeProps(prop));
-        }
+  globalContext.eventSource.on(EventNames.CHAT_CHANGED, () => {
+    applyToolScope();
+  });
 
-        // Process items for arrays
-        if (obj.items) {
-          removeProps(obj.items);
-        }
+  globalContext.eventSource.on(EventNames.GROUP_MEMBER_DRAFTED, (characterId: number) => {
+    applyToolScope(characterId);
+  });
 
-        // Process allOf, anyOf, oneOf if they exist
-        ['allOf', 'anyOf', 'oneOf'].forEach((key) => {
-          if (Array.isArray(obj[key])) {
-            obj[key].forEach((item) => removeProps(item));
-          }
-        });
-      };
+  globalContext.eventSource.on(
+    EventNames.GENERATION_AFTER_COMMANDS,
+    async (_type: string, _options: object, dryRun: boolean) => {
+      if (dryRun) {
+        return;
+      }
 
-      // makersuite is a special kid, we need to remove "additionalProperties" and "default" from all levels. Also doesn't accept empty params
-      if (payload.chat_completion_source === 'makersuite') {
-        payload.tools.forEach((tool) => {
-          removeProps(tool.function.parameters);
-        });
+      await injectPinnedResources();
+    },
+  );
+
+  globalContext.eventSource.on(
+    EventNames.CHAT_COMPLETION_SETTINGS_READY,
+    async (payload: { tools?: any[]; chat_completion_source: string }) => {
+      if (!payload.tools) {
+        return;
       }
+
+      const profile = getSchemaProfile(payload.chat_completion_source, getExtensionSettings().schemaProfile);
+      sanitizeToolDefinitions(payload.tools, profile, (name) => MCPClient.resolveToolId(name) !== undefined);
     },
   );
 }
 
 initializeDefaultSettings();
+MCPClient.setToolCallApprover(approveToolCall);
+MCPClient.setToolResultLimiter(limitToolCallResult);
+MCPClient.setServerRequestHandler(handleServerRequest);
+initializeCallHistory();
+initializeToolProgress();
 handleUIChanges();
 initializeEvents();
+registerPromptCommand();
+registerProfileCommand();
+registerManagementCommands();
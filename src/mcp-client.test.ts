@@ -0,0 +1,1000 @@
+import { jest } from '@jest/globals';
+import { FakeTransport } from './test-utils/fake-transport.js';
+
+type MCPClientClass = typeof import('./mcp-client.js').MCPClient;
+
+const searchTool = { name: 'search', description: 'Search the web', inputSchema: { type: 'object', properties: {} } };
+const fetchTool = { name: 'fetch', description: 'Fetch a page' };
+
+let MCPClient: MCPClientClass;
+let transport: FakeTransport;
+let context: {
+  extensionSettings: Record<string, any>;
+  registerFunctionTool: jest.Mock<(tool: any) => void>;
+  unregisterFunctionTool: jest.Mock<(name: string) => void>;
+  saveSettingsDebounced: jest.Mock<() => void>;
+};
+
+let registered: Set<string>;
+
+/**
+ * Names of the function tools currently registered with the fake context.
+ */
+function registeredTools(): string[] {
+  return Array.from(registered).sort();
+}
+
+beforeEach(async () => {
+  jest.resetModules();
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+
+  registered = new Set();
+  context = {
+    extensionSettings: { mcp: { enabled: true, directServers: {} } },
+    registerFunctionTool: jest.fn((tool: any) => {
+      registered.add(tool.name);
+    }),
+    unregisterFunctionTool: jest.fn((name: string) => {
+      registered.delete(name);
+    }),
+    saveSettingsDebounced: jest.fn(),
+  };
+  (globalThis as any).SillyTavern = { getContext: () => context };
+
+  // Fresh module so the static state of MCPClient does not leak between tests
+  MCPClient = (await import('./mcp-client.js')).MCPClient;
+  transport = new FakeTransport();
+  MCPClient.setTransport(transport);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('connect and disconnect', () => {
+  it('connects enabled servers and registers their tools', async () => {
+    transport.addFakeServer('web', [searchTool, fetchTool]);
+    transport.addFakeServer('off', [searchTool], { enabled: false });
+
+    await MCPClient.handleTools(true);
+
+    expect(MCPClient.getConnectedServers()).toEqual(['web']);
+    expect(transport.servers.get('web')!.running).toBe(true);
+    expect(transport.servers.get('off')!.running).toBe(false);
+    expect(registeredTools()).toEqual(['mcp_web_fetch', 'mcp_web_search']);
+  });
+
+  it('unregisters all tools of a server when it disconnects', async () => {
+    transport.addFakeServer('web', [searchTool, fetchTool]);
+    await MCPClient.handleTools(true);
+
+    await MCPClient.disconnect('web');
+
+    expect(MCPClient.isConnected('web')).toBe(false);
+    expect(transport.servers.get('web')!.running).toBe(false);
+    expect(registeredTools()).toEqual([]);
+  });
+
+  it('disconnects every server when MCP is disabled', async () => {
+    transport.addFakeServer('web', [searchTool]);
+    transport.addFakeServer('files', [fetchTool]);
+    await MCPClient.handleTools(true);
+
+    context.extensionSettings.mcp.enabled = false;
+    await MCPClient.handleTools(false);
+
+    expect(MCPClient.getConnectedServers()).toEqual([]);
+    expect(registeredTools()).toEqual([]);
+  });
+
+  it('keeps the server disconnected if it fails to start', async () => {
+    transport.addFakeServer('web', [searchTool]);
+    transport.failOn('startServer', 'web', new Error('spawn failed'));
+
+    await expect(MCPClient.handleTools(true)).rejects.toThrow('spawn failed');
+
+    expect(MCPClient.isConnected('web')).toBe(false);
+    expect(registeredTools()).toEqual([]);
+  });
+
+  it('restarts a server and registers its tools again', async () => {
+    transport.addFakeServer('web', [searchTool]);
+    transport.failOn('startServer', 'web', new Error('login required'));
+    await expect(MCPClient.handleTools(true)).rejects.toThrow('login required');
+    transport.failures.clear();
+
+    await MCPClient.restartServer('web');
+
+    expect(MCPClient.isConnected('web')).toBe(true);
+    expect(registeredTools()).toEqual(['mcp_web_search']);
+  });
+});
+
+describe('tool registration', () => {
+  it('registers tools with their schema and a default description', async () => {
+    transport.addFakeServer('web', [searchTool, fetchTool]);
+    await MCPClient.handleTools(true);
+
+    const [search] = context.registerFunctionTool.mock.calls.find(([tool]) => tool.name === 'mcp_web_search')!;
+    expect(search.displayName).toBe('web: search');
+    expect(search.description).toBe('Search the web');
+    expect(search.parameters).toEqual(searchTool.inputSchema);
+
+    const [fetch] = context.registerFunctionTool.mock.calls.find(([tool]) => tool.name === 'mcp_web_fetch')!;
+    expect(fetch.parameters).toEqual({ type: 'object', properties: {} });
+  });
+
+  it('does not register tools disabled on the server', async () => {
+    transport.addFakeServer('web', [searchTool, fetchTool], { disabledTools: ['fetch'] });
+    await MCPClient.handleTools(true);
+
+    expect(registeredTools()).toEqual(['mcp_web_search']);
+  });
+
+  it('calls the tool through the transport when the model uses it', async () => {
+    transport.addFakeServer('web', [searchTool], {
+      handleToolCall: (toolName, args) => ({ content: [{ type: 'text', text: `found ${args.query}` }] }),
+    });
+    await MCPClient.handleTools(true);
+
+    const [search] = context.registerFunctionTool.mock.calls[0];
+    await expect(search.action({ query: 'cats' })).resolves.toBe('found cats');
+  });
+
+  it('keeps result images for the next message and sends their text to the model', async () => {
+    transport.addFakeServer('web', [searchTool], {
+      handleToolCall: () => ({
+        content: [
+          { type: 'text', text: 'A cat' },
+          { type: 'image', data: 'iVBOR', mimeType: 'image/png' },
+        ],
+      }),
+    });
+    await MCPClient.handleTools(true);
+
+    const [search] = context.registerFunctionTool.mock.calls[0];
+    await expect(search.action({ query: 'cats' })).resolves.toBe('A cat\n[Image: image/png]');
+    expect(MCPClient.takePendingImages()).toEqual([{ data: 'iVBOR', mimeType: 'image/png' }]);
+    expect(MCPClient.takePendingImages()).toEqual([]);
+  });
+
+  it('fails the call the model made if the result is an error', async () => {
+    transport.addFakeServer('web', [searchTool], {
+      handleToolCall: () => ({ content: [{ type: 'text', text: 'Rate limited' }], isError: true }),
+    });
+    await MCPClient.handleTools(true);
+
+    const [search] = context.registerFunctionTool.mock.calls[0];
+    await expect(search.action({ query: 'cats' })).rejects.toThrow('Rate limited');
+    expect(MCPClient.takePendingImages()).toEqual([]);
+  });
+
+  it('only registers tools in the active tool scope', async () => {
+    transport.addFakeServer('web', [searchTool, fetchTool]);
+    transport.addFakeServer('files', [searchTool]);
+    await MCPClient.handleTools(true);
+
+    MCPClient.setToolScope({ servers: ['web'], tools: { web: ['fetch'] } });
+    expect(registeredTools()).toEqual(['mcp_web_fetch']);
+
+    MCPClient.setToolScope(null);
+    expect(registeredTools()).toEqual(['mcp_files_search', 'mcp_web_fetch', 'mcp_web_search']);
+  });
+});
+
+describe('tool annotations', () => {
+  const readTool = { name: 'read', title: 'Read file', annotations: { readOnlyHint: true } };
+  const deleteTool = { name: 'delete', annotations: { destructiveHint: true } };
+  const writeTool = { name: 'write' };
+
+  it('registers tools with their title', async () => {
+    transport.addFakeServer('files', [readTool]);
+    await MCPClient.handleTools(true);
+
+    expect(context.registerFunctionTool.mock.calls[0][0].displayName).toBe('files: Read file');
+  });
+
+  it('only registers read-only tools in safe mode', async () => {
+    transport.addFakeServer('files', [readTool, deleteTool, writeTool]);
+    await MCPClient.handleTools(true);
+
+    MCPClient.setSafeMode(true);
+    expect(registeredTools()).toEqual(['mcp_files_read']);
+
+    MCPClient.setSafeMode(false);
+    expect(registeredTools()).toEqual(['mcp_files_delete', 'mcp_files_read', 'mcp_files_write']);
+  });
+
+  it('disables destructive tools of new servers', async () => {
+    context.extensionSettings.mcp.disableDestructiveTools = true;
+    transport.newServerTools.set('files', [readTool, deleteTool, writeTool]);
+
+    await MCPClient.addServer('files', { type: 'stdio', command: 'files' });
+
+    expect(transport.servers.get('files')!.disabledTools).toEqual(['delete']);
+    expect(registeredTools()).toEqual(['mcp_files_read', 'mcp_files_write']);
+  });
+
+  it('keeps destructive tools of new servers enabled if the user wants that', async () => {
+    context.extensionSettings.mcp.disableDestructiveTools = false;
+    transport.newServerTools.set('files', [readTool, deleteTool]);
+
+    await MCPClient.addServer('files', { type: 'stdio', command: 'files' });
+
+    expect(registeredTools()).toEqual(['mcp_files_delete', 'mcp_files_read']);
+  });
+});
+
+describe('server requests', () => {
+  it('passes requests of servers to the handler', async () => {
+    const handler = jest.fn(async (serverName: string, method: string, params: any) => ({ action: 'decline' }));
+    MCPClient.setServerRequestHandler(handler);
+
+    await expect(transport.sendServerRequest('wizard', 'elicitation/create', { message: 'Name?' })).resolves.toEqual({
+      action: 'decline',
+    });
+    expect(handler).toHaveBeenCalledWith('wizard', 'elicitation/create', { message: 'Name?' });
+  });
+
+  it('refuses requests without a handler', async () => {
+    await expect(transport.sendServerRequest('wizard', 'sampling/createMessage', {})).rejects.toMatchObject({
+      data: { code: -32601 },
+    });
+  });
+});
+
+describe('tool list changes', () => {
+  const readTool = { name: 'read', description: 'Read a file' };
+
+  /**
+   * Lets the sync started by a notification finish.
+   */
+  async function settle(): Promise<void> {
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+
+  it('re-syncs only the server that changed', async () => {
+    transport.addFakeServer('web', [searchTool, fetchTool]);
+    transport.addFakeServer('files', [readTool]);
+    await MCPClient.handleTools(true);
+    transport.calls = [];
+
+    transport.changeTools('web', [searchTool, { name: 'crawl', description: 'Crawl a site' }]);
+    await settle();
+
+    expect(registeredTools()).toEqual(['mcp_files_read', 'mcp_web_crawl', 'mcp_web_search']);
+    expect(transport.calls).toEqual(['reloadTools:web', 'listTools:web']);
+    expect((await MCPClient.getServerTools('web'))!.map((tool) => tool.name)).toEqual(['search', 'crawl']);
+  });
+
+  it('runs one more sync for notifications that arrive during a sync', async () => {
+    transport.addFakeServer('web', [searchTool]);
+    await MCPClient.handleTools(true);
+    transport.calls = [];
+
+    transport.changeTools('web', [fetchTool]);
+    transport.changeTools('web', [readTool]);
+    transport.changeTools('web', [searchTool, readTool]);
+    await settle();
+
+    expect(transport.calls.filter((call) => call === 'listTools:web')).toHaveLength(2);
+    expect(registeredTools()).toEqual(['mcp_web_read', 'mcp_web_search']);
+  });
+
+  it('ignores notifications of disconnected servers', async () => {
+    transport.addFakeServer('web', [searchTool]);
+    await MCPClient.handleTools(true);
+    await MCPClient.disconnect('web');
+    transport.calls = [];
+
+    transport.changeTools('web', [fetchTool]);
+    await settle();
+
+    expect(transport.calls).toEqual([]);
+    expect(registeredTools()).toEqual([]);
+  });
+
+  it('keeps the old tools if the server can not be listed', async () => {
+    transport.addFakeServer('web', [searchTool]);
+    await MCPClient.handleTools(true);
+    transport.failOn('listTools', 'web');
+
+    transport.changeTools('web', [fetchTool]);
+    await settle();
+
+    expect(registeredTools()).toEqual(['mcp_web_search']);
+    expect(console.error).toHaveBeenCalled();
+  });
+});
+
+describe('tool IDs', () => {
+  it('registers tools of servers with unsafe names under provider-safe names', async () => {
+    transport.addFakeServer('@scope/tools.v2', [{ name: 'read.file', description: 'Read' }]);
+    await MCPClient.handleTools(true);
+
+    expect(registeredTools()).toEqual(['mcp__scope_tools_v2_read_file']);
+    expect(MCPClient.resolveToolId('mcp__scope_tools_v2_read_file')).toEqual({
+      serverName: '@scope/tools.v2',
+      toolName: 'read.file',
+    });
+  });
+
+  it('gives colliding tools of different servers their own names', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    transport.addFakeServer('a.b', [searchTool]);
+    transport.addFakeServer('a_b', [searchTool], {
+      handleToolCall: () => ({ content: [{ type: 'text', text: 'from a_b' }] }),
+    });
+    await MCPClient.handleTools(true);
+
+    const id = MCPClient.getToolId('a_b', 'search')!;
+    const otherId = MCPClient.getToolId('a.b', 'search')!;
+    expect(id).toMatch(/^mcp_a_b_search_[0-9a-z]{8}$/);
+    expect(otherId).toMatch(/^mcp_a_b_search_[0-9a-z]{8}$/);
+    expect(otherId).not.toBe(id);
+    expect(registeredTools()).toEqual([id, otherId].sort());
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('is shared by "a.b: search" and "a_b: search"'));
+
+    const [tool] = context.registerFunctionTool.mock.calls.find(([item]) => item.name === id)!;
+    await expect(tool.action({})).resolves.toBe('from a_b');
+  });
+
+  it('gives colliding tools the same names whichever server connects first', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    transport.addFakeServer('a.b', [searchTool]);
+    transport.addFakeServer('a_b', [searchTool]);
+    await MCPClient.handleTools(true);
+    const ids = [MCPClient.getToolId('a.b', 'search'), MCPClient.getToolId('a_b', 'search')];
+
+    await MCPClient.disconnect('a.b');
+    await MCPClient.disconnect('a_b');
+    await MCPClient.restartServer('a_b');
+    expect(MCPClient.getToolId('a_b', 'search')).toBe('mcp_a_b_search');
+    await MCPClient.restartServer('a.b');
+
+    expect([MCPClient.getToolId('a.b', 'search'), MCPClient.getToolId('a_b', 'search')]).toEqual(ids);
+    expect(registeredTools()).toEqual([...ids].sort());
+  });
+
+  it('keeps the alias when a generated name collides with it', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    context.extensionSettings.mcp.toolAliases = { files: { find: 'mcp_web_search' } };
+    transport.addFakeServer('web', [searchTool]);
+    transport.addFakeServer('files', [{ name: 'find' }]);
+    await MCPClient.handleTools(true);
+
+    expect(MCPClient.getToolId('files', 'find')).toBe('mcp_web_search');
+    expect(MCPClient.getToolId('web', 'search')).toMatch(/^mcp_web_search_[0-9a-z]{8}$/);
+  });
+
+  it('registers tools again under their alias', async () => {
+    context.extensionSettings.mcp.toolAliases = {};
+    transport.addFakeServer('web', [searchTool, fetchTool]);
+    await MCPClient.handleTools(true);
+
+    MCPClient.updateToolAlias('web', 'search', 'web_search');
+    expect(registeredTools()).toEqual(['mcp_web_fetch', 'web_search']);
+    expect(MCPClient.resolveToolId('web_search')).toEqual({ serverName: 'web', toolName: 'search' });
+    expect(MCPClient.resolveToolId('mcp_web_search')).toBeUndefined();
+
+    MCPClient.updateToolAlias('web', 'search', undefined);
+    expect(registeredTools()).toEqual(['mcp_web_fetch', 'mcp_web_search']);
+  });
+
+  it('refuses calls through a stale registration', async () => {
+    transport.addFakeServer('web', [searchTool]);
+    await MCPClient.handleTools(true);
+    const [search] = context.registerFunctionTool.mock.calls[0];
+
+    await MCPClient.disconnect('web');
+
+    await expect(search.action({})).rejects.toThrow('Tool "mcp_web_search" is no longer registered.');
+  });
+});
+
+describe('tool overrides', () => {
+  const weatherTool = {
+    name: 'weather',
+    description: 'Weather',
+    inputSchema: {
+      type: 'object',
+      properties: { city: { type: 'string' }, units: { type: 'string' }, verbose: { type: 'boolean' } },
+      required: ['city', 'units'],
+    },
+  };
+
+  function registeredTool(name: string): any {
+    return context.registerFunctionTool.mock.calls.filter(([tool]) => tool.name === name).pop()![0];
+  }
+
+  it('registers tools with the changed name, description and schema', async () => {
+    context.extensionSettings.mcp.toolOverrides = {
+      web: {
+        weather: {
+          displayName: 'Weather',
+          description: 'Current weather of a city',
+          hiddenParameters: ['verbose'],
+          fixedArguments: { units: 'metric' },
+        },
+      },
+    };
+    transport.addFakeServer('web', [weatherTool]);
+    await MCPClient.handleTools(true);
+
+    const tool = registeredTool('mcp_web_weather');
+    expect(tool.displayName).toBe('Weather');
+    expect(tool.description).toBe('Current weather of a city');
+    expect(tool.parameters).toEqual({ type: 'object', properties: { city: { type: 'string' } }, required: ['city'] });
+  });
+
+  it('injects fixed and default arguments into calls', async () => {
+    context.extensionSettings.mcp.toolOverrides = {
+      web: { weather: { fixedArguments: { units: 'metric' }, defaultArguments: { verbose: false } } },
+    };
+    let received: any;
+    transport.addFakeServer('web', [weatherTool], {
+      handleToolCall: (toolName, args) => {
+        received = args;
+        return { content: [] };
+      },
+    });
+    await MCPClient.handleTools(true);
+
+    await registeredTool('mcp_web_weather').action({ city: 'Oslo', units: 'imperial' });
+
+    expect(received).toEqual({ city: 'Oslo', units: 'metric', verbose: false });
+  });
+
+  it('registers the tool again when the override changes', async () => {
+    context.extensionSettings.mcp.toolOverrides = {};
+    transport.addFakeServer('web', [weatherTool]);
+    await MCPClient.handleTools(true);
+
+    MCPClient.updateToolOverride('web', 'weather', { description: 'Better weather' });
+    expect(registeredTool('mcp_web_weather').description).toBe('Better weather');
+
+    MCPClient.updateToolOverride('web', 'weather', undefined);
+    expect(registeredTool('mcp_web_weather').description).toBe('Weather');
+    expect(context.extensionSettings.mcp.toolOverrides.web).toEqual({});
+  });
+});
+
+describe('tool result limiter', () => {
+  it('sends the shortened result to the model and records the full one', async () => {
+    const records: any[] = [];
+    MCPClient.addToolCallListener((record) => records.push(record));
+    MCPClient.setToolResultLimiter(
+      async (serverName, toolName, args, text) => `${toolName}(${args.q}): ${text.length}`,
+    );
+    transport.addFakeServer('web', [searchTool], {
+      handleToolCall: () => ({ content: [{ type: 'text', text: 'x'.repeat(1000) }] }),
+    });
+    await MCPClient.handleTools(true);
+
+    const tool = context.registerFunctionTool.mock.calls[0][0];
+    const result = await tool.action({ q: 'news' });
+
+    expect(result).toBe('search(news): 1000');
+    expect(records[0].result.content[0].text).toHaveLength(1000);
+  });
+});
+
+describe('result cache', () => {
+  const lookupTool = { ...searchTool, name: 'lookup', annotations: { readOnlyHint: true } };
+  const saveTool = { ...searchTool, name: 'save' };
+
+  async function connectCountingServer(): Promise<() => number> {
+    let calls = 0;
+    transport.addFakeServer('web', [lookupTool, saveTool], {
+      handleToolCall: (toolName) => ({ content: [{ type: 'text', text: `${toolName} ${++calls}` }] }),
+    });
+    context.extensionSettings.mcp.cacheTtl = 60;
+    context.extensionSettings.mcp.toolCacheTtls = {};
+    await MCPClient.handleTools(true);
+    return () => calls;
+  }
+
+  it('answers repeated read-only calls from the cache', async () => {
+    const records: any[] = [];
+    MCPClient.addToolCallListener((record) => records.push(record));
+    const calls = await connectCountingServer();
+
+    const first = await MCPClient.callTool('web', 'lookup', { q: 'a' });
+    const second = await MCPClient.callTool('web', 'lookup', { q: 'a' });
+
+    expect(second).toEqual(first);
+    expect(calls()).toBe(1);
+    expect(records.map((record) => !!record.cached)).toEqual([false, true]);
+
+    await MCPClient.callTool('web', 'lookup', { q: 'b' });
+    expect(calls()).toBe(2);
+  });
+
+  it('calls the server again when bypassing the cache', async () => {
+    const calls = await connectCountingServer();
+
+    await MCPClient.callTool('web', 'lookup', {});
+    const fresh = await MCPClient.callTool('web', 'lookup', {}, { bypassCache: true });
+    const cached = await MCPClient.callTool('web', 'lookup', {});
+
+    expect(calls()).toBe(2);
+    expect(cached).toEqual(fresh);
+  });
+
+  it('does not cache tools without annotations and clears the cache when they run', async () => {
+    const calls = await connectCountingServer();
+
+    await MCPClient.callTool('web', 'lookup', {});
+    await MCPClient.callTool('web', 'save', {});
+    await MCPClient.callTool('web', 'save', {});
+    await MCPClient.callTool('web', 'lookup', {});
+
+    expect(calls()).toBe(4);
+  });
+});
+
+describe('updateDisabledTools', () => {
+  beforeEach(async () => {
+    transport.addFakeServer('web', [searchTool, fetchTool], { disabledTools: ['fetch'] });
+    await MCPClient.handleTools(true);
+  });
+
+  it('registers newly enabled and unregisters newly disabled tools', async () => {
+    await MCPClient.updateDisabledTools('web', ['search']);
+
+    expect(transport.servers.get('web')!.disabledTools).toEqual(['search']);
+    expect(registeredTools()).toEqual(['mcp_web_fetch']);
+    const tools = await MCPClient.getServerTools('web');
+    expect(tools!.map((tool) => [tool.name, tool._enabled])).toEqual([
+      ['search', false],
+      ['fetch', true],
+    ]);
+  });
+
+  it('leaves unchanged tools alone', async () => {
+    context.registerFunctionTool.mockClear();
+
+    await MCPClient.updateDisabledTools('web', ['fetch']);
+
+    expect(context.registerFunctionTool).not.toHaveBeenCalled();
+    expect(context.unregisterFunctionTool).not.toHaveBeenCalled();
+  });
+
+  it('only updates the cache while MCP is disabled', async () => {
+    context.extensionSettings.mcp.enabled = false;
+    context.registerFunctionTool.mockClear();
+
+    await MCPClient.updateDisabledTools('web', []);
+
+    expect(context.registerFunctionTool).not.toHaveBeenCalled();
+    const tools = await MCPClient.getServerTools('web');
+    expect(tools!.every((tool) => tool._enabled)).toBe(true);
+  });
+
+  it('does not touch the cache if the transport fails', async () => {
+    transport.failOn('setDisabledTools', 'web');
+
+    await expect(MCPClient.updateDisabledTools('web', [])).rejects.toThrow('setDisabledTools failed for web');
+
+    expect(registeredTools()).toEqual(['mcp_web_search']);
+  });
+});
+
+describe('reloadAllTools', () => {
+  it('picks up tools added on the server', async () => {
+    const server = transport.addFakeServer('web', [searchTool]);
+    await MCPClient.handleTools(true);
+
+    server.tools.push(fetchTool);
+    await MCPClient.reloadAllTools();
+
+    expect(transport.calls).toContain('reloadTools:web');
+    expect(registeredTools()).toEqual(['mcp_web_fetch', 'mcp_web_search']);
+  });
+
+  it('reloads the other servers and reports every failure', async () => {
+    transport.addFakeServer('web', [searchTool]);
+    const files = transport.addFakeServer('files', [searchTool]);
+    transport.addFakeServer('db', [searchTool]);
+    await MCPClient.handleTools(true);
+
+    files.tools.push(fetchTool);
+    transport.failOn('reloadTools', 'web', new Error('web is gone'));
+    transport.failOn('listTools', 'db', new Error('db timed out'));
+
+    await expect(MCPClient.reloadAllTools()).rejects.toThrow(
+      'Failed to reload tools for some servers: web is gone, db timed out',
+    );
+    expect(registeredTools()).toContain('mcp_files_fetch');
+  });
+});
+
+describe('enabling servers and tools one at a time', () => {
+  beforeEach(async () => {
+    transport.addFakeServer('web', [searchTool, fetchTool], { disabledTools: ['fetch'] });
+    transport.addFakeServer('files', [searchTool], { enabled: false });
+    await MCPClient.handleTools(true);
+  });
+
+  it('enables a server and keeps the others', async () => {
+    await MCPClient.setServerEnabled('files', true);
+
+    expect(transport.servers.get('files')!.enabled).toBe(true);
+    expect(transport.servers.get('web')!.enabled).toBe(true);
+    expect(MCPClient.getConnectedServers().sort()).toEqual(['files', 'web']);
+  });
+
+  it('disables a tool and keeps the other tools', async () => {
+    await MCPClient.setToolEnabled('web', 'fetch', true);
+    await MCPClient.setToolEnabled('web', 'search', false);
+
+    expect(transport.servers.get('web')!.disabledTools).toEqual(['search']);
+    expect(registeredTools()).toEqual(['mcp_web_fetch']);
+  });
+
+  it('rejects unknown servers and tools', async () => {
+    await expect(MCPClient.setServerEnabled('missing', true)).rejects.toThrow('Server "missing" not found.');
+    await expect(MCPClient.setToolEnabled('web', 'missing', true)).rejects.toThrow(
+      'Tool "missing" not found on MCP server "web".',
+    );
+  });
+});
+
+describe('reloadServerTools', () => {
+  it('reloads only the given server', async () => {
+    const web = transport.addFakeServer('web', [searchTool]);
+    transport.addFakeServer('files', [searchTool]);
+    await MCPClient.handleTools(true);
+    transport.calls = [];
+
+    web.tools.push(fetchTool);
+    await MCPClient.reloadServerTools('web');
+
+    expect(transport.calls.every((call) => call.endsWith(':web'))).toBe(true);
+    expect(MCPClient.getCachedTools('web').map((tool) => tool.name)).toEqual(['search', 'fetch']);
+    expect(registeredTools()).toContain('mcp_web_fetch');
+  });
+
+  it('unregisters tools the server removed or disabled', async () => {
+    const web = transport.addFakeServer('web', [searchTool, fetchTool, { name: 'crawl' }]);
+    await MCPClient.handleTools(true);
+
+    web.tools = [searchTool, fetchTool];
+    web.disabledTools = ['fetch'];
+    await MCPClient.reloadServerTools('web');
+
+    expect(registeredTools()).toEqual(['mcp_web_search']);
+    expect(MCPClient.getToolId('web', 'crawl')).toBeUndefined();
+    expect(MCPClient.getToolId('web', 'fetch')).toBeUndefined();
+  });
+});
+
+describe('resources', () => {
+  const readme = { uri: 'file:///readme.md', name: 'readme.md', mimeType: 'text/markdown' };
+  const logs = { uriTemplate: 'file:///logs/{date}', name: 'logs' };
+
+  it('lists the resources and templates of a server once per connection', async () => {
+    transport.addFakeServer('web', [], { resources: [readme], resourceTemplates: [logs] });
+    await MCPClient.handleTools(true);
+
+    expect(await MCPClient.getServerResources('web')).toEqual([readme]);
+    expect(await MCPClient.getServerResourceTemplates('web')).toEqual([logs]);
+    expect(transport.calls.filter((call) => call.startsWith('listResource'))).toEqual([
+      'listResources:web',
+      'listResourceTemplates:web',
+    ]);
+
+    await MCPClient.restartServer('web');
+    await MCPClient.getServerResources('web');
+    expect(transport.calls.filter((call) => call === 'listResources:web')).toHaveLength(2);
+  });
+
+  it('lists no resources if the server can not be asked', async () => {
+    transport.addFakeServer('web', [], { resources: [readme] });
+    await MCPClient.handleTools(true);
+    transport.failOn('listResources', 'web');
+
+    expect(await MCPClient.getServerResources('web')).toEqual([]);
+    expect(await MCPClient.getServerResourceTemplates('web')).toEqual([]);
+  });
+
+  it('reads resources of connected servers', async () => {
+    transport.addFakeServer('web', [], { resources: [readme] });
+    await MCPClient.handleTools(true);
+
+    expect(await MCPClient.readResource('web', readme.uri)).toEqual([
+      { uri: readme.uri, mimeType: 'text/markdown', text: 'readme.md' },
+    ]);
+    await expect(MCPClient.readResource('files', readme.uri)).rejects.toThrow('MCP server "files" is not connected.');
+  });
+});
+
+describe('deleteServer', () => {
+  it('disconnects a connected server before deleting it', async () => {
+    transport.addFakeServer('web', [searchTool]);
+    await MCPClient.handleTools(true);
+
+    await MCPClient.deleteServer('web');
+
+    expect(transport.calls.slice(-2)).toEqual(['stopServer:web', 'deleteServer:web']);
+    expect(transport.servers.has('web')).toBe(false);
+    expect(MCPClient.isConnected('web')).toBe(false);
+    expect(registeredTools()).toEqual([]);
+  });
+
+  it('deletes a disconnected server without stopping it', async () => {
+    transport.addFakeServer('web', [searchTool], { enabled: false });
+
+    await MCPClient.deleteServer('web');
+
+    expect(transport.calls).toEqual(['deleteServer:web']);
+    expect(await MCPClient.getServers()).toEqual([]);
+  });
+
+  it('keeps the server if the transport fails to delete it', async () => {
+    transport.addFakeServer('web', [searchTool], { enabled: false });
+    transport.failOn('deleteServer', 'web');
+
+    await expect(MCPClient.deleteServer('web')).rejects.toThrow('deleteServer failed for web');
+    expect(transport.servers.has('web')).toBe(true);
+  });
+});
+
+describe('updateServer', () => {
+  it('restarts a connected server with the new configuration', async () => {
+    transport.addFakeServer('web', [searchTool, fetchTool], { disabledTools: ['fetch'] });
+    await MCPClient.handleTools(true);
+
+    const config = { type: 'stdio' as const, command: 'uvx', args: ['web-server'] };
+    await MCPClient.updateServer('web', config);
+
+    expect(transport.servers.get('web')!.config).toEqual(config);
+    expect(transport.calls).toContain('stopServer:web');
+    expect(transport.calls.slice(-1)).toEqual(['listTools:web']);
+    expect(MCPClient.isConnected('web')).toBe(true);
+    expect(transport.servers.get('web')!.disabledTools).toEqual(['fetch']);
+    expect(registeredTools()).toEqual(['mcp_web_search']);
+  });
+
+  it('does not start a disabled server', async () => {
+    transport.addFakeServer('web', [searchTool], { enabled: false });
+    transport.addFakeServer('files', [searchTool], { enabled: false });
+
+    await MCPClient.updateServer('web', { type: 'sse', url: 'http://localhost:3000/sse' });
+
+    expect(transport.calls).not.toContain('startServer:web');
+    expect(transport.servers.get('web')!.enabled).toBe(false);
+    expect(transport.servers.get('files')!.enabled).toBe(false);
+  });
+
+  it('restarts a connected server with the old configuration if the update fails', async () => {
+    const config = { type: 'stdio' as const, command: 'web' };
+    transport.addFakeServer('web', [searchTool, fetchTool], { config, disabledTools: ['fetch'] });
+    await MCPClient.handleTools(true);
+    transport.failOn('updateServer', 'web');
+
+    await expect(MCPClient.updateServer('web', { type: 'stdio', command: 'uvx' })).rejects.toThrow(
+      'updateServer failed for web',
+    );
+
+    expect(transport.servers.get('web')!.config).toEqual(config);
+    expect(transport.servers.get('web')!.disabledTools).toEqual(['fetch']);
+    expect(MCPClient.isConnected('web')).toBe(true);
+    expect(registeredTools()).toEqual(['mcp_web_search']);
+  });
+
+  it('rejects invalid configurations', async () => {
+    transport.addFakeServer('web', [searchTool]);
+
+    await expect(MCPClient.updateServer('web', { type: 'sse' })).rejects.toThrow('Invalid server configuration');
+    expect(transport.calls).toEqual([]);
+  });
+
+  it('rejects unknown servers', async () => {
+    await expect(MCPClient.updateServer('web', { type: 'stdio', command: 'npx' })).rejects.toThrow(
+      'Server "web" not found.',
+    );
+  });
+});
+
+describe('health checks and reconnection', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    MCPClient.stopHealthChecks();
+    jest.useRealTimers();
+  });
+
+  /**
+   * Connects a server and then lets its process die.
+   */
+  async function crashedServer(): Promise<void> {
+    transport.addFakeServer('web', [searchTool]);
+    await MCPClient.handleTools(true);
+    transport.servers.get('web')!.running = false;
+  }
+
+  it('reports connected servers as healthy', async () => {
+    transport.addFakeServer('web', [searchTool]);
+    await MCPClient.handleTools(true);
+
+    expect(await MCPClient.checkServerHealth('web')).toBe(true);
+    expect(MCPClient.getServerStatus('web')).toEqual({ state: 'connected', attempts: 0 });
+  });
+
+  it('unregisters the tools of a server that stopped responding', async () => {
+    await crashedServer();
+
+    expect(await MCPClient.checkServerHealth('web')).toBe(false);
+
+    expect(MCPClient.isConnected('web')).toBe(false);
+    expect(registeredTools()).toEqual([]);
+    expect(MCPClient.getServerStatus('web')).toMatchObject({
+      state: 'reconnecting',
+      lastError: 'Server "web" is not running',
+      attempts: 0,
+    });
+  });
+
+  it('reconnects with exponential backoff and registers the tools again', async () => {
+    await crashedServer();
+    transport.failOn('startServer', 'web', new Error('spawn failed'));
+    const listener = jest.fn();
+    MCPClient.addServerStatusListener(listener);
+
+    await MCPClient.checkServerHealth('web');
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(MCPClient.getServerStatus('web')).toMatchObject({ state: 'reconnecting', attempts: 1 });
+    await jest.advanceTimersByTimeAsync(1999);
+    expect(MCPClient.getServerStatus('web')).toMatchObject({ attempts: 1 });
+
+    transport.failures.clear();
+    await jest.advanceTimersByTimeAsync(1);
+
+    expect(MCPClient.isConnected('web')).toBe(true);
+    expect(registeredTools()).toEqual(['mcp_web_search']);
+    expect(MCPClient.getServerStatus('web')).toEqual({ state: 'connected', attempts: 0 });
+    expect(listener).toHaveBeenLastCalledWith('web', { state: 'connected', attempts: 0 });
+  });
+
+  it('gives up after too many attempts', async () => {
+    await crashedServer();
+    transport.failOn('startServer', 'web', new Error('spawn failed'));
+
+    await MCPClient.checkServerHealth('web');
+    await jest.advanceTimersByTimeAsync(10 * 60_000);
+
+    expect(MCPClient.getServerStatus('web')).toMatchObject({ state: 'failed', lastError: 'spawn failed', attempts: 8 });
+    expect(transport.calls.filter((call) => call === 'startServer:web')).toHaveLength(9);
+  });
+
+  it('stops reconnecting a server that is disabled', async () => {
+    await crashedServer();
+    await MCPClient.checkServerHealth('web');
+
+    await MCPClient.updateDisabledServers(['web']);
+    await jest.advanceTimersByTimeAsync(60_000);
+
+    expect(MCPClient.getServerStatus('web')).toBeUndefined();
+    expect(transport.calls.filter((call) => call === 'startServer:web')).toHaveLength(1);
+  });
+
+  it('explains tool calls that fail because the connection dropped', async () => {
+    await crashedServer();
+
+    await expect(MCPClient.callTool('web', 'search', {})).rejects.toThrow(
+      'MCP server "web" lost its connection (Server "web" is not running). Reconnecting in the background.',
+    );
+    await expect(MCPClient.callTool('web', 'search', {})).rejects.toThrow('is reconnecting');
+  });
+
+  it('checks the connected servers periodically', async () => {
+    await crashedServer();
+
+    MCPClient.startHealthChecks(30_000);
+    await jest.advanceTimersByTimeAsync(30_000);
+
+    expect(transport.calls).toContain('ping:web');
+    expect(MCPClient.getServerStatus('web')?.state).toBe('reconnecting');
+  });
+});
+
+describe('tool call timeouts, cancellation and progress', () => {
+  /**
+   * Adds a server whose tool runs until the call is aborted, and captures the signal it was given.
+   */
+  async function stuckServer(): Promise<{ signal?: AbortSignal }> {
+    const captured: { signal?: AbortSignal } = {};
+    transport.addFakeServer('web', [searchTool], {
+      handleToolCall: (toolName, args, options) => {
+        captured.signal = options.signal;
+        return new Promise(() => {});
+      },
+    });
+    await MCPClient.handleTools(true);
+    return captured;
+  }
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('aborts calls that run longer than the server timeout', async () => {
+    context.extensionSettings.mcp.serverTimeouts = { web: 5 };
+    const captured = await stuckServer();
+
+    const call = MCPClient.callTool('web', 'search', {});
+    const assertion = expect(call).rejects.toThrow('Tool "search" on server "web" timed out after 5 seconds.');
+    await jest.advanceTimersByTimeAsync(5000);
+
+    await assertion;
+    expect(captured.signal!.aborted).toBe(true);
+    expect(MCPClient.getActiveToolCalls()).toEqual([]);
+    // A timeout says nothing about the connection
+    expect(transport.calls).not.toContain('ping:web');
+    expect(MCPClient.isConnected('web')).toBe(true);
+  });
+
+  it('prefers tool timeouts over server and default timeouts', async () => {
+    context.extensionSettings.mcp.toolTimeout = 300;
+    context.extensionSettings.mcp.serverTimeouts = { web: 0 };
+    context.extensionSettings.mcp.toolTimeouts = { web: { search: 1 } };
+    await stuckServer();
+
+    const call = MCPClient.callTool('web', 'search', {});
+    const assertion = expect(call).rejects.toThrow('timed out after 1 seconds');
+    await jest.advanceTimersByTimeAsync(1000);
+
+    await assertion;
+  });
+
+  it('cancels a running call', async () => {
+    const captured = await stuckServer();
+    const records: any[] = [];
+    MCPClient.addToolCallListener((record) => records.push(record));
+
+    const call = MCPClient.callTool('web', 'search', { query: 'x' });
+    await jest.advanceTimersByTimeAsync(0);
+    const [active] = MCPClient.getActiveToolCalls();
+    expect(active).toMatchObject({ serverName: 'web', toolName: 'search' });
+
+    MCPClient.cancelToolCall(active.id);
+
+    await expect(call).rejects.toThrow('The user cancelled the tool call.');
+    expect(captured.signal!.aborted).toBe(true);
+    expect(MCPClient.getActiveToolCalls()).toEqual([]);
+    expect(records[0].error).toBe('Error: The user cancelled the tool call.');
+  });
+
+  it('reports progress of running calls', async () => {
+    let finish: (result: any) => void = () => {};
+    transport.addFakeServer('web', [searchTool], {
+      handleToolCall: (toolName, args, options) => {
+        options.onProgress!({ progress: 1, total: 4, message: 'Crawling' });
+        return new Promise((resolve) => (finish = resolve));
+      },
+    });
+    await MCPClient.handleTools(true);
+    const updates: any[] = [];
+    MCPClient.addActiveToolCallListener((calls) => updates.push(calls.map((call) => call.progress)));
+    const onProgress = jest.fn();
+
+    const call = MCPClient.callTool('web', 'search', {}, { onProgress });
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(MCPClient.getActiveToolCalls()[0].progress).toEqual({ progress: 1, total: 4, message: 'Crawling' });
+    expect(onProgress).toHaveBeenCalledWith({ progress: 1, total: 4, message: 'Crawling' });
+
+    finish({ content: [] });
+    await call;
+    expect(updates).toEqual([[undefined], [{ progress: 1, total: 4, message: 'Crawling' }], []]);
+  });
+});
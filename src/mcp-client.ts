@@ -1,12 +1,212 @@
+import { forgetOAuthState } from './auth.js';
+import { DirectTransport, isDirectServer } from './direct-servers.js';
 import { JsonError } from './json-error.js';
+import { buildCacheKey, cacheResult, clearResultCache, getCachedResult, getCacheTtl } from './result-cache.js';
+import { dropOmittedArguments } from './schema-sanitizers.js';
+import { assertValidServerConfig } from './server-config.js';
+import { getToolTimeout } from './timeouts.js';
+import {
+  applyArgumentOverrides,
+  applySchemaOverride,
+  getToolOverride,
+  setToolOverride,
+  ToolOverride,
+} from './tool-overrides.js';
+import { getToolTitle, isDestructiveTool, isReadOnlyTool } from './tool-annotations.js';
+import { buildCollisionToolId, buildToolId, getToolAlias, setToolAlias } from './tool-ids.js';
+import { parseToolResult, ToolResultImage } from './tool-result.js';
+import { McpTransport, PluginTransport } from './transport.js';
+
+/**
+ * Hints a server gives about what a tool does. Servers are not required to be truthful.
+ */
+export interface McpToolAnnotations {
+  title?: string;
+  /** The tool does not change its environment */
+  readOnlyHint?: boolean;
+  /** The tool may delete or overwrite data */
+  destructiveHint?: boolean;
+  /** Calling the tool again with the same arguments has no further effect */
+  idempotentHint?: boolean;
+  /** The tool talks to the outside world, e.g. the web */
+  openWorldHint?: boolean;
+}
 
 export interface McpTool {
   name: string;
+  /** Human readable name */
+  title?: string;
   description?: string;
   inputSchema?: any;
+  annotations?: McpToolAnnotations;
   _enabled?: boolean;
 }
 
+export interface McpResource {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export interface McpResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export interface McpResourceContents {
+  uri: string;
+  mimeType?: string;
+  text?: string;
+  /** Base64 encoded binary content */
+  blob?: string;
+}
+
+export interface McpPromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+export interface McpPrompt {
+  name: string;
+  description?: string;
+  arguments?: McpPromptArgument[];
+}
+
+export interface McpPromptMessage {
+  role: 'user' | 'assistant';
+  content:
+    | { type: 'text'; text: string }
+    | { type: 'image' | 'audio'; data: string; mimeType: string }
+    | { type: 'resource'; resource: McpResourceContents };
+}
+
+export interface McpPromptResult {
+  description?: string;
+  messages: McpPromptMessage[];
+}
+
+/**
+ * Limits which servers and tools are offered to the model.
+ */
+export interface ToolScope {
+  /** Allowed servers. Tools of other servers are not registered. */
+  servers: string[];
+  /** Allowed tools per server. Servers missing here allow all of their enabled tools. */
+  tools: Record<string, string[]>;
+}
+
+export interface ToolCallApproval {
+  approved: boolean;
+  /** The arguments to call the tool with. May be edited by the user. */
+  args: any;
+  /** Why the call was rejected */
+  reason?: string;
+}
+
+/**
+ * Decides whether a tool call requested by the model may run.
+ */
+export type ToolCallApprover = (serverName: string, toolName: string, args: any) => Promise<ToolCallApproval>;
+
+/**
+ * Shortens the text of a tool result before it is sent to the model.
+ */
+export type ToolResultLimiter = (serverName: string, toolName: string, args: any, text: string) => Promise<string>;
+
+/**
+ * Answers a request a server sent to the client, like `elicitation/create` or `sampling/createMessage`.
+ * Resolves to the result sent back to the server.
+ */
+export type ServerRequestHandler = (serverName: string, method: string, params: any) => Promise<any>;
+
+export interface ToolCallRecord {
+  serverName: string;
+  toolName: string;
+  args: any;
+  result?: any;
+  /** The error payload if the call failed */
+  error?: any;
+  startedAt: number;
+  durationMs: number;
+  /** Whether the result came from the result cache instead of the server */
+  cached?: boolean;
+}
+
+export type ToolCallListener = (record: ToolCallRecord) => void;
+
+/**
+ * A `notifications/progress` update of a running tool call.
+ */
+export interface ToolCallProgress {
+  progress: number;
+  total?: number;
+  message?: string;
+}
+
+export interface ToolCallOptions {
+  /** Aborts the call. The server is sent `notifications/cancelled`. */
+  signal?: AbortSignal;
+  /** Called for progress updates. Servers only send them if a handler is given. */
+  onProgress?: (progress: ToolCallProgress) => void;
+  /** Calls the server even if the result is cached. The new result is still cached. */
+  bypassCache?: boolean;
+}
+
+/**
+ * A tool call that has not finished yet.
+ */
+export interface ActiveToolCall {
+  id: number;
+  serverName: string;
+  toolName: string;
+  startedAt: number;
+  /** The latest progress update */
+  progress?: ToolCallProgress;
+}
+
+export type ActiveToolCallListener = (calls: ActiveToolCall[]) => void;
+
+/**
+ * The live connection state of a server the client is meant to be connected to.
+ */
+export interface ServerStatus {
+  state: 'connected' | 'reconnecting' | 'failed';
+  /** The error of the last failed health check or connection attempt */
+  lastError?: string;
+  /** Reconnection attempts since the connection was lost */
+  attempts: number;
+  /** Unix time in milliseconds of the next reconnection attempt */
+  nextAttemptAt?: number;
+}
+
+/**
+ * Notified when the status of a server changes. The status is undefined after the server was disconnected on purpose.
+ */
+export type ServerStatusListener = (serverName: string, status: ServerStatus | undefined) => void;
+
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 60_000;
+const MAX_RECONNECT_ATTEMPTS = 8;
+
+/**
+ * How a remote server is authorized. Static headers are set with `headers` instead.
+ */
+export interface ServerAuth {
+  type: 'bearer' | 'oauth';
+  /** The token sent as `Authorization: Bearer <token>` */
+  token?: string;
+  /** OAuth client id. A client is registered dynamically if missing. */
+  clientId?: string;
+  /** OAuth client secret, for confidential clients */
+  clientSecret?: string;
+  /** OAuth scopes to request, separated by spaces. Defaults to the scopes the server advertises. */
+  scope?: string;
+}
+
 /**
  * A class for interacting with MCP servers.
  */
@@ -14,16 +214,21 @@ export interface ServerConfig {
   command?: string;
   args?: string[];
   env?: Record<string, string>;
+  url?: string;
+  headers?: Record<string, string>;
   type: 'stdio' | 'sse' | 'streamableHttp';
+  /** Whether to connect through the server plugin (default) or directly from the browser */
+  mode?: 'plugin' | 'direct';
+  /** Authorization of remote servers */
+  auth?: ServerAuth;
 }
 
-interface ServerData {
+export interface ServerData {
   name: string;
   config: ServerConfig;
   enabled: boolean;
   cachedTools: Record<string, McpTool[]>;
 }
-const PLUGIN_ID = 'mcp';
 
 export class MCPClient {
   /**
@@ -34,49 +239,121 @@ export class MCPClient {
    * A map of MCP server tools.
    */
   static #serverTools: Map<string, McpTool[]> = new Map();
+  /**
+   * Registered function names mapped to the server and tool they call.
+   */
+  static #toolIds: Map<string, { serverName: string; toolName: string; baseId: string }> = new Map();
+  /**
+   * Generated function names that several registered tools share. Every one of them gets a hash appended.
+   */
+  static #contestedToolIds: Set<string> = new Set();
+  /**
+   * A map of MCP server resources.
+   */
+  static #serverResources: Map<string, McpResource[]> = new Map();
+  /**
+   * A map of MCP server resource templates.
+   */
+  static #serverResourceTemplates: Map<string, McpResourceTemplate[]> = new Map();
+  /**
+   * A map of MCP server prompts.
+   */
+  static #serverPrompts: Map<string, McpPrompt[]> = new Map();
+  /**
+   * The active tool scope. Null means every enabled tool is registered.
+   */
+  static #toolScope: ToolScope | null = null;
+  /**
+   * Whether only tools the server marks as read-only are registered.
+   */
+  static #safeMode = false;
+  /**
+   * Decides whether model requested tool calls may run. Null means every call runs.
+   */
+  static #toolCallApprover: ToolCallApprover | null = null;
+  /**
+   * Shortens tool results sent to the model. Null means results are sent whole.
+   */
+  static #toolResultLimiter: ToolResultLimiter | null = null;
+  /**
+   * Answers requests servers send to the client. Null means servers get a "method not found" error.
+   */
+  static #serverRequestHandler: ServerRequestHandler | null = null;
+  /**
+   * Listeners notified after every tool call.
+   */
+  static #toolCallListeners: ToolCallListener[] = [];
+  /**
+   * Images returned by model requested tool calls that are not attached to a message yet.
+   */
+  static #pendingImages: ToolResultImage[] = [];
+  /**
+   * The connection status of servers that are connected or meant to be.
+   */
+  static #serverStatus: Map<string, ServerStatus> = new Map();
+  /**
+   * Pending reconnection attempts.
+   */
+  static #reconnectTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+  static #healthCheckTimer: ReturnType<typeof setInterval> | null = null;
+  static #statusListeners: ServerStatusListener[] = [];
+  /**
+   * Running tool calls with the controllers that abort them.
+   */
+  static #activeCalls: Map<number, { call: ActiveToolCall; controller: AbortController }> = new Map();
+  static #nextCallId = 1;
+  static #activeCallListeners: ActiveToolCallListener[] = [];
+  /**
+   * Servers whose tools are being synced after `notifications/tools/list_changed`.
+   * True if another notification arrived during the sync, so it has to run again.
+   */
+  static #toolSyncs: Map<string, boolean> = new Map();
 
   /**
-   * Helper method to provide user-friendly error messages for common issues
+   * The transport used for servers run by the server plugin.
    */
-  static #createUserFriendlyError(response: Response, context: string): Error {
-    const status = response.status;
-    const statusText = response.statusText;
+  static #transport: McpTransport = new PluginTransport();
+  /**
+   * The transport used for servers the browser connects to directly.
+   */
+  static #directTransport: McpTransport = new DirectTransport();
 
-    if (status === 404) {
-      return new Error(
-        `MCP Server plugin not found. Please install the SillyTavern MCP Server plugin first:\n` +
-          `https://github.com/bmen25124/SillyTavern-MCP-Server\n\n` +
-          `After installation, restart SillyTavern and try again.`,
-      );
+  static {
+    for (const transport of [this.#transport, this.#directTransport]) {
+      transport.onToolsChanged = (name) => this.#handleToolsChanged(name);
+      transport.onRequest = (name, method, params) => this.#handleServerRequest(name, method, params);
     }
+  }
 
-    if (status === 500) {
-      return new Error(
-        `MCP Server plugin error. The plugin may not be properly configured or started.\n` +
-          `Check the SillyTavern console for more details.`,
-      );
-    }
+  /**
+   * Replaces the transport used for plugin servers. Meant for tests and alternative backends.
+   * @param transport The transport to use.
+   */
+  static setTransport(transport: McpTransport): void {
+    this.#transport = transport;
+    transport.onToolsChanged = (name) => this.#handleToolsChanged(name);
+    transport.onRequest = (name, method, params) => this.#handleServerRequest(name, method, params);
+  }
 
-    // For other errors, provide a generic but helpful message
-    return new Error(
-      `Failed to ${context}. Error: ${statusText} (${status})\n` +
-        `Make sure the SillyTavern MCP Server plugin is installed and running.`,
-    );
+  /**
+   * Gets the transport that handles a server.
+   * @param serverName The name of the server.
+   */
+  static #transportFor(serverName: string): McpTransport {
+    return isDirectServer(serverName) ? this.#directTransport : this.#transport;
   }
 
   static async getServers(): Promise<ServerData[]> {
-    const context = SillyTavern.getContext();
-    const response = await fetch(`/api/plugins/${PLUGIN_ID}/servers`, {
-      method: 'GET',
-      headers: context.getRequestHeaders(),
-    });
+    const directServers = await this.#directTransport.listServers();
 
-    if (!response.ok) {
-      return [];
+    let pluginServers: ServerData[] = [];
+    try {
+      pluginServers = await this.#transport.listServers();
+    } catch (error) {
+      console.warn('[MCPClient] Could not reach the MCP Server plugin:', error);
     }
 
-    const servers = await response.json();
-    return servers;
+    return [...pluginServers, ...directServers];
   }
 
   /**
@@ -85,28 +362,205 @@ export class MCPClient {
    * @returns Whether the tools were fetched and registered successfully.
    */
   static async #fetchTools(serverName: string): Promise<void> {
-    const context = SillyTavern.getContext();
-    const response = await fetch(`/api/plugins/${PLUGIN_ID}/servers/${serverName}/list-tools`, {
-      method: 'GET',
-      headers: context.getRequestHeaders(),
-    });
+    const tools = await this.#transportFor(serverName).listTools(serverName);
 
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error || response.statusText);
+    // Store tools in cache
+    this.#serverTools.set(serverName, tools);
+  }
+
+  /**
+   * Re-syncs the tools of a server after it announced that its tool list changed.
+   * Notifications that arrive during a sync are coalesced into one more sync.
+   * @param serverName The name of the server.
+   */
+  static async #handleToolsChanged(serverName: string): Promise<void> {
+    if (this.#toolSyncs.has(serverName)) {
+      this.#toolSyncs.set(serverName, true);
+      return;
     }
 
-    const data = await response.json();
-    const tools: McpTool[] = Array.isArray(data) ? data : [];
+    try {
+      do {
+        this.#toolSyncs.set(serverName, false);
+        await this.#syncTools(serverName);
+      } while (this.#toolSyncs.get(serverName));
+    } catch (error) {
+      console.error(`[MCPClient] Failed to update the tools of server "${serverName}":`, error);
+    } finally {
+      this.#toolSyncs.delete(serverName);
+    }
+  }
 
-    // Store tools in cache
+  /**
+   * Lists the tools of a connected server again and replaces its registrations.
+   * @param serverName The name of the server.
+   */
+  static async #syncTools(serverName: string): Promise<void> {
+    if (!this.isConnected(serverName)) {
+      return;
+    }
+
+    const transport = this.#transportFor(serverName);
+    await transport.reloadTools(serverName);
+    const tools = await transport.listTools(serverName);
+    // The server may have been disconnected while its tools were listed
+    if (!this.isConnected(serverName)) {
+      return;
+    }
+
+    this.#replaceTools(serverName, tools);
+    console.log(`[MCPClient] Tool list of server "${serverName}" changed, now ${tools.length} tools`);
+  }
+
+  /**
+   * Unregisters the previous tools of a server and registers the new ones,
+   * so tools the server removed or that were disabled do not stay registered.
+   * @param serverName The name of the server.
+   * @param tools The new tool list of the server.
+   */
+  static #replaceTools(serverName: string, tools: McpTool[]): void {
+    for (const tool of this.#serverTools.get(serverName) || []) {
+      this.#unregisterMcpTool(serverName, tool.name);
+    }
     this.#serverTools.set(serverName, tools);
+    this.registerTools(serverName);
+  }
+
+  /**
+   * Fetches resources and resource templates from an MCP server.
+   * Servers without the resources capability are cached with empty lists.
+   * @param serverName The name of the server to fetch resources from.
+   */
+  static async #fetchResources(serverName: string): Promise<void> {
+    const transport = this.#transportFor(serverName);
+    const [resources, templates] = await Promise.all([
+      transport.listResources(serverName),
+      transport.listResourceTemplates(serverName),
+    ]);
+
+    this.#serverResources.set(serverName, resources);
+    this.#serverResourceTemplates.set(serverName, templates);
+  }
+
+  /**
+   * Fetches prompts from an MCP server.
+   * Servers without the prompts capability are cached with an empty list.
+   * @param serverName The name of the server to fetch prompts from.
+   */
+  static async #fetchPrompts(serverName: string): Promise<void> {
+    this.#serverPrompts.set(serverName, await this.#transportFor(serverName).listPrompts(serverName));
+  }
+
+  /**
+   * Checks if a tool is allowed by the active tool scope.
+   * @param serverName The name of the server the tool belongs to.
+   * @param toolName The name of the tool.
+   */
+  static #isInScope(serverName: string, toolName: string): boolean {
+    const scope = this.#toolScope;
+    if (!scope) {
+      return true;
+    }
+    if (!scope.servers.includes(serverName)) {
+      return false;
+    }
+    const allowedTools = scope.tools[serverName];
+    return !allowedTools || allowedTools.includes(toolName);
+  }
+
+  /**
+   * Checks if a tool may be registered under the active tool scope and safe mode.
+   * @param serverName The name of the server the tool belongs to.
+   * @param tool The tool.
+   */
+  static #isAllowed(serverName: string, tool: McpTool): boolean {
+    return this.#isInScope(serverName, tool.name) && (!this.#safeMode || isReadOnlyTool(tool));
+  }
+
+  /**
+   * Sets the active tool scope and re-registers the tools of all connected servers.
+   * @param scope The scope to apply, or null to register every enabled tool.
+   */
+  static setToolScope(scope: ToolScope | null): void {
+    this.#toolScope = scope;
+    this.#registerAllTools();
+  }
+
+  /**
+   * Turns safe mode on or off and re-registers the tools of all connected servers.
+   * In safe mode, only tools the server marks as read-only are registered.
+   * @param enabled Whether safe mode is on.
+   */
+  static setSafeMode(enabled: boolean): void {
+    if (this.#safeMode === enabled) {
+      return;
+    }
+    this.#safeMode = enabled;
+    this.#registerAllTools();
+  }
+
+  /**
+   * Checks if safe mode is on.
+   */
+  static isSafeMode(): boolean {
+    return this.#safeMode;
+  }
+
+  /**
+   * Registers the tools of all connected servers again.
+   */
+  static #registerAllTools(): void {
+    for (const serverName of this.getConnectedServers()) {
+      for (const tool of this.#serverTools.get(serverName) || []) {
+        this.#unregisterMcpTool(serverName, tool.name);
+      }
+      this.registerTools(serverName);
+    }
+  }
+
+  /**
+   * Sets the approver that decides whether model requested tool calls may run.
+   * @param approver The approver, or null to run every call.
+   */
+  static setToolCallApprover(approver: ToolCallApprover | null): void {
+    this.#toolCallApprover = approver;
+  }
+
+  /**
+   * Sets the limiter that shortens tool results before they are sent to the model.
+   * The call history keeps the full result.
+   * @param limiter The limiter, or null to send results whole.
+   */
+  static setToolResultLimiter(limiter: ToolResultLimiter | null): void {
+    this.#toolResultLimiter = limiter;
+  }
+
+  /**
+   * Sets the handler that answers requests servers send to the client.
+   * @param handler The handler, or null to refuse every request.
+   */
+  static setServerRequestHandler(handler: ServerRequestHandler | null): void {
+    this.#serverRequestHandler = handler;
+  }
+
+  /**
+   * Answers a request a server sent to the client.
+   * @param serverName The name of the server.
+   * @param method The JSON-RPC method.
+   * @param params The request parameters.
+   */
+  static async #handleServerRequest(serverName: string, method: string, params: any): Promise<any> {
+    if (!this.#serverRequestHandler) {
+      throw new JsonError({ error: `Method not found: ${method}`, code: -32601 });
+    }
+    console.log(`[MCPClient] Server "${serverName}" sent a "${method}" request`);
+    return await this.#serverRequestHandler(serverName, method, params);
   }
 
   static registerTools(name: string): void {
     const tools = this.#serverTools.get(name);
     if (tools) {
-      const enabledTools = tools.filter((tool) => tool._enabled);
+      const enabledTools = tools.filter((tool) => tool._enabled && this.#isAllowed(name, tool));
       for (const tool of enabledTools) {
         this.#registerMcpTool(name, tool);
       }
@@ -122,15 +576,49 @@ export class MCPClient {
    */
   static #registerMcpTool(serverName: string, tool: McpTool): void {
     const context = SillyTavern.getContext();
-    const toolId = `mcp_${serverName}_${tool.name}`;
+    const toolId = this.#assignToolId(serverName, tool.name);
+    if (!toolId) {
+      return;
+    }
+    const override = getToolOverride(serverName, tool.name);
 
     context.registerFunctionTool({
       name: toolId,
-      displayName: `${serverName}: ${tool.name}`,
-      description: tool.description || `Tool from MCP server "${serverName}"`,
-      parameters: tool.inputSchema || { type: 'object', properties: {} },
+      displayName: override?.displayName || `${serverName}: ${getToolTitle(tool) ?? tool.name}`,
+      description: override?.description || tool.description || `Tool from MCP server "${serverName}"`,
+      parameters: applySchemaOverride(tool.inputSchema || { type: 'object', properties: {} }, override),
       action: async (parameters: any) => {
-        return await this.callTool(serverName, tool.name, parameters);
+        // Calls are routed by the registered name, a stale registration must not reach another tool
+        const target = this.#toolIds.get(toolId);
+        if (target?.serverName !== serverName || target.toolName !== tool.name) {
+          throw new Error(`Tool "${toolId}" is no longer registered.`);
+        }
+
+        // Injected before approval, so the user sees the arguments the server will get
+        const args = applyArgumentOverrides(parameters, override);
+        const approval = this.#toolCallApprover
+          ? await this.#toolCallApprover(serverName, tool.name, args)
+          : { approved: true, args };
+
+        if (!approval.approved) {
+          console.log(`[MCPClient] Tool call "${tool.name}" on server "${serverName}" was rejected`);
+          return {
+            refused: true,
+            reason: approval.reason || 'The user rejected this tool call.',
+          };
+        }
+
+        const callArgs = dropOmittedArguments(approval.args, tool.inputSchema);
+        const result = await this.callTool(serverName, tool.name, callArgs);
+        const parsed = parseToolResult(result);
+        if (parsed.isError) {
+          throw new JsonError({ error: parsed.text || `Tool "${tool.name}" failed` });
+        }
+
+        this.#pendingImages.push(...parsed.images);
+        return this.#toolResultLimiter
+          ? await this.#toolResultLimiter(serverName, tool.name, callArgs, parsed.text)
+          : parsed.text;
       },
       formatMessage: async (parameters: any) => {
         return `Calling MCP tool "${tool.name}" on server "${serverName}"`;
@@ -138,6 +626,163 @@ export class MCPClient {
     });
   }
 
+  /**
+   * Picks the function name of a tool and records it in the reverse map.
+   * When tools share a generated name, all of them get a hash of their server and tool name appended,
+   * so their names don't depend on which one was registered first. Aliases keep their name.
+   * @param serverName The name of the server the tool belongs to.
+   * @param toolName The name of the tool.
+   * @returns The function name, or null if no free name was found.
+   */
+  static #assignToolId(serverName: string, toolName: string): string | null {
+    const existing = this.getToolId(serverName, toolName);
+    if (existing) {
+      return existing;
+    }
+
+    const alias = getToolAlias(serverName, toolName);
+    const baseId = buildToolId(serverName, toolName, alias);
+    const owner = this.#toolIds.get(baseId);
+    if (owner) {
+      console.warn(
+        `[MCPClient] Tool name "${baseId}" is shared by "${owner.serverName}: ${owner.toolName}" and ` +
+          `"${serverName}: ${toolName}", registering them with a hash appended. Set an alias to choose a name.`,
+      );
+      if (!getToolAlias(owner.serverName, owner.toolName)) {
+        this.#moveToCollisionId(owner.serverName, owner.toolName, baseId);
+      }
+      this.#contestedToolIds.add(baseId);
+    }
+
+    let toolId = baseId;
+    if (this.#toolIds.has(baseId) || (!alias && this.#contestedToolIds.has(baseId))) {
+      toolId = buildCollisionToolId(baseId, serverName, toolName);
+      if (this.#toolIds.has(toolId)) {
+        console.error(
+          `[MCPClient] Tool "${toolName}" of server "${serverName}" has no free name, it is not registered`,
+        );
+        return null;
+      }
+    }
+
+    this.#toolIds.set(toolId, { serverName, toolName, baseId });
+    return toolId;
+  }
+
+  /**
+   * Registers a tool again under the hashed form of a name it now shares with another tool.
+   */
+  static #moveToCollisionId(serverName: string, toolName: string, baseId: string): void {
+    const tool = this.#serverTools.get(serverName)?.find((item) => item.name === toolName);
+    this.#unregisterMcpTool(serverName, toolName);
+    this.#contestedToolIds.add(baseId);
+    if (tool) {
+      this.#registerMcpTool(serverName, tool);
+    }
+  }
+
+  /**
+   * Unregisters a tool from the context and frees its function name.
+   * @param serverName The name of the server the tool belongs to.
+   * @param toolName The name of the tool.
+   */
+  static #unregisterMcpTool(serverName: string, toolName: string): void {
+    const toolId = this.getToolId(serverName, toolName);
+    if (toolId) {
+      SillyTavern.getContext().unregisterFunctionTool(toolId);
+      const { baseId } = this.#toolIds.get(toolId)!;
+      this.#toolIds.delete(toolId);
+      // Once no tool uses a shared name anymore, the next tool with that name gets it without a hash
+      if (!Array.from(this.#toolIds.values()).some((target) => target.baseId === baseId)) {
+        this.#contestedToolIds.delete(baseId);
+      }
+    }
+  }
+
+  /**
+   * Gets the function name a tool is registered with.
+   * @param serverName The name of the server the tool belongs to.
+   * @param toolName The name of the tool.
+   * @returns The function name, or undefined if the tool is not registered.
+   */
+  static getToolId(serverName: string, toolName: string): string | undefined {
+    for (const [toolId, target] of this.#toolIds) {
+      if (target.serverName === serverName && target.toolName === toolName) {
+        return toolId;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Finds the server and tool a registered function name calls.
+   * @param toolId The function name.
+   */
+  static resolveToolId(toolId: string): { serverName: string; toolName: string } | undefined {
+    const target = this.#toolIds.get(toolId);
+    return target && { serverName: target.serverName, toolName: target.toolName };
+  }
+
+  /**
+   * Sets the alias a tool is registered with and registers it again under the new name.
+   * @param serverName The name of the server the tool belongs to.
+   * @param toolName The name of the tool.
+   * @param alias The alias, or undefined to use the generated name.
+   * @throws If the alias is not a valid function name or another tool uses it.
+   */
+  static updateToolAlias(serverName: string, toolName: string, alias: string | undefined): void {
+    setToolAlias(serverName, toolName, alias);
+    this.#reregisterMcpTool(serverName, toolName);
+  }
+
+  /**
+   * Sets the description, display name and parameter changes of a tool and registers it again.
+   * @param serverName The name of the server the tool belongs to.
+   * @param toolName The name of the tool.
+   * @param override The override, or undefined to go back to what the server sent.
+   */
+  static updateToolOverride(serverName: string, toolName: string, override: ToolOverride | undefined): void {
+    setToolOverride(serverName, toolName, override);
+    this.#reregisterMcpTool(serverName, toolName);
+  }
+
+  /**
+   * Registers a registered tool again, picking up changed settings.
+   * @param serverName The name of the server the tool belongs to.
+   * @param toolName The name of the tool.
+   */
+  static #reregisterMcpTool(serverName: string, toolName: string): void {
+    if (!this.getToolId(serverName, toolName)) {
+      return;
+    }
+    this.#unregisterMcpTool(serverName, toolName);
+    const tool = this.#serverTools.get(serverName)?.find((item) => item.name === toolName);
+    if (tool) {
+      this.#registerMcpTool(serverName, tool);
+    }
+  }
+
+  /**
+   * Disables the tools of a new server that the server marks as destructive, if the user wants that.
+   * @param serverName The name of the server.
+   */
+  static async #disableDestructiveTools(serverName: string): Promise<void> {
+    const context = SillyTavern.getContext();
+    if (!context.extensionSettings.mcp?.disableDestructiveTools) {
+      return;
+    }
+    const tools = this.#serverTools.get(serverName) || [];
+    const destructiveTools = tools.filter((tool) => isDestructiveTool(tool)).map((tool) => tool.name);
+    if (destructiveTools.length === 0) {
+      return;
+    }
+    const disabledTools = tools
+      .filter((tool) => !tool._enabled || destructiveTools.includes(tool.name))
+      .map((tool) => tool.name);
+    await this.updateDisabledTools(serverName, disabledTools);
+    console.log(`[MCPClient] Disabled destructive tools of new server "${serverName}": ${destructiveTools.join(', ')}`);
+  }
+
   /**
    * Adds a new MCP server configuration.
    * @param name The name of the server to add.
@@ -146,17 +791,14 @@ export class MCPClient {
    */
   static async addServer(name: string, config: ServerConfig): Promise<void> {
     const context = SillyTavern.getContext();
-    const response = await fetch(`/api/plugins/${PLUGIN_ID}/servers`, {
-      method: 'POST',
-      headers: context.getRequestHeaders(),
-      body: JSON.stringify({
-        name,
-        config,
-      }),
-    });
-
-    if (!response.ok) {
-      throw this.#createUserFriendlyError(response, 'add MCP server');
+    if (config.mode === 'direct') {
+      const existing = await this.getServers();
+      if (existing.some((server) => server.name === name)) {
+        throw new Error(`Server "${name}" already exists.`);
+      }
+      await this.#directTransport.addServer(name, config);
+    } else {
+      await this.#transport.addServer(name, config);
     }
 
     console.log(`[MCPClient] Added server "${name}"`);
@@ -166,6 +808,7 @@ export class MCPClient {
       try {
         await this.connect(name, config);
         await this.#fetchTools(name);
+        await this.#disableDestructiveTools(name);
         this.registerTools(name);
       } catch (error) {
         const connectError = new Error(`Server "${name}" was added but failed to connect: ${(error as Error).message}`);
@@ -175,6 +818,97 @@ export class MCPClient {
     }
   }
 
+  /**
+   * Replaces the configuration of an MCP server. A connected server is restarted with the new configuration.
+   * Disabled tools and the enabled state of the server are kept.
+   * @param name The name of the server to update.
+   * @param config The new server configuration.
+   */
+  static async updateServer(name: string, config: ServerConfig): Promise<void> {
+    assertValidServerConfig(config);
+    const allServers = await this.getServers();
+    const server = allServers.find((server) => server.name === name);
+    if (!server) {
+      throw new Error(`Server "${name}" not found.`);
+    }
+    if ((config.mode === 'direct') !== isDirectServer(name)) {
+      throw new Error('The mode of an existing server can not be changed. Delete and add the server again.');
+    }
+
+    const transport = this.#transportFor(name);
+    // A server that is reconnecting is restarted with the new configuration right away
+    const wasConnected = this.isConnected(name) || this.#serverStatus.get(name)?.state === 'reconnecting';
+    const tools = (await this.getServerTools(name)) ?? [];
+    const disabledTools = tools.filter((tool) => !tool._enabled).map((tool) => tool.name);
+
+    if (this.isConnected(name)) {
+      await this.disconnect(name);
+    }
+    this.#forgetStatus(name);
+    this.#serverTools.delete(name);
+
+    const restoreStates = async () => {
+      if (disabledTools.length > 0) {
+        await transport.setDisabledTools(name, disabledTools);
+      }
+      if (!server.enabled) {
+        const disabledServers = allServers
+          .filter((item) => !item.enabled && this.#transportFor(item.name) === transport)
+          .map((item) => item.name);
+        await transport.setDisabledServers(disabledServers);
+      }
+    };
+    const restart = async (restartConfig: ServerConfig) => {
+      console.log(`[MCPClient] Restarting server "${name}"`);
+      await this.connect(name, restartConfig);
+      await this.#fetchTools(name);
+      this.registerTools(name);
+    };
+
+    try {
+      await transport.updateServer(name, config);
+    } catch (error) {
+      // The transport keeps the old configuration, so the server is brought back as it was
+      try {
+        await restoreStates();
+        if (wasConnected) {
+          await restart(server.config);
+        }
+      } catch (restoreError) {
+        console.error(`[MCPClient] Could not restore server "${name}":`, restoreError);
+      }
+      throw error;
+    }
+    // Tokens are only valid for the server and client they were issued for
+    if (config.url !== server.config.url || JSON.stringify(config.auth) !== JSON.stringify(server.config.auth)) {
+      forgetOAuthState(name);
+    }
+    await restoreStates();
+    console.log(`[MCPClient] Updated server "${name}"`);
+
+    if (wasConnected) {
+      await restart(config);
+    }
+  }
+
+  /**
+   * Connects to a server again with its stored configuration and registers its tools, e.g. after logging in.
+   * @param name The name of the server to restart.
+   */
+  static async restartServer(name: string): Promise<void> {
+    const server = (await this.getServers()).find((server) => server.name === name);
+    if (!server) {
+      throw new Error(`Server "${name}" not found.`);
+    }
+
+    if (this.isConnected(name)) {
+      await this.disconnect(name);
+    }
+    await this.connect(name, server.config);
+    await this.#fetchTools(name);
+    this.registerTools(name);
+  }
+
   /**
    * Connects to an MCP server.
    * @param name The name of the server to connect to.
@@ -182,20 +916,28 @@ export class MCPClient {
    * @returns Whether the connection was successful.
    */
   static async connect(name: string, config: ServerConfig): Promise<void> {
-    const context = SillyTavern.getContext();
-    const response = await fetch(`/api/plugins/${PLUGIN_ID}/servers/${name}/start`, {
-      method: 'POST',
-      headers: context.getRequestHeaders(),
-      body: JSON.stringify(config),
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error || response.statusText);
+    this.#cancelReconnect(name);
+    try {
+      await this.#transportFor(name).startServer(name, config);
+    } catch (error) {
+      this.#setStatus(name, { state: 'failed', lastError: (error as Error).message, attempts: 0 });
+      throw error;
     }
 
     this.#connectedServers.set(name, config);
+    this.#setStatus(name, { state: 'connected', attempts: 0 });
+    clearResultCache(name);
+    // Resources are re-fetched lazily after each connection
+    this.#serverResources.delete(name);
+    this.#serverResourceTemplates.delete(name);
     console.log(`[MCPClient] Connected to server "${name}"`);
+
+    // Prompts are fetched eagerly so slash command autocomplete has them
+    try {
+      await this.#fetchPrompts(name);
+    } catch (error) {
+      console.error(`[MCPClient] Error fetching prompts for server "${name}":`, error);
+    }
   }
 
   /**
@@ -204,16 +946,8 @@ export class MCPClient {
    * @returns Whether the disconnection was successful.
    */
   static async disconnect(name: string): Promise<void> {
-    const context = SillyTavern.getContext();
-    const response = await fetch(`/api/plugins/${PLUGIN_ID}/servers/${name}/stop`, {
-      method: 'POST',
-      headers: context.getRequestHeaders(),
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error || response.statusText);
-    }
+    this.#forgetStatus(name);
+    await this.#transportFor(name).stopServer(name);
 
     this.#connectedServers.delete(name);
     console.log(`[MCPClient] Disconnected from server "${name}"`);
@@ -227,15 +961,16 @@ export class MCPClient {
    * @param serverName The name of the server to unregister tools for.
    */
   static #unregisterServerTools(serverName: string): void {
-    const context = SillyTavern.getContext();
     const tools = this.#serverTools.get(serverName) || [];
 
     for (const tool of tools) {
-      const toolId = `mcp_${serverName}_${tool.name}`;
-      context.unregisterFunctionTool(toolId);
+      this.#unregisterMcpTool(serverName, tool.name);
     }
 
     this.#serverTools.delete(serverName);
+    this.#serverResources.delete(serverName);
+    this.#serverResourceTemplates.delete(serverName);
+    this.#serverPrompts.delete(serverName);
     console.log(`[MCPClient] Unregistered all tools for server "${serverName}"`);
   }
 
@@ -245,21 +980,14 @@ export class MCPClient {
    * @returns Whether the deletion was successful.
    */
   static async deleteServer(name: string): Promise<void> {
-    const context = SillyTavern.getContext();
     // First disconnect if connected
     if (this.isConnected(name)) {
       await this.disconnect(name);
     }
+    this.#forgetStatus(name);
 
-    const response = await fetch(`/api/plugins/${PLUGIN_ID}/servers/${encodeURIComponent(name)}`, {
-      method: 'DELETE',
-      headers: context.getRequestHeaders(),
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error || response.statusText);
-    }
+    await this.#transportFor(name).deleteServer(name);
+    forgetOAuthState(name);
 
     console.log(`[MCPClient] Deleted server "${name}"`);
   }
@@ -279,21 +1007,18 @@ export class MCPClient {
    */
   static async updateDisabledServers(disabledServers: string[]): Promise<void> {
     const context = SillyTavern.getContext();
-    const response = await fetch(`/api/plugins/${PLUGIN_ID}/servers/disabled`, {
-      method: 'POST',
-      headers: context.getRequestHeaders(),
-      body: JSON.stringify({
-        disabledServers,
-      }),
-    });
+    const allServers = await this.getServers();
+
+    // Direct servers keep their state locally, the plugin only knows its own servers
+    if (allServers.some((server) => isDirectServer(server.name))) {
+      await this.#directTransport.setDisabledServers(disabledServers.filter((name) => isDirectServer(name)));
+    }
 
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error || response.statusText);
+    if (allServers.some((server) => !isDirectServer(server.name))) {
+      await this.#transport.setDisabledServers(disabledServers.filter((name) => !isDirectServer(name)));
     }
 
     // Handle server connections based on their new state
-    const allServers = await this.getServers();
     for (const server of allServers) {
       try {
         const isDisabled = disabledServers.includes(server.name);
@@ -303,6 +1028,8 @@ export class MCPClient {
         if (!shouldBeConnected && isConnected) {
           // Disconnect if server should be disabled
           await this.disconnect(server.name);
+        } else if (!shouldBeConnected) {
+          this.#forgetStatus(server.name);
         } else if (shouldBeConnected && !isConnected) {
           // Connect if server should be enabled
           await this.connect(server.name, server.config);
@@ -356,6 +1083,11 @@ export class MCPClient {
       }
     } else {
       // When disabling, disconnect servers and unregister tools
+      for (const serverName of this.#serverStatus.keys()) {
+        if (!this.isConnected(serverName)) {
+          this.#forgetStatus(serverName);
+        }
+      }
       const connectedServers = this.getConnectedServers();
       for (const serverName of connectedServers) {
         try {
@@ -402,6 +1134,90 @@ export class MCPClient {
     }
   }
 
+  /**
+   * Gets the resources for a specific server.
+   * @param serverName The name of the server to get resources for.
+   * @returns Array of resources for the server. Empty if the server does not expose any.
+   */
+  static async getServerResources(serverName: string): Promise<McpResource[]> {
+    if (!this.#serverResources.has(serverName)) {
+      try {
+        await this.#fetchResources(serverName);
+      } catch (error) {
+        return [];
+      }
+    }
+    return this.#serverResources.get(serverName) || [];
+  }
+
+  /**
+   * Gets the resource templates for a specific server.
+   * @param serverName The name of the server to get resource templates for.
+   * @returns Array of resource templates for the server. Empty if the server does not expose any.
+   */
+  static async getServerResourceTemplates(serverName: string): Promise<McpResourceTemplate[]> {
+    if (!this.#serverResourceTemplates.has(serverName)) {
+      try {
+        await this.#fetchResources(serverName);
+      } catch (error) {
+        return [];
+      }
+    }
+    return this.#serverResourceTemplates.get(serverName) || [];
+  }
+
+  /**
+   * Reads a resource from an MCP server.
+   * @param serverName The name of the server to read the resource from.
+   * @param uri The URI of the resource.
+   * @returns The contents of the resource.
+   */
+  static async readResource(serverName: string, uri: string): Promise<McpResourceContents[]> {
+    if (!this.isConnected(serverName)) {
+      throw new Error(`MCP server "${serverName}" is not connected.`);
+    }
+
+    return await this.#transportFor(serverName).readResource(serverName, uri);
+  }
+
+  /**
+   * Gets the cached tools of a server without asking the server.
+   * @param serverName The name of the server.
+   * @returns The tools, empty if they were not fetched yet.
+   */
+  static getCachedTools(serverName: string): McpTool[] {
+    return this.#serverTools.get(serverName) || [];
+  }
+
+  /**
+   * Gets the cached prompts for a specific server.
+   * Prompts are fetched when the server connects.
+   * @param serverName The name of the server to get prompts for.
+   * @returns Array of prompts for the server. Empty if the server does not expose any.
+   */
+  static getServerPrompts(serverName: string): McpPrompt[] {
+    return this.#serverPrompts.get(serverName) || [];
+  }
+
+  /**
+   * Gets a prompt from an MCP server.
+   * @param serverName The name of the server to get the prompt from.
+   * @param promptName The name of the prompt.
+   * @param args The arguments to fill the prompt with.
+   * @returns The prompt messages.
+   */
+  static async getPrompt(
+    serverName: string,
+    promptName: string,
+    args: Record<string, string>,
+  ): Promise<McpPromptResult> {
+    if (!this.isConnected(serverName)) {
+      throw new Error(`MCP server "${serverName}" is not connected.`);
+    }
+
+    return await this.#transportFor(serverName).getPrompt(serverName, promptName, args);
+  }
+
   /**
    * Updates the list of disabled tools for a server
    * @param serverName The name of the server
@@ -410,18 +1226,7 @@ export class MCPClient {
    */
   static async updateDisabledTools(serverName: string, disabledTools: string[]): Promise<void> {
     const context = SillyTavern.getContext();
-    const response = await fetch(`/api/plugins/${PLUGIN_ID}/servers/${serverName}/disabled-tools`, {
-      method: 'POST',
-      headers: context.getRequestHeaders(),
-      body: JSON.stringify({
-        disabledTools,
-      }),
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error || response.statusText);
-    }
+    await this.#transportFor(serverName).setDisabledTools(serverName, disabledTools);
 
     // Update the tools' states in our cache
     const tools = this.#serverTools.get(serverName);
@@ -430,12 +1235,15 @@ export class MCPClient {
         const wasEnabled = tool._enabled;
         tool._enabled = !disabledTools.includes(tool.name);
 
-        // If MCP is enabled, handle tool registration
-        if (context.extensionSettings.mcp?.enabled && this.isConnected(serverName)) {
-          const toolId = `mcp_${serverName}_${tool.name}`;
+        // If MCP is enabled, handle tool registration of tools in scope
+        if (
+          context.extensionSettings.mcp?.enabled &&
+          this.isConnected(serverName) &&
+          this.#isAllowed(serverName, tool)
+        ) {
           if (wasEnabled && !tool._enabled) {
             // Tool was enabled but now disabled - unregister it
-            context.unregisterFunctionTool(toolId);
+            this.#unregisterMcpTool(serverName, tool.name);
           } else if (!wasEnabled && tool._enabled) {
             // Tool was disabled but now enabled - register it
             this.#registerMcpTool(serverName, tool);
@@ -445,36 +1253,445 @@ export class MCPClient {
     }
   }
 
+  /**
+   * Enables or disables a server, keeping the state of the other servers.
+   * @param name The name of the server.
+   * @param enabled Whether the server should be enabled.
+   */
+  static async setServerEnabled(name: string, enabled: boolean): Promise<void> {
+    const servers = await this.getServers();
+    if (!servers.some((server) => server.name === name)) {
+      throw new Error(`Server "${name}" not found.`);
+    }
+
+    const disabledServers = servers
+      .filter((server) => (server.name === name ? !enabled : !server.enabled))
+      .map((server) => server.name);
+    await this.updateDisabledServers(disabledServers);
+  }
+
+  /**
+   * Enables or disables a tool of a server, keeping the state of its other tools.
+   * @param serverName The name of the server.
+   * @param toolName The name of the tool.
+   * @param enabled Whether the tool should be enabled.
+   */
+  static async setToolEnabled(serverName: string, toolName: string, enabled: boolean): Promise<void> {
+    const tools = await this.getServerTools(serverName);
+    if (!tools?.some((tool) => tool.name === toolName)) {
+      throw new Error(`Tool "${toolName}" not found on MCP server "${serverName}".`);
+    }
+
+    const disabledTools = tools
+      .filter((tool) => (tool.name === toolName ? !enabled : !tool._enabled))
+      .map((tool) => tool.name);
+    await this.updateDisabledTools(serverName, disabledTools);
+  }
+
+  /**
+   * Applies the enabled state of many servers and tools at once, like when switching tool profiles.
+   * Tools are updated first, so servers that get enabled register the new tool states right away.
+   * If a step fails, the previous states are restored, so no half-applied state is left behind.
+   * @param states The disabled servers, undefined to keep them, and the disabled tools of each server that changes.
+   * @throws An error naming the server that failed, and the servers that could not be restored.
+   */
+  static async applyToolStates(states: {
+    disabledServers?: string[];
+    disabledTools: Record<string, string[]>;
+  }): Promise<void> {
+    const previousDisabledServers = (await this.getServers())
+      .filter((server) => !server.enabled)
+      .map((server) => server.name);
+    const previousDisabledTools: Record<string, string[]> = {};
+
+    try {
+      for (const [serverName, disabledTools] of Object.entries(states.disabledTools)) {
+        const tools = await this.getServerTools(serverName);
+        if (tools) {
+          previousDisabledTools[serverName] = tools.filter((tool) => !tool._enabled).map((tool) => tool.name);
+        }
+        try {
+          await this.updateDisabledTools(serverName, disabledTools);
+        } catch (error) {
+          throw new Error(`Failed to update the tools of server "${serverName}": ${(error as Error).message}`);
+        }
+      }
+      if (states.disabledServers) {
+        try {
+          await this.updateDisabledServers(states.disabledServers);
+        } catch (error) {
+          throw new Error(`Failed to update the enabled servers: ${(error as Error).message}`);
+        }
+      }
+    } catch (error) {
+      const unrestored: string[] = [];
+      if (states.disabledServers) {
+        await this.updateDisabledServers(previousDisabledServers).catch((restoreError) => {
+          console.error('[MCPClient] Could not restore the enabled servers:', restoreError);
+          unrestored.push('the enabled servers');
+        });
+      }
+      for (const [serverName, disabledTools] of Object.entries(previousDisabledTools)) {
+        await this.updateDisabledTools(serverName, disabledTools).catch((restoreError) => {
+          console.error(`[MCPClient] Could not restore the tools of server "${serverName}":`, restoreError);
+          unrestored.push(`the tools of server "${serverName}"`);
+        });
+      }
+      throw new Error(
+        `${(error as Error).message.replace(/\.?$/, '.')} ` +
+          (unrestored.length > 0
+            ? `Could not restore ${unrestored.join(', ')}.`
+            : 'The previous states were restored.'),
+      );
+    }
+  }
+
   /**
    * Calls a tool on an MCP server.
    * @param serverName The name of the server to call the tool on.
    * @param toolName The name of the tool to call.
    * @param args The arguments to pass to the tool.
+   * @param options Cancellation, progress and caching of the call. The configured timeout applies in any case.
    * @returns The result of the tool call.
    */
-  static async callTool(serverName: string, toolName: string, args: any): Promise<any> {
-    const context = SillyTavern.getContext();
+  static async callTool(serverName: string, toolName: string, args: any, options: ToolCallOptions = {}): Promise<any> {
+    const startedAt = Date.now();
+    const annotations = this.#serverTools.get(serverName)?.find((tool) => tool.name === toolName)?.annotations;
+    const cacheTtl = getCacheTtl(serverName, toolName, annotations);
+    const cacheKey = buildCacheKey(serverName, toolName, args);
+    if (cacheTtl > 0 && !options.bypassCache) {
+      const cached = getCachedResult(cacheKey);
+      if (cached !== undefined) {
+        console.log(`[MCPClient] Using the cached result of tool "${toolName}" on server "${serverName}"`);
+        this.#notifyToolCall({ serverName, toolName, args, result: cached, startedAt, durationMs: 0, cached: true });
+        return cached;
+      }
+    }
+
+    const controller = new AbortController();
+    const call: ActiveToolCall = { id: this.#nextCallId++, serverName, toolName, startedAt };
+
+    const timeoutSeconds = getToolTimeout(serverName, toolName);
+    const timer =
+      timeoutSeconds > 0
+        ? setTimeout(() => {
+            controller.abort(
+              new Error(`Tool "${toolName}" on server "${serverName}" timed out after ${timeoutSeconds} seconds.`),
+            );
+          }, timeoutSeconds * 1000)
+        : undefined;
+    const forwardAbort = () => controller.abort(options.signal!.reason);
+    if (options.signal?.aborted) {
+      forwardAbort();
+    }
+    options.signal?.addEventListener('abort', forwardAbort, { once: true });
+
+    this.#activeCalls.set(call.id, { call, controller });
+    this.#notifyActiveCalls();
+
+    try {
+      const result = await this.#callTool(serverName, toolName, args, {
+        signal: controller.signal,
+        onProgress: (progress) => {
+          call.progress = progress;
+          this.#notifyActiveCalls();
+          options.onProgress?.(progress);
+        },
+      });
+      const durationMs = Date.now() - startedAt;
+      if (result?.isError) {
+        this.#notifyToolCall({ serverName, toolName, args, error: result, startedAt, durationMs });
+      } else {
+        this.#notifyToolCall({ serverName, toolName, args, result, startedAt, durationMs });
+        // Tools that may change the server state make its cached results stale
+        if (!annotations?.readOnlyHint) {
+          clearResultCache(serverName);
+        }
+        if (cacheTtl > 0) {
+          cacheResult(cacheKey, serverName, result, cacheTtl);
+        }
+      }
+      return result;
+    } catch (error) {
+      this.#notifyToolCall({
+        serverName,
+        toolName,
+        args,
+        error: error instanceof JsonError ? error.data : String(error),
+        startedAt,
+        durationMs: Date.now() - startedAt,
+      });
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', forwardAbort);
+      this.#activeCalls.delete(call.id);
+      this.#notifyActiveCalls();
+    }
+  }
+
+  static async #callTool(serverName: string, toolName: string, args: any, options: ToolCallOptions): Promise<any> {
     if (!this.isConnected(serverName)) {
+      if (this.#serverStatus.get(serverName)?.state === 'reconnecting') {
+        throw new Error(`MCP server "${serverName}" lost its connection and is reconnecting.`);
+      }
       throw new Error(`MCP server "${serverName}" is not connected.`);
     }
 
-    const response = await fetch(`/api/plugins/${PLUGIN_ID}/servers/${serverName}/call-tool`, {
-      method: 'POST',
-      body: JSON.stringify({
-        toolName,
-        arguments: args,
-      }),
-      headers: context.getRequestHeaders(),
+    const signal = options.signal!;
+    signal.throwIfAborted();
+    // Settles when the call is aborted, even if the transport keeps waiting for the server
+    const aborted = new Promise<never>((_, reject) => {
+      signal.addEventListener('abort', () => reject(signal.reason), { once: true });
     });
 
-    if (!response.ok) {
-      const resp = await response.json();
-      throw new JsonError(resp.data || resp.error || response.statusText);
+    let result: any;
+    try {
+      result = await Promise.race([
+        this.#transportFor(serverName).callTool(serverName, toolName, args, options),
+        aborted,
+      ]);
+    } catch (error) {
+      if (signal.aborted) {
+        console.log(`[MCPClient] Tool call "${toolName}" on server "${serverName}" was aborted:`, signal.reason);
+        throw signal.reason;
+      }
+      // Tell a dropped connection apart from a failing tool
+      if (!(await this.checkServerHealth(serverName, true))) {
+        throw new Error(
+          `MCP server "${serverName}" lost its connection (${(error as Error).message}). Reconnecting in the background.`,
+        );
+      }
+      throw error;
+    }
+    console.log(`[MCPClient] Successfully called tool "${toolName}" on server "${serverName}":`, result);
+    return result;
+  }
+
+  /**
+   * Gets the tool calls that are running.
+   */
+  static getActiveToolCalls(): ActiveToolCall[] {
+    return Array.from(this.#activeCalls.values(), ({ call }) => call);
+  }
+
+  /**
+   * Cancels a running tool call. The call fails with a cancellation error.
+   * @param id The id of the active call.
+   */
+  static cancelToolCall(id: number): void {
+    this.#activeCalls.get(id)?.controller.abort(new Error('The user cancelled the tool call.'));
+  }
+
+  /**
+   * Adds a listener that is notified when tool calls start, report progress or finish.
+   * @param listener The listener to add.
+   */
+  static addActiveToolCallListener(listener: ActiveToolCallListener): void {
+    this.#activeCallListeners.push(listener);
+  }
+
+  static #notifyActiveCalls(): void {
+    const calls = this.getActiveToolCalls();
+    for (const listener of this.#activeCallListeners) {
+      try {
+        listener(calls);
+      } catch (error) {
+        console.error('[MCPClient] Error in active tool call listener:', error);
+      }
+    }
+  }
+
+  /**
+   * Takes the images returned by model requested tool calls since the last call.
+   * @returns The pending images.
+   */
+  static takePendingImages(): ToolResultImage[] {
+    return this.#pendingImages.splice(0);
+  }
+
+  /**
+   * Gets the connection status of a server.
+   * @param name The name of the server.
+   * @returns The status, or undefined if the server is not meant to be connected.
+   */
+  static getServerStatus(name: string): ServerStatus | undefined {
+    return this.#serverStatus.get(name);
+  }
+
+  /**
+   * Adds a listener that is notified when the connection status of a server changes.
+   * @param listener The listener to add.
+   */
+  static addServerStatusListener(listener: ServerStatusListener): void {
+    this.#statusListeners.push(listener);
+  }
+
+  static #setStatus(name: string, status: ServerStatus | undefined): void {
+    if (status) {
+      this.#serverStatus.set(name, status);
+    } else {
+      this.#serverStatus.delete(name);
+    }
+    for (const listener of this.#statusListeners) {
+      try {
+        listener(name, status);
+      } catch (error) {
+        console.error('[MCPClient] Error in server status listener:', error);
+      }
+    }
+  }
+
+  /**
+   * Checks that a connected server still responds. A server that doesn't is reconnected in the background.
+   * @param name The name of the server to check.
+   * @param thorough Whether to use a slower check that also finds servers whose process crashed.
+   * @returns Whether the server is healthy.
+   */
+  static async checkServerHealth(name: string, thorough = false): Promise<boolean> {
+    if (!this.isConnected(name)) {
+      return false;
+    }
+
+    try {
+      await this.#transportFor(name).ping(name, thorough);
+      return true;
+    } catch (error) {
+      // The server may have been disconnected on purpose while the ping was running
+      if (this.isConnected(name)) {
+        this.#handleConnectionLost(name, error as Error);
+      }
+      return false;
+    }
+  }
+
+  /**
+   * Checks all connected servers.
+   */
+  static async checkHealth(): Promise<void> {
+    await Promise.all(this.getConnectedServers().map((name) => this.checkServerHealth(name)));
+  }
+
+  /**
+   * Checks the connected servers periodically. Replaces the previous schedule.
+   * @param intervalMs The time between checks. 0 stops the checks.
+   */
+  static startHealthChecks(intervalMs: number): void {
+    this.stopHealthChecks();
+    if (intervalMs > 0) {
+      this.#healthCheckTimer = setInterval(() => {
+        this.checkHealth().catch((error) => console.error('[MCPClient] Error checking server health:', error));
+      }, intervalMs);
+    }
+  }
+
+  static stopHealthChecks(): void {
+    if (this.#healthCheckTimer) {
+      clearInterval(this.#healthCheckTimer);
+      this.#healthCheckTimer = null;
+    }
+  }
+
+  /**
+   * Unregisters the tools of a server that stopped responding and starts reconnecting it.
+   */
+  static #handleConnectionLost(name: string, error: Error): void {
+    console.warn(`[MCPClient] Lost connection to server "${name}":`, error);
+    const config = this.#connectedServers.get(name)!;
+    this.#connectedServers.delete(name);
+    this.#unregisterServerTools(name);
+
+    // Let the transport clean up what is left of the connection
+    this.#transportFor(name)
+      .stopServer(name)
+      .catch(() => {});
+
+    this.#scheduleReconnect(name, config, { state: 'reconnecting', lastError: error.message, attempts: 0 });
+  }
+
+  /**
+   * Schedules the next reconnection attempt with exponential backoff, or gives up after too many attempts.
+   */
+  static #scheduleReconnect(name: string, config: ServerConfig, status: ServerStatus): void {
+    if (status.attempts >= MAX_RECONNECT_ATTEMPTS) {
+      console.warn(`[MCPClient] Gave up reconnecting to server "${name}"`);
+      this.#setStatus(name, { ...status, state: 'failed', nextAttemptAt: undefined });
+      return;
+    }
+
+    const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** status.attempts, RECONNECT_MAX_DELAY_MS);
+    this.#setStatus(name, { ...status, state: 'reconnecting', nextAttemptAt: Date.now() + delay });
+    this.#reconnectTimers.set(
+      name,
+      setTimeout(() => {
+        this.#reconnectTimers.delete(name);
+        this.#reconnect(name, config, status.attempts + 1);
+      }, delay),
+    );
+  }
+
+  static async #reconnect(name: string, config: ServerConfig, attempts: number): Promise<void> {
+    console.log(`[MCPClient] Reconnecting to server "${name}", attempt ${attempts}`);
+    try {
+      await this.#transportFor(name).startServer(name, config);
+      // Connected again by the user while the attempt was running
+      if (this.isConnected(name)) return;
+      // Disconnected on purpose while the attempt was running
+      if (this.#serverStatus.get(name)?.state !== 'reconnecting') {
+        await this.#transportFor(name).stopServer(name);
+        return;
+      }
+
+      this.#connectedServers.set(name, config);
+      await this.#fetchTools(name);
+      this.registerTools(name);
+      this.#fetchPrompts(name).catch((error) => {
+        console.error(`[MCPClient] Error fetching prompts for server "${name}":`, error);
+      });
+      this.#setStatus(name, { state: 'connected', attempts: 0 });
+      console.log(`[MCPClient] Reconnected to server "${name}"`);
+    } catch (error) {
+      if (this.#serverStatus.get(name)?.state !== 'reconnecting') return;
+      this.#connectedServers.delete(name);
+      this.#unregisterServerTools(name);
+      this.#scheduleReconnect(name, config, { state: 'reconnecting', lastError: (error as Error).message, attempts });
+    }
+  }
+
+  static #cancelReconnect(name: string): void {
+    const timer = this.#reconnectTimers.get(name);
+    if (timer) {
+      clearTimeout(timer);
+      this.#reconnectTimers.delete(name);
+    }
+  }
+
+  /**
+   * Stops reconnecting a server and clears its status, for servers that should not be connected.
+   */
+  static #forgetStatus(name: string): void {
+    this.#cancelReconnect(name);
+    if (this.#serverStatus.has(name)) {
+      this.#setStatus(name, undefined);
     }
+  }
+
+  /**
+   * Adds a listener that is notified after every tool call, successful or not.
+   * @param listener The listener to add.
+   */
+  static addToolCallListener(listener: ToolCallListener): void {
+    this.#toolCallListeners.push(listener);
+  }
 
-    const data = await response.json();
-    console.log(`[MCPClient] Successfully called tool "${toolName}" on server "${serverName}":`, data.result);
-    return data.result;
+  static #notifyToolCall(record: ToolCallRecord): void {
+    for (const listener of this.#toolCallListeners) {
+      try {
+        listener(record);
+      } catch (error) {
+        console.error('[MCPClient] Error in tool call listener:', error);
+      }
+    }
   }
 
   /**
@@ -483,29 +1700,16 @@ export class MCPClient {
    * @returns Whether all servers were reloaded successfully.
    */
   static async reloadAllTools(): Promise<void> {
-    const context = SillyTavern.getContext();
     const connectedServers = await this.getServers();
     const errors: Error[] = [];
 
     for (const server of connectedServers) {
       const { name: serverName } = server;
       try {
-        // Request server to reload its tools
-        const response = await fetch(`/api/plugins/${PLUGIN_ID}/servers/${serverName}/reload-tools`, {
-          method: 'POST',
-          headers: context.getRequestHeaders(),
-        });
+        // Direct servers are asked for their tools again, which requires a connection
+        if (isDirectServer(serverName) && !this.isConnected(serverName)) continue;
 
-        if (!response.ok) {
-          const error = await response.json();
-          throw new Error(error.error || response.statusText);
-        }
-
-        // Re-fetch tools for this server
-        await this.#fetchTools(serverName);
-        // Re-register tools
-        this.registerTools(serverName);
-        console.log(`[MCPClient] Successfully reloaded tools for server "${serverName}"`);
+        await this.reloadServerTools(serverName);
       } catch (error) {
         errors.push(error instanceof Error ? error : new Error(String(error)));
       }
@@ -516,20 +1720,36 @@ export class MCPClient {
     }
   }
 
+  /**
+   * Reloads the tools, resources and prompts of one MCP server and registers its tools again.
+   * @param serverName The name of the server.
+   */
+  static async reloadServerTools(serverName: string): Promise<void> {
+    if (isDirectServer(serverName) && !this.isConnected(serverName)) {
+      throw new Error(`MCP server "${serverName}" is not connected.`);
+    }
+
+    // Request server to reload its tools
+    const transport = this.#transportFor(serverName);
+    await transport.reloadTools(serverName);
+
+    // Re-fetch tools and resources for this server
+    const tools = await transport.listTools(serverName);
+    await this.#fetchResources(serverName);
+    await this.#fetchPrompts(serverName);
+    // Replace the registrations of the old tool list
+    this.#replaceTools(serverName, tools);
+    console.log(`[MCPClient] Successfully reloaded tools for server "${serverName}"`);
+  }
+
   /**
    * Opens the server settings UI.
    * @returns Whether the settings were opened successfully.
    */
   static async openServerSettings(): Promise<void> {
-    const context = SillyTavern.getContext();
-    const response = await fetch(`/api/plugins/${PLUGIN_ID}/open-settings`, {
-      method: 'POST',
-      headers: context.getRequestHeaders(),
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error || response.statusText);
+    if (!this.#transport.openSettings) {
+      throw new Error('The server settings can not be opened.');
     }
+    await this.#transport.openSettings();
   }
 }
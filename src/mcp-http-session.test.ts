@@ -0,0 +1,265 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { McpHttpSession, readEventStream } from './mcp-http-session.js';
+
+interface FakeRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: any;
+}
+
+/** Requests the fake server received */
+let requests: FakeRequest[];
+/** Answers requests like the remote MCP server would */
+let handle: (request: FakeRequest) => Response | Promise<Response>;
+let sessions: McpHttpSession[];
+
+const encoder = new TextEncoder();
+
+function json(data: any, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(data), { headers: { 'content-type': 'application/json', ...headers } });
+}
+
+function sse(text: string): Response {
+  return new Response(text, { headers: { 'content-type': 'text/event-stream' } });
+}
+
+function accepted(): Response {
+  return new Response(null, { status: 202 });
+}
+
+/**
+ * A stream the test writes server-sent events to while it is open.
+ */
+function openStream() {
+  let controller!: ReadableStreamDefaultController<Uint8Array>;
+  const stream = new ReadableStream<Uint8Array>({
+    start: (c) => {
+      controller = c;
+    },
+  });
+  return {
+    response: new Response(stream, { headers: { 'content-type': 'text/event-stream' } }),
+    write: (text: string) => controller.enqueue(encoder.encode(text)),
+  };
+}
+
+function streamOf(...chunks: string[]): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    start: (controller) => {
+      chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+}
+
+async function collect(stream: ReadableStream<Uint8Array>) {
+  const events = [];
+  for await (const event of readEventStream(stream)) {
+    events.push(event);
+  }
+  return events;
+}
+
+function createSession(url: string, type: 'sse' | 'streamableHttp'): McpHttpSession {
+  const session = new McpHttpSession(url, type);
+  sessions.push(session);
+  return session;
+}
+
+/**
+ * The result of `initialize`, which every session sends first. Undefined for other requests.
+ */
+function handshake(request: FakeRequest): any {
+  if (request.body?.method === 'initialize') {
+    return { protocolVersion: '2025-06-18', capabilities: { tools: {} } };
+  }
+  return undefined;
+}
+
+beforeEach(() => {
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  requests = [];
+  sessions = [];
+  (globalThis as any).fetch = jest.fn(async (url: string, init: RequestInit) => {
+    const request: FakeRequest = {
+      method: init.method!,
+      url,
+      headers: init.headers as Record<string, string>,
+      body: init.body ? JSON.parse(init.body as string) : undefined,
+    };
+    requests.push(request);
+    return await handle(request);
+  });
+});
+
+afterEach(async () => {
+  for (const session of sessions) {
+    await session.close();
+  }
+  jest.restoreAllMocks();
+});
+
+describe('readEventStream', () => {
+  it('parses events split across chunks', async () => {
+    const events = await collect(
+      streamOf('event: endpoint\r\ndata: /mess', 'ages\r\n\r\n', ': keep-alive\n\nid: 7\ndata: {"a":1}\n\n'),
+    );
+
+    expect(events).toEqual([
+      { event: 'endpoint', data: '/messages' },
+      { event: 'message', data: '{"a":1}' },
+    ]);
+  });
+
+  it('joins data lines and ignores unfinished events', async () => {
+    expect(await collect(streamOf('data: first\ndata:second\n\ndata: cut off'))).toEqual([
+      { event: 'message', data: 'first\nsecond' },
+    ]);
+  });
+});
+
+describe('Streamable HTTP', () => {
+  beforeEach(() => {
+    handle = (request) => {
+      if (request.method === 'GET') return new Response(null, { status: 405 });
+      if (request.method === 'DELETE') return accepted();
+      if (request.body.id === undefined) return accepted();
+      if (request.body.method === 'initialize') {
+        return json({ jsonrpc: '2.0', id: request.body.id, result: handshake(request) }, { 'mcp-session-id': 'abc' });
+      }
+      return json({ jsonrpc: '2.0', id: request.body.id, result: { tools: [] } });
+    };
+  });
+
+  it('initializes and sends the session headers with later requests', async () => {
+    const session = createSession('http://mcp.test/mcp', 'streamableHttp');
+
+    await session.connect();
+    await expect(session.request('tools/list')).resolves.toEqual({ tools: [] });
+
+    expect(session.serverCapabilities).toEqual({ tools: {} });
+    const list = requests.find((request) => request.body?.method === 'tools/list')!;
+    expect(list.headers).toMatchObject({ 'Mcp-Session-Id': 'abc', 'MCP-Protocol-Version': '2025-06-18' });
+  });
+
+  it('reads progress and the result from an event stream response', async () => {
+    const session = createSession('http://mcp.test/mcp', 'streamableHttp');
+    await session.connect();
+    handle = (request) =>
+      sse(
+        `data: {"jsonrpc":"2.0","method":"notifications/progress","params":{"progressToken":${request.body.id},"progress":1}}\n\n` +
+          `data: {"jsonrpc":"2.0","id":${request.body.id},"result":{"content":[]}}\n\n`,
+      );
+    const progress: any[] = [];
+
+    const result = await session.request('tools/call', { name: 'search' }, { onProgress: (p) => progress.push(p) });
+
+    expect(result).toEqual({ content: [] });
+    expect(progress).toEqual([{ progressToken: 2, progress: 1 }]);
+    expect(requests.at(-1)!.body.params._meta).toEqual({ progressToken: 2 });
+  });
+
+  it('skips events that are not valid JSON', async () => {
+    const session = createSession('http://mcp.test/mcp', 'streamableHttp');
+    await session.connect();
+    handle = (request) => sse(`data: {oops\n\ndata: {"jsonrpc":"2.0","id":${request.body.id},"result":{}}\n\n`);
+
+    await expect(session.request('ping')).resolves.toEqual({});
+    expect(console.warn).toHaveBeenCalledWith(
+      '[MCPClient] Skipping a server event that is not valid JSON:',
+      '{oops',
+      expect.any(SyntaxError),
+    );
+  });
+
+  it('rejects with the error of the server', async () => {
+    const session = createSession('http://mcp.test/mcp', 'streamableHttp');
+    await session.connect();
+    handle = (request) => json({ jsonrpc: '2.0', id: request.body.id, error: { code: -32602, message: 'Bad tool' } });
+
+    await expect(session.request('tools/call')).rejects.toThrow('Bad tool');
+  });
+
+  it('fails requests the server does not answer', async () => {
+    const session = createSession('http://mcp.test/mcp', 'streamableHttp');
+    await session.connect();
+    handle = () => accepted();
+
+    await expect(session.request('tools/list')).rejects.toThrow('Server did not respond to "tools/list"');
+  });
+});
+
+describe('legacy HTTP+SSE', () => {
+  let stream: ReturnType<typeof openStream>;
+
+  /**
+   * Answers requests on the event stream, like a legacy SSE server.
+   */
+  function answer(request: FakeRequest, result: any = handshake(request) ?? {}): Response {
+    if (request.body.id !== undefined) {
+      stream.write(`event: message\ndata: ${JSON.stringify({ jsonrpc: '2.0', id: request.body.id, result })}\n\n`);
+    }
+    return accepted();
+  }
+
+  beforeEach(() => {
+    stream = openStream();
+    handle = (request) => {
+      if (request.method === 'GET') {
+        stream.write('event: endpoint\ndata: /messages?session=1\n\n');
+        return stream.response;
+      }
+      return answer(request);
+    };
+  });
+
+  it('posts to the announced endpoint and reads the answers from the stream', async () => {
+    const session = createSession('http://mcp.test/sse', 'sse');
+
+    await session.connect();
+    await expect(session.request('tools/list')).resolves.toEqual({});
+
+    expect(requests.map((request) => `${request.method} ${request.url}`)).toEqual([
+      'GET http://mcp.test/sse',
+      'POST http://mcp.test/messages?session=1',
+      'POST http://mcp.test/messages?session=1',
+      'POST http://mcp.test/messages?session=1',
+    ]);
+  });
+
+  it('keeps reading the stream after an event that is not valid JSON', async () => {
+    const session = createSession('http://mcp.test/sse', 'sse');
+    await session.connect();
+
+    stream.write('event: message\ndata: {"jsonrpc":"2.0",\n\n');
+    handle = (request) => answer(request, { tools: [{ name: 'search' }] });
+
+    await expect(session.request('tools/list')).resolves.toEqual({ tools: [{ name: 'search' }] });
+    expect(console.warn).toHaveBeenCalledWith(
+      '[MCPClient] Skipping a server event that is not valid JSON:',
+      '{"jsonrpc":"2.0",',
+      expect.any(SyntaxError),
+    );
+  });
+
+  it('passes notifications from the stream on', async () => {
+    const session = createSession('http://mcp.test/sse', 'sse');
+    const notifications: string[] = [];
+    session.onNotification = (method) => notifications.push(method);
+    await session.connect();
+
+    stream.write('event: message\ndata: {"jsonrpc":"2.0","method":"notifications/tools/list_changed"}\n\n');
+    await session.request('ping');
+
+    expect(notifications).toEqual(['notifications/tools/list_changed']);
+  });
+
+  it('fails if the server does not announce its endpoint', async () => {
+    handle = () => sse('event: message\ndata: {}\n\n');
+
+    await expect(createSession('http://mcp.test/sse', 'sse').connect()).rejects.toThrow(
+      'SSE server did not announce its message endpoint',
+    );
+  });
+});
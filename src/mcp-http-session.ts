@@ -0,0 +1,369 @@
+import { JsonError } from './json-error.js';
+
+const PROTOCOL_VERSION = '2025-06-18';
+const CLIENT_INFO = { name: 'SillyTavern-MCP-Client', version: '1.0.0' };
+
+interface JsonRpcMessage {
+  jsonrpc: '2.0';
+  id?: number | string;
+  method?: string;
+  params?: any;
+  result?: any;
+  error?: { code: number; message: string; data?: any };
+}
+
+export interface RequestOptions {
+  /** Aborts the request and sends `notifications/cancelled` to the server */
+  signal?: AbortSignal;
+  /** Asks the server for `notifications/progress` updates and receives their params */
+  onProgress?: (progress: any) => void;
+}
+
+interface ServerSentEvent {
+  event: string;
+  data: string;
+}
+
+/**
+ * Parses a `text/event-stream` body into events.
+ * @param body The response body stream.
+ */
+export async function* readEventStream(body: ReadableStream<Uint8Array>): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let event = 'message';
+  let data: string[] = [];
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let lineEnd: number;
+      while ((lineEnd = buffer.indexOf('\n')) !== -1) {
+        const line = buffer.slice(0, lineEnd).replace(/\r$/, '');
+        buffer = buffer.slice(lineEnd + 1);
+
+        if (line === '') {
+          if (data.length > 0) {
+            yield { event, data: data.join('\n') };
+          }
+          event = 'message';
+          data = [];
+        } else if (line.startsWith('event:')) {
+          event = line.slice(6).trim();
+        } else if (line.startsWith('data:')) {
+          data.push(line.slice(5).replace(/^ /, ''));
+        }
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * A JSON-RPC MCP session that talks to a remote server straight from the browser,
+ * over Streamable HTTP or the legacy HTTP+SSE transport. The server must allow CORS.
+ */
+export class McpHttpSession {
+  #nextId = 1;
+  #pending: Map<number | string, { resolve: (result: any) => void; reject: (error: Error) => void }> = new Map();
+  /** Progress handlers keyed by progress token, which is the request id */
+  #progressHandlers: Map<number | string, (progress: any) => void> = new Map();
+  #sessionId?: string;
+  #protocolVersion?: string;
+  /** The POST endpoint announced by legacy SSE servers */
+  #postUrl?: string;
+  #abortController = new AbortController();
+
+  /** The capabilities the server announced during initialization */
+  serverCapabilities: Record<string, any> = {};
+  /** The capabilities the client announces during initialization */
+  clientCapabilities: Record<string, any> = {};
+  /** Called for notifications sent by the server */
+  onNotification?: (method: string, params: any) => void;
+  /** Called for requests sent by the server. The return value is sent back as the result. */
+  onRequest?: (method: string, params: any) => Promise<any>;
+  /**
+   * Provides the authorization headers of each request. Called again with `refresh` after a 401 response,
+   * and the request is retried once.
+   */
+  authorize?: (refresh: boolean) => Promise<Record<string, string>>;
+
+  constructor(
+    readonly url: string,
+    readonly type: 'sse' | 'streamableHttp',
+    readonly headers: Record<string, string> = {},
+  ) {}
+
+  /**
+   * Opens the connection and performs the MCP initialization handshake.
+   */
+  async connect(): Promise<void> {
+    if (this.type === 'sse') {
+      await this.#openSseStream();
+    }
+
+    const result = await this.request('initialize', {
+      protocolVersion: PROTOCOL_VERSION,
+      capabilities: this.clientCapabilities,
+      clientInfo: CLIENT_INFO,
+    });
+    this.#protocolVersion = result.protocolVersion;
+    this.serverCapabilities = result.capabilities ?? {};
+    await this.notify('notifications/initialized');
+
+    if (this.type === 'streamableHttp') {
+      this.#openListeningStream().catch((error) => console.warn('[MCPClient] Listening stream closed:', error));
+    }
+  }
+
+  /**
+   * Closes the connection and rejects all pending requests.
+   */
+  async close(): Promise<void> {
+    this.#abortController.abort();
+    for (const { reject } of this.#pending.values()) {
+      reject(new Error('Connection closed'));
+    }
+    this.#pending.clear();
+
+    if (this.type === 'streamableHttp' && this.#sessionId) {
+      try {
+        await fetch(this.url, { method: 'DELETE', headers: await this.#buildHeaders() });
+      } catch (error) {
+        // The session expires on the server anyway
+      }
+    }
+  }
+
+  /**
+   * Sends a request and waits for its result.
+   * @param method The JSON-RPC method.
+   * @param params The method parameters.
+   * @param options Cancellation and progress of the request.
+   */
+  async request(method: string, params?: any, options: RequestOptions = {}): Promise<any> {
+    const { signal, onProgress } = options;
+    signal?.throwIfAborted();
+
+    const id = this.#nextId++;
+    const result = new Promise<any>((resolve, reject) => this.#pending.set(id, { resolve, reject }));
+    // Aborted requests reject before they are awaited
+    result.catch(() => {});
+
+    if (onProgress) {
+      params = { ...params, _meta: { ...params?._meta, progressToken: id } };
+      this.#progressHandlers.set(id, onProgress);
+    }
+    const onAbort = () => {
+      const pending = this.#pending.get(id);
+      if (!pending) return;
+      this.#pending.delete(id);
+      pending.reject(signal!.reason);
+
+      const reason = signal!.reason instanceof Error ? signal!.reason.message : String(signal!.reason);
+      this.notify('notifications/cancelled', { requestId: id, reason }).catch((error) => {
+        console.warn('[MCPClient] Could not cancel the request:', error);
+      });
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      try {
+        await this.#send({ jsonrpc: '2.0', id, method, params }, signal);
+      } catch (error) {
+        // Aborted requests are rejected with the abort reason
+        if (!signal?.aborted) {
+          this.#pending.delete(id);
+          throw error;
+        }
+      }
+
+      // Streamable HTTP answers on the POST response, which is fully read at this point
+      if (this.type === 'streamableHttp' && this.#pending.has(id)) {
+        this.#pending.delete(id);
+        throw new Error(`Server did not respond to "${method}"`);
+      }
+
+      return await result;
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+      this.#progressHandlers.delete(id);
+    }
+  }
+
+  /**
+   * Sends a notification.
+   * @param method The JSON-RPC method.
+   * @param params The method parameters.
+   */
+  async notify(method: string, params?: any): Promise<void> {
+    await this.#send({ jsonrpc: '2.0', method, params });
+  }
+
+  async #buildHeaders(extra: Record<string, string> = {}, refresh = false): Promise<Record<string, string>> {
+    const authHeaders = this.authorize ? await this.authorize(refresh) : {};
+    const headers: Record<string, string> = { ...this.headers, ...authHeaders, ...extra };
+    if (this.#sessionId) {
+      headers['Mcp-Session-Id'] = this.#sessionId;
+    }
+    if (this.#protocolVersion) {
+      headers['MCP-Protocol-Version'] = this.#protocolVersion;
+    }
+    return headers;
+  }
+
+  /**
+   * Fetches with the session headers, retrying once with refreshed authorization after a 401 response.
+   */
+  async #fetch(
+    url: string,
+    init: RequestInit,
+    extraHeaders: Record<string, string>,
+    signal?: AbortSignal,
+  ): Promise<Response> {
+    const request = async (refresh: boolean) =>
+      await fetch(url, {
+        ...init,
+        headers: await this.#buildHeaders(extraHeaders, refresh),
+        signal: signal ? AbortSignal.any([this.#abortController.signal, signal]) : this.#abortController.signal,
+      });
+
+    const response = await request(false);
+    if (response.status === 401 && this.authorize) {
+      await response.body?.cancel();
+      return await request(true);
+    }
+    return response;
+  }
+
+  async #send(message: JsonRpcMessage, signal?: AbortSignal): Promise<void> {
+    const response = await this.#fetch(
+      this.#postUrl ?? this.url,
+      { method: 'POST', body: JSON.stringify(message) },
+      { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' },
+      signal,
+    );
+
+    if (!response.ok) {
+      throw new Error(`MCP server responded with ${response.status} ${response.statusText}`);
+    }
+
+    const sessionId = response.headers.get('mcp-session-id');
+    if (sessionId) {
+      this.#sessionId = sessionId;
+    }
+
+    const contentType = response.headers.get('content-type') || '';
+    if (contentType.includes('text/event-stream') && response.body) {
+      for await (const event of readEventStream(response.body)) {
+        this.#handleEvent(event);
+      }
+    } else if (contentType.includes('application/json')) {
+      this.#handleMessage(await response.json());
+    }
+  }
+
+  /**
+   * Opens the stream of a legacy SSE server and waits for its POST endpoint.
+   */
+  async #openSseStream(): Promise<void> {
+    const response = await this.#fetch(this.url, { method: 'GET' }, { Accept: 'text/event-stream' });
+    if (!response.ok || !response.body) {
+      throw new Error(`MCP server responded with ${response.status} ${response.statusText}`);
+    }
+
+    const events = readEventStream(response.body);
+    const first = await events.next();
+    if (first.done || first.value.event !== 'endpoint') {
+      throw new Error('SSE server did not announce its message endpoint');
+    }
+    this.#postUrl = new URL(first.value.data, this.url).toString();
+
+    (async () => {
+      for await (const event of events) {
+        if (event.event === 'message') {
+          this.#handleEvent(event);
+        }
+      }
+    })().catch((error) => console.warn('[MCPClient] SSE stream closed:', error));
+  }
+
+  /**
+   * Opens the optional stream a Streamable HTTP server uses for server initiated messages.
+   */
+  async #openListeningStream(): Promise<void> {
+    const response = await this.#fetch(this.url, { method: 'GET' }, { Accept: 'text/event-stream' });
+    // 405 means the server does not offer a listening stream
+    if (!response.ok || !response.body) {
+      return;
+    }
+
+    for await (const event of readEventStream(response.body)) {
+      this.#handleEvent(event);
+    }
+  }
+
+  /**
+   * Handles the JSON-RPC message of a stream event. Events that are not valid JSON are skipped,
+   * so one bad event does not end the stream and lose the messages after it.
+   */
+  #handleEvent(event: ServerSentEvent): void {
+    let message: JsonRpcMessage | JsonRpcMessage[];
+    try {
+      message = JSON.parse(event.data);
+    } catch (error) {
+      console.warn('[MCPClient] Skipping a server event that is not valid JSON:', event.data, error);
+      return;
+    }
+    this.#handleMessage(message);
+  }
+
+  #handleMessage(message: JsonRpcMessage | JsonRpcMessage[]): void {
+    if (Array.isArray(message)) {
+      message.forEach((item) => this.#handleMessage(item));
+      return;
+    }
+
+    if (message.method === undefined && message.id !== undefined) {
+      const pending = this.#pending.get(message.id);
+      if (!pending) return;
+      this.#pending.delete(message.id);
+
+      if (message.error) {
+        pending.reject(new JsonError({ error: message.error.message, ...message.error }));
+      } else {
+        pending.resolve(message.result);
+      }
+    } else if (message.method !== undefined && message.id !== undefined) {
+      this.#respond(message).catch((error) => console.error('[MCPClient] Error answering server request:', error));
+    } else if (
+      message.method === 'notifications/progress' &&
+      this.#progressHandlers.has(message.params?.progressToken)
+    ) {
+      this.#progressHandlers.get(message.params.progressToken)!(message.params);
+    } else if (message.method !== undefined) {
+      this.onNotification?.(message.method, message.params);
+    }
+  }
+
+  async #respond(message: JsonRpcMessage): Promise<void> {
+    try {
+      let result: any = {};
+      if (message.method !== 'ping') {
+        if (!this.onRequest) {
+          throw new JsonError({ error: `Method not found: ${message.method}`, code: -32601 });
+        }
+        result = await this.onRequest(message.method!, message.params);
+      }
+      await this.#send({ jsonrpc: '2.0', id: message.id, result });
+    } catch (error) {
+      const code = error instanceof JsonError && error.data.code ? error.data.code : -32603;
+      await this.#send({ jsonrpc: '2.0', id: message.id, error: { code, message: (error as Error).message } });
+    }
+  }
+}
@@ -0,0 +1,155 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { FakeTransport } from './test-utils/fake-transport.js';
+
+type PromptsModule = typeof import('./prompts.js');
+
+const summarize = {
+  name: 'summarize',
+  description: 'Summarizes a topic',
+  arguments: [
+    { name: 'topic', required: true },
+    { name: 'tone', required: false },
+  ],
+};
+
+let prompts: PromptsModule;
+let transport: FakeTransport;
+let sendChatMessage: jest.Mock<(text: string, role: string) => Promise<void>>;
+/** Props of the slash command registered with the fake parser */
+let command: any;
+
+/**
+ * Runs `/mcp-prompt` with the given unnamed arguments, like the parser splits them.
+ */
+async function runCommand(unnamedArgs: string[], namedArgs: Record<string, any> = {}): Promise<string> {
+  return await command.callback(namedArgs, unnamedArgs);
+}
+
+beforeEach(async () => {
+  jest.resetModules();
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+
+  sendChatMessage = jest.fn(async () => {});
+  jest.unstable_mockModule('sillytavern-utils-lib/config', () => ({
+    enumTypes: { name: 'name', enum: 'enum' },
+    sendChatMessage,
+    SlashCommandEnumValue: class {
+      constructor(
+        public value: string,
+        public description: string | null,
+        public type: string,
+      ) {}
+    },
+  }));
+
+  const fromProps = (props: any) => props;
+  const context = {
+    extensionSettings: { mcp: { enabled: true, directServers: {} } },
+    registerFunctionTool: jest.fn(),
+    unregisterFunctionTool: jest.fn(),
+    saveSettingsDebounced: jest.fn(),
+    SlashCommandParser: {
+      addCommandObject: (props: any) => {
+        command = props;
+      },
+    },
+    SlashCommand: { fromProps },
+    SlashCommandArgument: { fromProps },
+    SlashCommandNamedArgument: { fromProps },
+    ARGUMENT_TYPE: { STRING: 'string' },
+  };
+  (globalThis as any).SillyTavern = { getContext: () => context };
+
+  prompts = await import('./prompts.js');
+  const { MCPClient } = await import('./mcp-client.js');
+  transport = new FakeTransport();
+  MCPClient.setTransport(transport);
+  transport.addFakeServer('web', [], { prompts: [summarize] });
+  await MCPClient.handleTools(true);
+  prompts.registerPromptCommand();
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('parsePromptArguments', () => {
+  it('parses bare and quoted values', () => {
+    expect(prompts.parsePromptArguments(`topic="space travel" tone=casual note='a "b"'`)).toEqual({
+      topic: 'space travel',
+      tone: 'casual',
+      note: 'a "b"',
+    });
+  });
+
+  it('unescapes double quoted values', () => {
+    expect(prompts.parsePromptArguments('quote="say \\"hi\\"" path="C:\\\\temp"')).toEqual({
+      quote: 'say "hi"',
+      path: 'C:\\temp',
+    });
+  });
+
+  it('allows empty values and ignores text without a key', () => {
+    expect(prompts.parsePromptArguments('loose words empty= tone=dry')).toEqual({ empty: '', tone: 'dry' });
+    expect(prompts.parsePromptArguments('')).toEqual({});
+  });
+});
+
+describe('/mcp-prompt', () => {
+  it('inserts the prompt messages into the chat', async () => {
+    const text = await runCommand(['web', 'summarize', 'topic="space travel"']);
+
+    expect(text).toBe('summarize {"topic":"space travel"}');
+    expect(sendChatMessage).toHaveBeenCalledWith('summarize {"topic":"space travel"}', 'user');
+  });
+
+  it('inserts every message with its role and content as text', async () => {
+    jest.spyOn(transport, 'getPrompt').mockResolvedValue({
+      messages: [
+        { role: 'user', content: { type: 'resource', resource: { uri: 'file:///a.txt', text: 'Some notes' } } },
+        { role: 'assistant', content: { type: 'image', data: 'abc', mimeType: 'image/png' } },
+        { role: 'user', content: { type: 'resource', resource: { uri: 'file:///b.bin', blob: 'AAEC' } } },
+      ],
+    });
+
+    const text = await runCommand(['web', 'summarize', 'topic=mars']);
+
+    expect(text).toBe('Some notes\n\n[image: image/png]\n\n[Binary resource: file:///b.bin]');
+    expect(sendChatMessage.mock.calls).toEqual([
+      ['Some notes', 'user'],
+      ['[image: image/png]', 'assistant'],
+      ['[Binary resource: file:///b.bin]', 'user'],
+    ]);
+  });
+
+  it('puts the prompt into the input box in input mode', async () => {
+    const input = { val: jest.fn(() => input), trigger: jest.fn(() => input) };
+    (globalThis as any).$ = jest.fn(() => input);
+
+    await runCommand(['web', 'summarize', 'topic=mars tone=dry'], { mode: 'input' });
+
+    expect(input.val).toHaveBeenCalledWith('summarize {"topic":"mars","tone":"dry"}');
+    expect(sendChatMessage).not.toHaveBeenCalled();
+    delete (globalThis as any).$;
+  });
+
+  it('refuses prompts without their required arguments', async () => {
+    await expect(runCommand(['web', 'summarize', 'tone=dry'])).rejects.toThrow('Missing required arguments: topic');
+    await expect(runCommand(['web', 'summarize'])).rejects.toThrow('Missing required arguments: topic');
+    expect(transport.calls).not.toContain('getPrompt:web');
+  });
+
+  it('refuses unknown prompts and missing names', async () => {
+    await expect(runCommand(['web', 'translate'])).rejects.toThrow('Prompt "translate" not found on MCP server "web".');
+    await expect(runCommand(['web'])).rejects.toThrow('Usage: /mcp-prompt server prompt [arg=value ...]');
+  });
+
+  it('suggests the prompts of connected servers', () => {
+    const [, promptArgument] = command.unnamedArgumentList;
+
+    expect(promptArgument.enumProvider()).toEqual([
+      { value: 'summarize', description: 'web: Summarizes a topic', type: 'enum' },
+    ]);
+  });
+});
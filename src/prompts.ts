@@ -0,0 +1,128 @@
+import { enumTypes, sendChatMessage, SlashCommandEnumValue } from 'sillytavern-utils-lib/config';
+import { isDirectServer } from './direct-servers.js';
+import { MCPClient, McpPromptMessage } from './mcp-client.js';
+
+/**
+ * Parses `key=value` pairs. Values may be wrapped in single or double quotes.
+ * @param text The text to parse, e.g. `topic="space travel" tone=casual`
+ */
+export function parsePromptArguments(text: string): Record<string, string> {
+  const args: Record<string, string> = {};
+  const regex = /([^\s=]+)=(?:"((?:[^"\\]|\\.)*)"|'([^']*)'|(\S*))/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(text)) !== null) {
+    const [, key, doubleQuoted, singleQuoted, bare] = match;
+    args[key] = doubleQuoted !== undefined ? doubleQuoted.replace(/\\(.)/g, '$1') : (singleQuoted ?? bare);
+  }
+
+  return args;
+}
+
+function messageToText(message: McpPromptMessage): string {
+  const content = message.content;
+  switch (content.type) {
+    case 'text':
+      return content.text;
+    case 'resource':
+      return content.resource.text ?? `[Binary resource: ${content.resource.uri}]`;
+    default:
+      return `[${content.type}: ${content.mimeType}]`;
+  }
+}
+
+function getConnectedServerEnum(): SlashCommandEnumValue[] {
+  return MCPClient.getConnectedServers().map(
+    (serverName) => new SlashCommandEnumValue(serverName, null, enumTypes.name),
+  );
+}
+
+function getPromptEnum(): SlashCommandEnumValue[] {
+  return MCPClient.getConnectedServers().flatMap((serverName) =>
+    MCPClient.getServerPrompts(serverName).map(
+      (prompt) => new SlashCommandEnumValue(prompt.name, `${serverName}: ${prompt.description ?? ''}`, enumTypes.enum),
+    ),
+  );
+}
+
+/**
+ * Registers the `/mcp-prompt` slash command.
+ */
+export function registerPromptCommand(): void {
+  const context = SillyTavern.getContext();
+  const { SlashCommandParser, SlashCommand, SlashCommandArgument, SlashCommandNamedArgument, ARGUMENT_TYPE } = context;
+
+  SlashCommandParser.addCommandObject(
+    SlashCommand.fromProps({
+      name: 'mcp-prompt',
+      callback: async (namedArgs: Record<string, any>, unnamedArgs: string[]) => {
+        const [serverName, promptName, argsText] = unnamedArgs;
+        if (!serverName || !promptName) {
+          throw new Error('Usage: /mcp-prompt server prompt [arg=value ...]');
+        }
+
+        const prompt = MCPClient.getServerPrompts(serverName).find((p) => p.name === promptName);
+        if (!prompt) {
+          const hint = isDirectServer(serverName)
+            ? ''
+            : ' The MCP Server plugin does not forward prompts, add the server with "mode": "direct" to use them.';
+          throw new Error(`Prompt "${promptName}" not found on MCP server "${serverName}".${hint}`);
+        }
+
+        const args = parsePromptArguments(argsText ?? '');
+        const missing = (prompt.arguments ?? []).filter((arg) => arg.required && args[arg.name] === undefined);
+        if (missing.length > 0) {
+          throw new Error(`Missing required arguments: ${missing.map((arg) => arg.name).join(', ')}`);
+        }
+
+        const result = await MCPClient.getPrompt(serverName, promptName, args);
+        const texts = result.messages.map(messageToText);
+
+        if (namedArgs.mode === 'input') {
+          $('#send_textarea').val(texts.join('\n\n')).trigger('input');
+        } else {
+          for (let i = 0; i < result.messages.length; i++) {
+            await sendChatMessage(texts[i], result.messages[i].role);
+          }
+        }
+
+        return texts.join('\n\n');
+      },
+      returns: 'the text of the prompt messages',
+      namedArgumentList: [
+        SlashCommandNamedArgument.fromProps({
+          name: 'mode',
+          description: 'insert the messages into the chat, or put them into the input box for the next generation',
+          typeList: [ARGUMENT_TYPE.STRING],
+          defaultValue: 'insert',
+          enumList: ['insert', 'input'],
+        }),
+      ],
+      unnamedArgumentList: [
+        SlashCommandArgument.fromProps({
+          description: 'server name',
+          typeList: [ARGUMENT_TYPE.STRING],
+          isRequired: true,
+          enumProvider: getConnectedServerEnum,
+        }),
+        SlashCommandArgument.fromProps({
+          description: 'prompt name',
+          typeList: [ARGUMENT_TYPE.STRING],
+          isRequired: true,
+          enumProvider: getPromptEnum,
+        }),
+        SlashCommandArgument.fromProps({
+          description: 'prompt arguments as key=value pairs',
+          typeList: [ARGUMENT_TYPE.STRING],
+          isRequired: false,
+        }),
+      ],
+      splitUnnamedArgument: true,
+      splitUnnamedArgumentCount: 3,
+      helpString: `
+        <div>Gets a prompt from a connected MCP server and inserts its messages into the chat.</div>
+        <div><strong>Example:</strong> <pre><code>/mcp-prompt my-server summarize topic="space travel"</code></pre></div>
+      `,
+    }),
+  );
+}
@@ -0,0 +1,121 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { FakeTransport } from './test-utils/fake-transport.js';
+
+type ResourcesModule = typeof import('./resources.js');
+
+const readme = { server: 'web', uri: 'file:///readme.md', name: 'readme.md' };
+const logo = { server: 'web', uri: 'file:///logo.png', name: 'logo.png' };
+
+let resources: ResourcesModule;
+let transport: FakeTransport;
+let context: {
+  chatId?: string;
+  chatMetadata: Record<string, any>;
+  extensionSettings: Record<string, any>;
+  saveMetadataDebounced: jest.Mock<() => void>;
+  setExtensionPrompt: jest.Mock<(key: string, value: string, position: number, depth: number) => void>;
+  registerFunctionTool: jest.Mock<(tool: any) => void>;
+  unregisterFunctionTool: jest.Mock<(name: string) => void>;
+  saveSettingsDebounced: jest.Mock<() => void>;
+};
+
+beforeEach(async () => {
+  jest.resetModules();
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  jest.unstable_mockModule('sillytavern-utils-lib/config', () => ({ extension_prompt_types: { IN_PROMPT: 0 } }));
+
+  context = {
+    chatId: 'chat-1',
+    chatMetadata: {},
+    extensionSettings: { mcp: { enabled: true, directServers: {} } },
+    saveMetadataDebounced: jest.fn(),
+    setExtensionPrompt: jest.fn(),
+    registerFunctionTool: jest.fn(),
+    unregisterFunctionTool: jest.fn(),
+    saveSettingsDebounced: jest.fn(),
+  };
+  (globalThis as any).SillyTavern = { getContext: () => context };
+
+  resources = await import('./resources.js');
+  const { MCPClient } = await import('./mcp-client.js');
+  transport = new FakeTransport();
+  MCPClient.setTransport(transport);
+  transport.addFakeServer('web', [], {
+    resources: [
+      { uri: readme.uri, name: readme.name, mimeType: 'text/markdown' },
+      { uri: logo.uri, name: logo.name, mimeType: 'image/png' },
+    ],
+  });
+  transport.addFakeServer('files', [], { enabled: false });
+  await MCPClient.handleTools(true);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('pinning resources', () => {
+  it('pins each resource to the chat once', () => {
+    resources.pinResource(readme);
+    resources.pinResource(readme);
+
+    expect(resources.getPinnedResources()).toEqual([readme]);
+    expect(resources.isResourcePinned('web', readme.uri)).toBe(true);
+    expect(resources.isResourcePinned('files', readme.uri)).toBe(false);
+  });
+
+  it('unpins only the given resource', () => {
+    resources.pinResource(readme);
+    resources.pinResource(logo);
+
+    resources.unpinResource('web', readme.uri);
+
+    expect(resources.getPinnedResources()).toEqual([logo]);
+    expect(context.saveMetadataDebounced).toHaveBeenCalledTimes(3);
+  });
+
+  it('needs an open chat', () => {
+    context.chatId = undefined;
+
+    expect(() => resources.pinResource(readme)).toThrow('Open a chat before pinning resources.');
+    expect(resources.getPinnedResources()).toEqual([]);
+  });
+});
+
+describe('injectPinnedResources', () => {
+  it('adds the content of pinned resources to the prompt', async () => {
+    resources.pinResource(readme);
+    resources.pinResource({ server: 'files', uri: 'file:///notes.txt', name: 'notes.txt' });
+
+    await resources.injectPinnedResources();
+
+    expect(context.setExtensionPrompt).toHaveBeenCalledWith(
+      'mcp_resources',
+      '[MCP resource "readme.md" (file:///readme.md) from server "web"]\nreadme.md',
+      0,
+      0,
+    );
+    expect(transport.calls).not.toContain('readResource:files');
+  });
+
+  it('skips resources that can not be read', async () => {
+    resources.pinResource({ server: 'web', uri: 'file:///deleted.txt', name: 'deleted.txt' });
+    resources.pinResource(logo);
+
+    await resources.injectPinnedResources();
+
+    expect(context.setExtensionPrompt).toHaveBeenCalledWith(
+      'mcp_resources',
+      '[MCP resource "logo.png" (file:///logo.png) from server "web"]\nlogo.png',
+      0,
+      0,
+    );
+  });
+
+  it('clears the prompt if nothing is pinned', async () => {
+    await resources.injectPinnedResources();
+
+    expect(context.setExtensionPrompt).toHaveBeenCalledWith('mcp_resources', '', 0, 0);
+  });
+});
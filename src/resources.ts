@@ -0,0 +1,90 @@
+import { extension_prompt_types } from 'sillytavern-utils-lib/config';
+import { MCPClient, McpResourceContents } from './mcp-client.js';
+
+const PINNED_RESOURCES_KEY = 'mcp_pinned_resources';
+const RESOURCES_PROMPT_KEY = 'mcp_resources';
+
+export interface PinnedResource {
+  server: string;
+  uri: string;
+  name: string;
+}
+
+/**
+ * Gets the resources pinned to the current chat.
+ */
+export function getPinnedResources(): PinnedResource[] {
+  const context = SillyTavern.getContext();
+  const pinned = context.chatMetadata?.[PINNED_RESOURCES_KEY];
+  return Array.isArray(pinned) ? pinned : [];
+}
+
+/**
+ * Checks if a resource is pinned to the current chat.
+ */
+export function isResourcePinned(server: string, uri: string): boolean {
+  return getPinnedResources().some((resource) => resource.server === server && resource.uri === uri);
+}
+
+/**
+ * Pins a resource to the current chat so its content is added to the prompt.
+ */
+export function pinResource(resource: PinnedResource): void {
+  const context = SillyTavern.getContext();
+  if (!context.chatId) {
+    throw new Error('Open a chat before pinning resources.');
+  }
+
+  if (isResourcePinned(resource.server, resource.uri)) {
+    return;
+  }
+
+  context.chatMetadata[PINNED_RESOURCES_KEY] = [...getPinnedResources(), resource];
+  context.saveMetadataDebounced();
+}
+
+/**
+ * Removes a pinned resource from the current chat.
+ */
+export function unpinResource(server: string, uri: string): void {
+  const context = SillyTavern.getContext();
+  context.chatMetadata[PINNED_RESOURCES_KEY] = getPinnedResources().filter(
+    (resource) => resource.server !== server || resource.uri !== uri,
+  );
+  context.saveMetadataDebounced();
+}
+
+function formatContents(resource: PinnedResource, contents: McpResourceContents[]): string {
+  const parts = contents.map((content) => {
+    if (content.text !== undefined) {
+      return content.text;
+    }
+    return `[Binary content: ${content.mimeType || 'unknown type'}]`;
+  });
+
+  return `[MCP resource "${resource.name}" (${resource.uri}) from server "${resource.server}"]\n${parts.join('\n')}`;
+}
+
+/**
+ * Reads all pinned resources of the current chat and sets them as an extension prompt.
+ * Resources of disconnected servers are skipped.
+ */
+export async function injectPinnedResources(): Promise<void> {
+  const context = SillyTavern.getContext();
+  const blocks: string[] = [];
+
+  for (const resource of getPinnedResources()) {
+    if (!MCPClient.isConnected(resource.server)) {
+      continue;
+    }
+
+    try {
+      const contents = await MCPClient.readResource(resource.server, resource.uri);
+      blocks.push(formatContents(resource, contents));
+    } catch (error) {
+      console.error(`[MCPClient] Error reading resource "${resource.uri}" from server "${resource.server}":`, error);
+    }
+  }
+
+  context.setExtensionPrompt(RESOURCES_PROMPT_KEY, blocks.join('\n\n'), extension_prompt_types.IN_PROMPT, 0);
+}
@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+
+type ResultCacheModule = typeof import('./result-cache.js');
+
+let resultCache: ResultCacheModule;
+let context: { extensionSettings: Record<string, any>; saveSettingsDebounced: jest.Mock };
+
+beforeEach(async () => {
+  jest.resetModules();
+  context = {
+    extensionSettings: { mcp: { cacheTtl: 60, toolCacheTtls: {} } },
+    saveSettingsDebounced: jest.fn(),
+  };
+  (globalThis as any).SillyTavern = { getContext: () => context };
+
+  resultCache = await import('./result-cache.js');
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('getCacheTtl', () => {
+  it('only caches read-only tools by default', () => {
+    expect(resultCache.getCacheTtl('web', 'search', { readOnlyHint: true })).toBe(60);
+    expect(resultCache.getCacheTtl('web', 'put', { idempotentHint: true })).toBe(0);
+    expect(resultCache.getCacheTtl('web', 'post', { readOnlyHint: false })).toBe(0);
+    expect(resultCache.getCacheTtl('web', 'fetch')).toBe(0);
+  });
+
+  it('caches idempotent tools that have a tool TTL', () => {
+    resultCache.setToolCacheTtl('web', 'put', 60);
+
+    expect(resultCache.getCacheTtl('web', 'put', { idempotentHint: true })).toBe(60);
+  });
+
+  it('prefers the tool TTL over the annotations', () => {
+    resultCache.setToolCacheTtl('web', 'fetch', 600);
+    resultCache.setToolCacheTtl('web', 'search', 0);
+
+    expect(resultCache.getCacheTtl('web', 'fetch')).toBe(600);
+    expect(resultCache.getCacheTtl('web', 'search', { readOnlyHint: true })).toBe(0);
+
+    resultCache.setToolCacheTtl('web', 'fetch', undefined);
+    expect(resultCache.getCacheTtl('web', 'fetch')).toBe(0);
+  });
+});
+
+describe('buildCacheKey', () => {
+  it('ignores the order of arguments and undefined values', () => {
+    expect(resultCache.buildCacheKey('web', 'search', { q: 'a', options: { b: 1, a: [2, { y: 1, x: 0 }] } })).toBe(
+      resultCache.buildCacheKey('web', 'search', {
+        options: { a: [2, { x: 0, y: 1 }], b: 1 },
+        page: undefined,
+        q: 'a',
+      }),
+    );
+    expect(resultCache.buildCacheKey('web', 'search', { q: 'a' })).not.toBe(
+      resultCache.buildCacheKey('web', 'search', { q: 'b' }),
+    );
+    expect(resultCache.buildCacheKey('web', 'search', undefined)).toBe(resultCache.buildCacheKey('web', 'search', {}));
+  });
+});
+
+describe('cached results', () => {
+  it('expire after their TTL', () => {
+    jest.useFakeTimers();
+    resultCache.cacheResult('key', 'web', { content: [] }, 10);
+
+    jest.advanceTimersByTime(9000);
+    expect(resultCache.getCachedResult('key')).toEqual({ content: [] });
+    jest.advanceTimersByTime(1000);
+    expect(resultCache.getCachedResult('key')).toBeUndefined();
+  });
+
+  it('can be cleared per server', () => {
+    resultCache.cacheResult('a', 'web', 'A', 60);
+    resultCache.cacheResult('b', 'files', 'B', 60);
+
+    resultCache.clearResultCache('web');
+    expect(resultCache.getCachedResult('a')).toBeUndefined();
+    expect(resultCache.getCachedResult('b')).toBe('B');
+
+    resultCache.clearResultCache();
+    expect(resultCache.getCachedResult('b')).toBeUndefined();
+  });
+});
@@ -0,0 +1,113 @@
+import { McpToolAnnotations } from './mcp-client.js';
+import { getExtensionSettings } from './settings.js';
+
+/** Older entries are dropped first when the cache is full */
+const MAX_CACHE_ENTRIES = 200;
+
+interface CacheEntry {
+  serverName: string;
+  result: any;
+  expiresAt: number;
+}
+
+const cache = new Map<string, CacheEntry>();
+
+/**
+ * Gets how many seconds results of a tool are cached, 0 if they are not.
+ * Tool TTLs take priority. Without one, only tools the server marks as read-only are cached,
+ * for the default TTL. Idempotent tools may still change data, so they need a tool TTL.
+ * @param annotations The annotations the server sent for the tool.
+ */
+export function getCacheTtl(serverName: string, toolName: string, annotations?: McpToolAnnotations): number {
+  const settings = getExtensionSettings();
+  const toolTtl = settings.toolCacheTtls?.[serverName]?.[toolName];
+  if (toolTtl !== undefined) {
+    return toolTtl;
+  }
+  return annotations?.readOnlyHint ? (settings.cacheTtl ?? 0) : 0;
+}
+
+/**
+ * Sets the cache TTL of a tool.
+ * @param seconds The TTL, 0 to never cache, or undefined to decide by the tool annotations.
+ */
+export function setToolCacheTtl(serverName: string, toolName: string, seconds: number | undefined): void {
+  const context = SillyTavern.getContext();
+  const settings = getExtensionSettings();
+  if (seconds !== undefined) {
+    settings.toolCacheTtls[serverName] = { ...settings.toolCacheTtls[serverName], [toolName]: seconds };
+  } else if (settings.toolCacheTtls[serverName]) {
+    delete settings.toolCacheTtls[serverName][toolName];
+  }
+  context.saveSettingsDebounced();
+}
+
+/**
+ * Sorts object keys and drops undefined values, so equal arguments give equal keys.
+ */
+function normalizeValue(value: any): any {
+  if (Array.isArray(value)) {
+    return value.map(normalizeValue);
+  }
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+  const normalized: Record<string, any> = {};
+  for (const key of Object.keys(value).sort()) {
+    if (value[key] !== undefined) {
+      normalized[key] = normalizeValue(value[key]);
+    }
+  }
+  return normalized;
+}
+
+/**
+ * Builds the cache key of a tool call.
+ */
+export function buildCacheKey(serverName: string, toolName: string, args: any): string {
+  return JSON.stringify([serverName, toolName, normalizeValue(args ?? {})]);
+}
+
+/**
+ * Gets a cached result.
+ * @returns Undefined if the result is not cached or has expired.
+ */
+export function getCachedResult(key: string): any {
+  const entry = cache.get(key);
+  if (!entry) {
+    return undefined;
+  }
+  if (entry.expiresAt <= Date.now()) {
+    cache.delete(key);
+    return undefined;
+  }
+  return entry.result;
+}
+
+/**
+ * Caches a result.
+ * @param ttl Seconds until the result expires.
+ */
+export function cacheResult(key: string, serverName: string, result: any, ttl: number): void {
+  cache.delete(key);
+  cache.set(key, { serverName, result, expiresAt: Date.now() + ttl * 1000 });
+  while (cache.size > MAX_CACHE_ENTRIES) {
+    cache.delete(cache.keys().next().value!);
+  }
+}
+
+/**
+ * Removes cached results.
+ * @param serverName Only remove the results of this server.
+ */
+export function clearResultCache(serverName?: string): void {
+  if (serverName === undefined) {
+    cache.clear();
+    return;
+  }
+  for (const [key, entry] of cache) {
+    if (entry.serverName === serverName) {
+      cache.delete(key);
+    }
+  }
+}
@@ -0,0 +1,107 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+
+type ResultLimitsModule = typeof import('./result-limits.js');
+
+let resultLimits: ResultLimitsModule;
+let context: { extensionSettings: Record<string, any>; saveSettingsDebounced: jest.Mock };
+
+/** Counts words, which is close enough to tokens for these tests */
+const countTokens = async (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+function words(count: number): string {
+  return Array.from({ length: count }, (_, i) => `word${i}`).join(' ');
+}
+
+beforeEach(async () => {
+  jest.resetModules();
+  context = {
+    extensionSettings: { mcp: { resultTokenLimit: 8000, toolResultLimits: {} } },
+    saveSettingsDebounced: jest.fn(),
+  };
+  (globalThis as any).SillyTavern = { getContext: () => context };
+
+  resultLimits = await import('./result-limits.js');
+});
+
+describe('getResultTokenLimit', () => {
+  it('prefers the tool limit over the default limit', () => {
+    resultLimits.setToolResultLimit('web', 'fetch', 0);
+
+    expect(resultLimits.getResultTokenLimit('web', 'fetch')).toBe(0);
+    expect(resultLimits.getResultTokenLimit('web', 'search')).toBe(8000);
+
+    resultLimits.setToolResultLimit('web', 'fetch', undefined);
+    expect(resultLimits.getResultTokenLimit('web', 'fetch')).toBe(8000);
+  });
+});
+
+describe('limitToolResult', () => {
+  it('keeps results that fit', async () => {
+    const text = words(10);
+
+    expect(await resultLimits.limitToolResult(text, 10, { countTokens, strategy: 'truncate' })).toBe(text);
+    expect(await resultLimits.limitToolResult(text, 0, { countTokens, strategy: 'truncate' })).toBe(text);
+  });
+
+  it('truncates long text with a marker', async () => {
+    const limited = await resultLimits.limitToolResult(words(500), 100, { countTokens, strategy: 'truncate' });
+
+    expect(await countTokens(limited)).toBeLessThanOrEqual(100);
+    expect(limited.startsWith('word0 word1')).toBe(true);
+    expect(limited).toContain('[Truncated:');
+  });
+
+  it('keeps the first items of JSON arrays', async () => {
+    const items = Array.from({ length: 50 }, (_, i) => ({ title: `item ${i}` }));
+    const limited = await resultLimits.limitToolResult(JSON.stringify(items, null, 2), 30, {
+      countTokens,
+      strategy: 'truncate',
+    });
+
+    const [json, note] = limited.split('\n\n');
+    const kept = JSON.parse(json);
+    expect(kept.length).toBeGreaterThan(0);
+    expect(kept).toEqual(items.slice(0, kept.length));
+    expect(note).toContain('of 50 items');
+    expect(await countTokens(limited)).toBeLessThanOrEqual(30);
+  });
+
+  it('summarizes when asked to', async () => {
+    const summarize = jest.fn(async (text: string, limit: number) => 'short summary');
+    const limited = await resultLimits.limitToolResult(words(500), 100, {
+      countTokens,
+      strategy: 'summarize',
+      summarize,
+    });
+
+    expect(summarize).toHaveBeenCalledWith(words(500), 100);
+    expect(limited).toContain('short summary');
+    expect(limited).toContain('500 tokens');
+  });
+
+  it('cuts summaries that are still too long', async () => {
+    const limited = await resultLimits.limitToolResult(words(500), 50, {
+      countTokens,
+      strategy: 'summarize',
+      summarize: async () => words(200),
+    });
+
+    expect(await countTokens(limited)).toBeLessThanOrEqual(50);
+    expect(limited).toContain('[Summary of');
+    expect(limited).toContain('[Truncated:');
+  });
+
+  it('truncates when summarizing fails', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const limited = await resultLimits.limitToolResult(words(500), 100, {
+      countTokens,
+      strategy: 'summarize',
+      summarize: async () => {
+        throw new Error('No API connected');
+      },
+    });
+
+    expect(limited).toContain('[Truncated:');
+    expect(console.error).toHaveBeenCalled();
+  });
+});
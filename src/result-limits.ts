@@ -0,0 +1,166 @@
+import { getExtensionSettings } from './settings.js';
+
+export type ResultLimitStrategy = 'truncate' | 'summarize';
+
+export interface ResultLimitOptions {
+  /** Counts the tokens of a text with the tokenizer of the current model */
+  countTokens: (text: string) => Promise<number>;
+  strategy: ResultLimitStrategy;
+  /** Summarizes a result in about `limit` tokens. Required for the `summarize` strategy. */
+  summarize?: (text: string, limit: number) => Promise<string>;
+}
+
+const FULL_RESULT_HINT = 'The full result is in the MCP tool call history.';
+
+/**
+ * Gets the most tokens a result of a tool may take, 0 if results are not limited.
+ * Tool limits take priority over the default limit.
+ */
+export function getResultTokenLimit(serverName: string, toolName: string): number {
+  const settings = getExtensionSettings();
+  return settings.toolResultLimits?.[serverName]?.[toolName] ?? settings.resultTokenLimit ?? 0;
+}
+
+/**
+ * Sets the result token limit of a tool.
+ * @param tokens The limit, 0 for none, or undefined to use the default limit.
+ */
+export function setToolResultLimit(serverName: string, toolName: string, tokens: number | undefined): void {
+  const context = SillyTavern.getContext();
+  const settings = getExtensionSettings();
+  if (tokens !== undefined) {
+    settings.toolResultLimits[serverName] = { ...settings.toolResultLimits[serverName], [toolName]: tokens };
+  } else if (settings.toolResultLimits[serverName]) {
+    delete settings.toolResultLimits[serverName][toolName];
+  }
+  context.saveSettingsDebounced();
+}
+
+/**
+ * Finds the largest value in `[low, high]` that fits, or `low - 1` if none does.
+ * @param fits Must be true up to some value and false after it.
+ */
+async function findLargestFit(low: number, high: number, fits: (value: number) => Promise<boolean>): Promise<number> {
+  let best = low - 1;
+  while (low <= high) {
+    const middle = Math.floor((low + high) / 2);
+    if (await fits(middle)) {
+      best = middle;
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return best;
+}
+
+/**
+ * Cuts a text to the longest start that fits the limit together with a truncation marker.
+ */
+async function truncateText(text: string, limit: number, countTokens: ResultLimitOptions['countTokens']) {
+  const build = (length: number) =>
+    `${text.slice(0, length)}\n\n[Truncated: the result was too long and was cut here. ${FULL_RESULT_HINT}]`;
+  const length = await findLargestFit(0, text.length, async (value) => (await countTokens(build(value))) <= limit);
+  return build(Math.max(0, length));
+}
+
+/**
+ * Keeps the first items of a JSON array that fit the limit together with a note.
+ * @returns Undefined if not even one item fits.
+ */
+async function shrinkArray(items: any[], limit: number, countTokens: ResultLimitOptions['countTokens']) {
+  const build = (count: number) =>
+    `${JSON.stringify(items.slice(0, count))}\n\n[Showing the first ${count} of ${items.length} items. ${FULL_RESULT_HINT}]`;
+  const count = await findLargestFit(1, items.length - 1, async (value) => (await countTokens(build(value))) <= limit);
+  return count > 0 ? build(count) : undefined;
+}
+
+/**
+ * Parses a text as JSON if it is an array.
+ */
+function parseJsonArray(text: string): any[] | undefined {
+  const trimmed = text.trim();
+  if (!trimmed.startsWith('[')) {
+    return undefined;
+  }
+  try {
+    const value = JSON.parse(trimmed);
+    return Array.isArray(value) ? value : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Shortens a tool result to a token limit.
+ * JSON arrays keep their first items, other results are cut with a marker or summarized.
+ * @param text The text of the result.
+ * @param limit The most tokens the result may take, 0 for no limit.
+ * @param options How tokens are counted and results are shortened.
+ * @returns The result, unchanged if it fits.
+ */
+export async function limitToolResult(text: string, limit: number, options: ResultLimitOptions): Promise<string> {
+  if (limit <= 0) {
+    return text;
+  }
+  const tokens = await options.countTokens(text);
+  if (tokens <= limit) {
+    return text;
+  }
+
+  if (options.strategy === 'summarize' && options.summarize) {
+    try {
+      const summary = `[Summary of a result of ${tokens} tokens. ${FULL_RESULT_HINT}]\n\n${await options.summarize(text, limit)}`;
+      return (await options.countTokens(summary)) <= limit
+        ? summary
+        : await truncateText(summary, limit, options.countTokens);
+    } catch (error) {
+      console.error('[MCPClient] Error summarizing tool result, truncating it instead:', error);
+    }
+  }
+
+  const items = parseJsonArray(text);
+  if (items && items.length > 1) {
+    const shrunk = await shrinkArray(items, limit, options.countTokens);
+    if (shrunk !== undefined) {
+      return shrunk;
+    }
+  }
+  return await truncateText(text, limit, options.countTokens);
+}
+
+/**
+ * Asks the current model to summarize a tool result.
+ */
+async function summarizeWithModel(toolName: string, args: any, text: string, limit: number): Promise<string> {
+  const context = SillyTavern.getContext();
+  const summary = await context.generateRaw({
+    systemPrompt:
+      'You shorten tool results for another assistant. Keep every fact, name, number and link that is relevant to the call. ' +
+      'Answer with the shortened result only.',
+    prompt: `The tool "${toolName}" was called with the arguments ${JSON.stringify(args ?? {})}.\nShorten its result to at most ${limit} tokens.\n\nResult:\n${text}`,
+    responseLength: limit,
+  });
+  if (typeof summary !== 'string' || !summary.trim()) {
+    throw new Error('The model returned an empty summary.');
+  }
+  return summary.trim();
+}
+
+/**
+ * Applies the result token limit of a tool to a result before it is sent to the model.
+ * Tokens are counted with the tokenizer of the current model.
+ */
+export async function limitToolCallResult(serverName: string, toolName: string, args: any, text: string) {
+  const context = SillyTavern.getContext();
+  const limit = getResultTokenLimit(serverName, toolName);
+  const limited = await limitToolResult(text, limit, {
+    countTokens: (value) => context.getTokenCountAsync(value),
+    strategy: getExtensionSettings().resultLimitStrategy,
+    summarize: (value, tokens) => summarizeWithModel(toolName, args, value, tokens),
+  });
+  if (limited !== text) {
+    console.log(`[MCPClient] Shortened the result of tool "${toolName}" on server "${serverName}" to ${limit} tokens`);
+  }
+  return limited;
+}
@@ -0,0 +1,106 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+
+type SamplingModule = typeof import('./sampling.js');
+
+let sampling: SamplingModule;
+let context: { extensionSettings: Record<string, any>; saveSettingsDebounced: jest.Mock };
+
+beforeEach(async () => {
+  jest.resetModules();
+  context = {
+    extensionSettings: { mcp: { samplingTokenLimit: 1000, serverSamplingLimits: {} } },
+    saveSettingsDebounced: jest.fn(),
+  };
+  (globalThis as any).SillyTavern = { getContext: () => context };
+
+  sampling = await import('./sampling.js');
+});
+
+describe('sampling token limits', () => {
+  it('prefers the server limit over the default limit', () => {
+    sampling.setServerSamplingLimit('agent', 200);
+    expect(sampling.getSamplingTokenLimit('agent')).toBe(200);
+    expect(sampling.getSamplingTokenLimit('other')).toBe(1000);
+
+    sampling.setServerSamplingLimit('agent', undefined);
+    expect(sampling.getSamplingTokenLimit('agent')).toBe(1000);
+  });
+
+  it('caps the tokens a request asks for', () => {
+    const request = { messages: [], maxTokens: 500 };
+
+    expect(sampling.getSamplingMaxTokens(request, 200)).toBe(200);
+    expect(sampling.getSamplingMaxTokens(request, 1000)).toBe(500);
+    expect(sampling.getSamplingMaxTokens(request, 0)).toBe(500);
+  });
+});
+
+describe('toChatMessages', () => {
+  it('puts the system prompt first and replaces images with a placeholder', () => {
+    const messages = sampling.toChatMessages({
+      systemPrompt: 'You write commit messages.',
+      maxTokens: 100,
+      messages: [
+        { role: 'user', content: { type: 'text', text: 'Describe this diff' } },
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'And this screenshot' },
+            { type: 'image', data: 'AAAA', mimeType: 'image/png' },
+          ],
+        },
+        { role: 'assistant', content: { type: 'text', text: 'Fix typo' } },
+      ],
+    });
+
+    expect(messages).toEqual([
+      { role: 'system', content: 'You write commit messages.' },
+      { role: 'user', content: 'Describe this diff' },
+      { role: 'user', content: 'And this screenshot\n[Image: image/png]' },
+      { role: 'assistant', content: 'Fix typo' },
+    ]);
+  });
+});
+
+describe('pickSamplingProfile', () => {
+  const profiles = [
+    { id: '1', name: 'Default', model: 'gpt-4o' },
+    { id: '2', name: 'Claude', model: 'claude-3-5-sonnet-latest' },
+  ];
+
+  it('prefers a profile with a model the server hints at', () => {
+    const request = {
+      messages: [],
+      maxTokens: 100,
+      modelPreferences: { hints: [{ name: 'gemini' }, { name: 'Sonnet' }] },
+    };
+    expect(sampling.pickSamplingProfile(profiles, '1', request)?.id).toBe('2');
+  });
+
+  it('uses the selected profile without a matching hint', () => {
+    expect(sampling.pickSamplingProfile(profiles, '1', { messages: [], maxTokens: 100 })?.id).toBe('1');
+    expect(sampling.pickSamplingProfile(profiles, undefined, { messages: [], maxTokens: 100 })).toBeUndefined();
+  });
+});
+
+describe('getSamplingPayload', () => {
+  it('forwards the temperature and stop sequences', () => {
+    const request = { messages: [], maxTokens: 100, temperature: 0.2, stopSequences: ['\n\n', ''] };
+
+    expect(sampling.getSamplingPayload(request, 'cc')).toEqual({ temperature: 0.2, stop: ['\n\n'] });
+    expect(sampling.getSamplingPayload(request, 'tc')).toEqual({
+      temperature: 0.2,
+      stop: ['\n\n'],
+      stopping_strings: ['\n\n'],
+    });
+    expect(sampling.getSamplingPayload({ messages: [], maxTokens: 100 })).toEqual({});
+  });
+});
+
+describe('getStopReason', () => {
+  it('reports when the output hit the token limit', () => {
+    expect(sampling.getStopReason(100, 100)).toBe('maxTokens');
+    expect(sampling.getStopReason(40, 100)).toBe('endTurn');
+    expect(sampling.getStopReason(4000, 0)).toBe('endTurn');
+  });
+});
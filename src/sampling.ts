@@ -0,0 +1,157 @@
+import { getExtensionSettings } from './settings.js';
+
+type SamplingContent =
+  | { type: 'text'; text: string }
+  | { type: 'image' | 'audio'; data: string; mimeType: string }
+  | { type: string; [key: string]: any };
+
+/**
+ * The parameters of a `sampling/createMessage` request.
+ */
+export interface SamplingRequest {
+  messages: Array<{ role: 'user' | 'assistant'; content: SamplingContent | SamplingContent[] }>;
+  systemPrompt?: string;
+  maxTokens: number;
+  temperature?: number;
+  stopSequences?: string[];
+  modelPreferences?: {
+    /** Model names the server prefers, in order. A hint matches models whose name contains it. */
+    hints?: Array<{ name?: string }>;
+    costPriority?: number;
+    speedPriority?: number;
+    intelligencePriority?: number;
+  };
+}
+
+/**
+ * The fields of a connection profile sampling needs.
+ */
+export interface SamplingProfile {
+  id: string;
+  name?: string;
+  model?: string;
+  /** `cc` for chat completion, `tc` for text completion */
+  mode?: string;
+}
+
+export interface SamplingResult {
+  role: 'assistant';
+  content: { type: 'text'; text: string };
+  model: string;
+  stopReason: 'endTurn' | 'maxTokens';
+}
+
+/**
+ * Gets the most tokens a sampling request of a server may generate, 0 if there is no limit.
+ * Server limits take priority over the default limit.
+ */
+export function getSamplingTokenLimit(serverName: string): number {
+  const settings = getExtensionSettings();
+  return settings.serverSamplingLimits?.[serverName] ?? settings.samplingTokenLimit ?? 0;
+}
+
+/**
+ * Sets the sampling token limit of a server.
+ * @param tokens The limit, 0 for none, or undefined to use the default limit.
+ */
+export function setServerSamplingLimit(serverName: string, tokens: number | undefined): void {
+  const context = SillyTavern.getContext();
+  const settings = getExtensionSettings();
+  if (tokens !== undefined) {
+    settings.serverSamplingLimits[serverName] = tokens;
+  } else {
+    delete settings.serverSamplingLimits[serverName];
+  }
+  context.saveSettingsDebounced();
+}
+
+/**
+ * Gets how many tokens a sampling request may generate under a limit.
+ * @param request The request.
+ * @param limit The limit of the server, 0 for none.
+ */
+export function getSamplingMaxTokens(request: SamplingRequest, limit: number): number {
+  const requested = request.maxTokens > 0 ? request.maxTokens : limit;
+  return limit > 0 ? Math.min(requested, limit) : requested;
+}
+
+function contentToText(content: SamplingContent): string {
+  switch (content.type) {
+    case 'text':
+      return content.text;
+    case 'image':
+    case 'audio':
+      return `[${content.type === 'image' ? 'Image' : 'Audio'}: ${content.mimeType}]`;
+    default:
+      return `[Unsupported content: ${content.type}]`;
+  }
+}
+
+/**
+ * Turns the messages of a sampling request into chat completion messages.
+ * Images and audio are replaced by a placeholder, since they can not be sent through a connection profile.
+ */
+export function toChatMessages(request: SamplingRequest): Array<{ role: string; content: string }> {
+  const messages: Array<{ role: string; content: string }> = [];
+  if (request.systemPrompt) {
+    messages.push({ role: 'system', content: request.systemPrompt });
+  }
+  for (const message of request.messages ?? []) {
+    const parts = Array.isArray(message.content) ? message.content : [message.content];
+    messages.push({ role: message.role, content: parts.map(contentToText).join('\n') });
+  }
+  return messages;
+}
+
+/**
+ * Picks the connection profile that answers a sampling request.
+ * The first model hint of the server that matches the model of a profile wins, otherwise the selected profile is used.
+ * @param profiles The connection profiles.
+ * @param selectedId The ID of the selected profile.
+ * @param request The request.
+ */
+export function pickSamplingProfile(
+  profiles: SamplingProfile[],
+  selectedId: string | undefined,
+  request: SamplingRequest,
+): SamplingProfile | undefined {
+  for (const hint of request.modelPreferences?.hints ?? []) {
+    const name = hint?.name?.trim().toLowerCase();
+    if (!name) continue;
+    const profile = profiles.find((item) => item.model?.toLowerCase().includes(name));
+    if (profile) {
+      return profile;
+    }
+  }
+  return profiles.find((item) => item.id === selectedId);
+}
+
+/**
+ * Builds the generation parameters of a sampling request that override the connection profile.
+ * @param request The request.
+ * @param mode The mode of the connection profile, `tc` for text completion.
+ */
+export function getSamplingPayload(request: SamplingRequest, mode?: string): Record<string, any> {
+  const payload: Record<string, any> = {};
+  if (typeof request.temperature === 'number') {
+    payload.temperature = request.temperature;
+  }
+  const stopSequences = (request.stopSequences ?? []).filter((sequence) => typeof sequence === 'string' && sequence);
+  if (stopSequences.length > 0) {
+    payload.stop = stopSequences;
+    // Text completion backends read their stop strings from another field
+    if (mode === 'tc') {
+      payload.stopping_strings = stopSequences;
+    }
+  }
+  return payload;
+}
+
+/**
+ * Tells why the generation of a sampling request stopped.
+ * @param tokens The tokens of the generated text.
+ * @param maxTokens The most tokens the request could generate, 0 for no limit.
+ */
+export function getStopReason(tokens: number, maxTokens: number): SamplingResult['stopReason'] {
+  return maxTokens > 0 && tokens >= maxTokens ? 'maxTokens' : 'endTurn';
+}
@@ -0,0 +1,304 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  dropOmittedArguments,
+  getSchemaProfile,
+  inlineRefs,
+  registerSchemaProfile,
+  sanitizeSchema,
+  sanitizeToolDefinitions,
+} from './schema-sanitizers.js';
+
+/**
+ * A schema in the shape MCP servers built with pydantic or zod commonly emit.
+ */
+function serverSchema(): any {
+  return {
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    title: 'search_arguments',
+    type: 'object',
+    properties: {
+      query: { title: 'Query', type: 'string', format: 'uri', default: 'cats' },
+      limit: { type: ['integer', 'null'], exclusiveMinimum: 0 },
+      filter: { $ref: '#/$defs/Filter' },
+      mode: { const: 'fast' },
+    },
+    required: ['query'],
+    additionalProperties: false,
+    $defs: {
+      Filter: {
+        title: 'Filter',
+        type: 'object',
+        properties: { tags: { type: 'array', items: { type: 'string', title: 'Tag' } } },
+      },
+    },
+  };
+}
+
+describe('inlineRefs', () => {
+  it('replaces local references and drops the definitions', () => {
+    const schema = serverSchema();
+    inlineRefs(schema);
+
+    expect(schema.$defs).toBeUndefined();
+    expect(schema.properties.filter).toEqual(serverSchema().$defs.Filter);
+  });
+
+  it('keeps keywords next to a reference', () => {
+    const schema = {
+      properties: { a: { $ref: '#/definitions/A', description: 'The A' } },
+      definitions: { A: { type: 'string', description: 'Generic' } },
+    };
+    inlineRefs(schema);
+
+    expect(schema).toEqual({ properties: { a: { type: 'string', description: 'The A' } } });
+  });
+
+  it('cuts off recursive references', () => {
+    const schema = {
+      $ref: '#/$defs/Node',
+      $defs: { Node: { type: 'object', properties: { child: { $ref: '#/$defs/Node' } } } },
+    };
+    inlineRefs(schema);
+
+    let node: any = schema;
+    let depth = 0;
+    while (node.properties?.child) {
+      node = node.properties.child;
+      depth++;
+    }
+    expect(depth).toBeGreaterThan(0);
+    expect(node).toEqual({ type: 'object' });
+  });
+
+  it('turns unresolvable references into plain objects', () => {
+    const schema = { properties: { a: { $ref: 'https://example.com/a.json' } } };
+    inlineRefs(schema);
+
+    expect(schema.properties.a).toEqual({ type: 'object' });
+  });
+});
+
+describe('default profile', () => {
+  const profile = getSchemaProfile('openai');
+
+  it('is used for sources without a profile', () => {
+    expect(profile.name).toBe('default');
+    expect(getSchemaProfile('unknown-source').name).toBe('default');
+  });
+
+  it('only removes titles', () => {
+    const sanitized = sanitizeSchema(serverSchema(), profile);
+    const expected = serverSchema();
+    delete expected.title;
+    delete expected.properties.query.title;
+    delete expected.$defs.Filter.title;
+    delete expected.$defs.Filter.properties.tags.items.title;
+
+    expect(sanitized).toEqual(expected);
+  });
+
+  it('keeps properties named like keywords', () => {
+    const sanitized = sanitizeSchema({ type: 'object', properties: { title: { type: 'string' } } }, profile);
+
+    expect(sanitized.properties.title).toEqual({ type: 'string' });
+  });
+
+  it('does not modify the original schema', () => {
+    const schema = serverSchema();
+    sanitizeSchema(schema, profile);
+
+    expect(schema).toEqual(serverSchema());
+  });
+
+  it('fills in a missing schema', () => {
+    expect(sanitizeSchema(undefined, profile)).toEqual({ type: 'object', properties: {} });
+  });
+});
+
+describe('openai-strict profile', () => {
+  const profile = getSchemaProfile('openai', 'openai-strict');
+
+  it('sends tools in strict mode', () => {
+    expect(profile.strict).toBe(true);
+  });
+
+  it('requires every property and forbids additional properties on every object', () => {
+    const sanitized = sanitizeSchema(serverSchema(), profile);
+
+    expect(sanitized.required).toEqual(['query', 'limit', 'filter', 'mode']);
+    expect(sanitized.additionalProperties).toBe(false);
+    expect(sanitized.properties.filter.required).toEqual(['tags']);
+    expect(sanitized.properties.filter.additionalProperties).toBe(false);
+  });
+
+  it('makes optional properties nullable', () => {
+    const sanitized = sanitizeSchema(serverSchema(), profile);
+
+    expect(sanitized.properties.query.type).toBe('string');
+    expect(sanitized.properties.limit.type).toEqual(['integer', 'null']);
+    expect(sanitized.properties.filter.type).toEqual(['object', 'null']);
+    expect(sanitized.properties.mode).toEqual({ anyOf: [{ const: 'fast' }, { type: 'null' }] });
+  });
+
+  it('removes unsupported keywords', () => {
+    const sanitized = sanitizeSchema(serverSchema(), profile);
+
+    expect(sanitized.$schema).toBeUndefined();
+    expect(sanitized.$defs).toBeUndefined();
+    expect(sanitized.properties.query.default).toBeUndefined();
+  });
+});
+
+describe('gemini profile', () => {
+  const profile = getSchemaProfile('makersuite');
+
+  it('is used for Google AI Studio and Vertex AI', () => {
+    expect(profile.name).toBe('gemini');
+    expect(getSchemaProfile('vertexai').name).toBe('gemini');
+  });
+
+  it('removes keywords Gemini rejects', () => {
+    const sanitized = sanitizeSchema(serverSchema(), profile);
+
+    expect(sanitized.additionalProperties).toBeUndefined();
+    expect(sanitized.$schema).toBeUndefined();
+    expect(sanitized.properties.query).toEqual({ type: 'string' });
+    expect(sanitized.properties.limit.exclusiveMinimum).toBeUndefined();
+  });
+
+  it('converts type arrays and constants to the OpenAPI style', () => {
+    const sanitized = sanitizeSchema(serverSchema(), profile);
+
+    expect(sanitized.properties.limit).toEqual({ type: 'integer', nullable: true });
+    expect(sanitized.properties.mode).toEqual({ enum: ['fast'] });
+  });
+
+  it('keeps date-time formats', () => {
+    const sanitized = sanitizeSchema({ type: 'string', format: 'date-time' }, profile);
+
+    expect(sanitized.format).toBe('date-time');
+  });
+
+  it('adds a placeholder property to empty objects', () => {
+    const sanitized = sanitizeSchema({ type: 'object', properties: {} }, profile);
+
+    expect(Object.keys(sanitized.properties)).toEqual(['_dummy']);
+  });
+});
+
+describe('claude profile', () => {
+  const profile = getSchemaProfile('claude');
+
+  it('inlines references and keeps the rest of the schema', () => {
+    const sanitized = sanitizeSchema(serverSchema(), profile);
+
+    expect(sanitized.$defs).toBeUndefined();
+    expect(sanitized.properties.filter.type).toBe('object');
+    expect(sanitized.properties.query).toEqual({ type: 'string', format: 'uri', default: 'cats' });
+    expect(sanitized.properties.limit).toEqual({ type: ['integer', 'null'], exclusiveMinimum: 0 });
+    expect(sanitized.additionalProperties).toBe(false);
+  });
+
+  it('makes the root an object schema', () => {
+    expect(sanitizeSchema({ description: 'No arguments' }, profile)).toEqual({
+      description: 'No arguments',
+      type: 'object',
+      properties: {},
+    });
+  });
+});
+
+describe('mistral profile', () => {
+  const profile = getSchemaProfile('mistralai');
+
+  it('inlines references and removes defaults and meta keywords', () => {
+    const sanitized = sanitizeSchema(serverSchema(), profile);
+
+    expect(profile.name).toBe('mistral');
+    expect(sanitized.$schema).toBeUndefined();
+    expect(sanitized.$defs).toBeUndefined();
+    expect(sanitized.properties.query).toEqual({ type: 'string', format: 'uri' });
+    expect(sanitized.properties.filter.properties.tags.items).toEqual({ type: 'string' });
+  });
+});
+
+describe('local profile', () => {
+  const profile = getSchemaProfile('custom');
+
+  it('removes keywords grammar based backends can not handle', () => {
+    const sanitized = sanitizeSchema(
+      { type: 'object', properties: { id: { type: 'string', pattern: '^[a-z]+$', format: 'uuid' } } },
+      profile,
+    );
+
+    expect(profile.name).toBe('local');
+    expect(sanitized.properties.id).toEqual({ type: 'string' });
+  });
+
+  it('inlines references and converts constants', () => {
+    const sanitized = sanitizeSchema(serverSchema(), profile);
+
+    expect(sanitized.$defs).toBeUndefined();
+    expect(sanitized.properties.filter.type).toBe('object');
+    expect(sanitized.properties.mode).toEqual({ enum: ['fast'] });
+  });
+});
+
+describe('profile selection', () => {
+  it('prefers the profile selected in the settings', () => {
+    expect(getSchemaProfile('makersuite', 'claude').name).toBe('claude');
+  });
+
+  it('falls back to the default profile for unknown names', () => {
+    expect(getSchemaProfile('makersuite', 'missing').name).toBe('default');
+  });
+
+  it('uses registered profiles', () => {
+    registerSchemaProfile({ name: 'upper', label: 'Upper', transforms: [(schema) => (schema.type = 'OBJECT')] });
+
+    expect(sanitizeSchema({ type: 'object' }, getSchemaProfile('openai', 'upper'))).toEqual({ type: 'OBJECT' });
+  });
+});
+
+describe('sanitizeToolDefinitions', () => {
+  it('only applies the profile and strict mode to MCP tools', () => {
+    const tools = [
+      { type: 'function', function: { name: 'mcp_web_search', parameters: serverSchema() } },
+      { type: 'function', function: { name: 'generate_image', parameters: serverSchema() } },
+    ];
+
+    sanitizeToolDefinitions(tools, getSchemaProfile('openai', 'openai-strict'), (name) => name.startsWith('mcp_'));
+
+    const [mcpTool, otherTool] = tools.map((tool) => tool.function as any);
+    expect(mcpTool.strict).toBe(true);
+    expect(mcpTool.parameters.required).toEqual(['query', 'limit', 'filter', 'mode']);
+    expect(otherTool.strict).toBeUndefined();
+    expect(otherTool.parameters.required).toEqual(['query']);
+    expect(otherTool.parameters.properties.limit.type).toEqual(['integer', 'null']);
+    expect(otherTool.parameters.title).toBeUndefined();
+    expect(otherTool.parameters.properties.query).toEqual({ type: 'string', format: 'uri', default: 'cats' });
+  });
+});
+
+describe('dropOmittedArguments', () => {
+  const schema = {
+    type: 'object',
+    properties: {
+      query: { type: 'string' },
+      limit: { type: 'integer' },
+      filter: { type: 'object', properties: { tag: { type: 'string' } } },
+    },
+    required: ['query'],
+  };
+
+  it('drops null arguments the tool does not require', () => {
+    expect(dropOmittedArguments({ query: 'cats', limit: null, filter: { tag: null } }, schema)).toEqual({
+      query: 'cats',
+      filter: {},
+    });
+  });
+
+  it('keeps null for required arguments', () => {
+    expect(dropOmittedArguments({ query: null }, schema)).toEqual({ query: null });
+  });
+});
@@ -0,0 +1,379 @@
+/**
+ * Rewrites a tool parameter schema in place.
+ */
+export type SchemaTransform = (schema: any) => void;
+
+export interface SchemaProfile {
+  name: string;
+  label: string;
+  /** Applied in order to a copy of each tool's parameter schema */
+  transforms: SchemaTransform[];
+  /** Whether tools are sent with `strict: true` */
+  strict?: boolean;
+}
+
+/**
+ * The profile used for each chat completion source when the setting is `auto`.
+ * Sources missing here use the `default` profile.
+ */
+export const SOURCE_PROFILES: Record<string, string> = {
+  makersuite: 'gemini',
+  vertexai: 'gemini',
+  claude: 'claude',
+  mistralai: 'mistral',
+  custom: 'local',
+};
+
+const MAX_REF_DEPTH = 8;
+
+const COMBINATOR_KEYS = ['allOf', 'anyOf', 'oneOf'];
+
+/**
+ * Calls `visit` for a schema and every schema nested in it, parents first.
+ * @param schema The schema to walk.
+ * @param visit Called for each schema object.
+ */
+export function walkSchema(schema: any, visit: (schema: any) => void): void {
+  if (typeof schema !== 'object' || schema === null || Array.isArray(schema)) return;
+  visit(schema);
+
+  for (const key of ['properties', 'patternProperties', '$defs', 'definitions']) {
+    if (typeof schema[key] === 'object' && schema[key] !== null) {
+      Object.values(schema[key]).forEach((item) => walkSchema(item, visit));
+    }
+  }
+
+  // Process items for arrays
+  if (Array.isArray(schema.items)) {
+    schema.items.forEach((item: any) => walkSchema(item, visit));
+  } else {
+    walkSchema(schema.items, visit);
+  }
+  if (Array.isArray(schema.prefixItems)) {
+    schema.prefixItems.forEach((item: any) => walkSchema(item, visit));
+  }
+
+  walkSchema(schema.additionalProperties, visit);
+  walkSchema(schema.not, visit);
+
+  for (const key of COMBINATOR_KEYS) {
+    if (Array.isArray(schema[key])) {
+      schema[key].forEach((item: any) => walkSchema(item, visit));
+    }
+  }
+}
+
+/**
+ * Removes keywords from every level of a schema.
+ * Keys of `properties` are property names, not keywords, so they are kept.
+ * @param keys The keywords to remove.
+ */
+export function removeKeywords(...keys: string[]): SchemaTransform {
+  return (schema) =>
+    walkSchema(schema, (item) => {
+      for (const key of keys) {
+        delete item[key];
+      }
+    });
+}
+
+function resolvePointer(root: any, ref: string): any {
+  if (!ref.startsWith('#/')) return undefined;
+  return ref
+    .slice(2)
+    .split('/')
+    .map((part) => decodeURIComponent(part).replace(/~1/g, '/').replace(/~0/g, '~'))
+    .reduce((node, part) => (node === undefined || node === null ? undefined : node[part]), root);
+}
+
+/**
+ * Replaces local `$ref`s with the schemas they point to and removes `$defs` and `definitions`.
+ * Recursive references are cut off after a few levels and replaced with a plain object.
+ */
+export const inlineRefs: SchemaTransform = (schema) => {
+  if (typeof schema !== 'object' || schema === null) return;
+  const root = structuredClone(schema);
+
+  const inline = (node: any, depth: number): any => {
+    if (Array.isArray(node)) {
+      return node.map((item) => inline(item, depth));
+    }
+    if (typeof node !== 'object' || node === null) {
+      return node;
+    }
+
+    if (typeof node.$ref === 'string') {
+      const { $ref, ...rest } = node;
+      const target = resolvePointer(root, $ref);
+      if (target === undefined || depth >= MAX_REF_DEPTH) {
+        return { type: 'object', ...inline(rest, depth) };
+      }
+      return { ...inline(target, depth + 1), ...inline(rest, depth) };
+    }
+
+    const result: any = {};
+    for (const [key, value] of Object.entries(node)) {
+      if (key === '$defs' || key === 'definitions') continue;
+      result[key] = inline(value, depth);
+    }
+    return result;
+  };
+
+  const inlined = inline(root, 0);
+  for (const key of Object.keys(schema)) {
+    delete schema[key];
+  }
+  Object.assign(schema, inlined);
+};
+
+/**
+ * Makes sure the root is an object schema with a `properties` map.
+ */
+export const ensureObjectRoot: SchemaTransform = (schema) => {
+  if (typeof schema !== 'object' || schema === null) return;
+  schema.type = 'object';
+  schema.properties = schema.properties || {};
+};
+
+/**
+ * Adds a placeholder property to objects without properties, for providers that reject empty objects.
+ */
+export const fillEmptyObjects: SchemaTransform = (schema) =>
+  walkSchema(schema, (item) => {
+    if (item.type === 'object' && item.properties && Object.keys(item.properties).length === 0) {
+      item.properties = {
+        _dummy: {
+          type: 'string',
+          description: 'This is a placeholder property to satisfy MakerSuite requirements.',
+        },
+      };
+    }
+  });
+
+/**
+ * Replaces `const` with a single value `enum`.
+ */
+export const constToEnum: SchemaTransform = (schema) =>
+  walkSchema(schema, (item) => {
+    if ('const' in item) {
+      item.enum = [item.const];
+      delete item.const;
+    }
+  });
+
+/**
+ * Replaces `type: [x, "null"]` with `type: x` and `nullable: true`, the OpenAPI style Gemini understands.
+ */
+export const typeArraysToNullable: SchemaTransform = (schema) =>
+  walkSchema(schema, (item) => {
+    if (!Array.isArray(item.type)) return;
+    const types = item.type.filter((type: string) => type !== 'null');
+    if (types.length < item.type.length) {
+      item.nullable = true;
+    }
+    item.type = types[0] ?? 'string';
+  });
+
+/**
+ * Removes string formats the provider does not know.
+ * @param allowed The formats to keep.
+ */
+export function keepFormats(...allowed: string[]): SchemaTransform {
+  return (schema) =>
+    walkSchema(schema, (item) => {
+      if (item.format !== undefined && !allowed.includes(item.format)) {
+        delete item.format;
+      }
+    });
+}
+
+function makeNullable(schema: any): any {
+  if (Array.isArray(schema.type)) {
+    return schema.type.includes('null') ? schema : { ...schema, type: [...schema.type, 'null'] };
+  }
+  if (typeof schema.type === 'string') {
+    return schema.type === 'null' ? schema : { ...schema, type: [schema.type, 'null'] };
+  }
+  return { anyOf: [schema, { type: 'null' }] };
+}
+
+/**
+ * Applies the rules of OpenAI structured outputs: every object lists all of its properties as required and
+ * forbids additional properties. Properties that were optional become nullable.
+ */
+export const strictObjects: SchemaTransform = (schema) =>
+  walkSchema(schema, (item) => {
+    const isObject = item.type === 'object' || (Array.isArray(item.type) && item.type.includes('object'));
+    if (!isObject && !item.properties) return;
+    const properties = item.properties || {};
+    const required: string[] = Array.isArray(item.required) ? item.required : [];
+
+    for (const [name, property] of Object.entries(properties)) {
+      if (!required.includes(name)) {
+        properties[name] = makeNullable(property);
+      }
+    }
+
+    if (!isObject) {
+      item.type = 'object';
+    }
+    item.properties = properties;
+    item.required = Object.keys(properties);
+    item.additionalProperties = false;
+  });
+
+const profiles: Map<string, SchemaProfile> = new Map();
+
+/**
+ * Adds a sanitizer profile, replacing any profile with the same name.
+ * @param profile The profile to add.
+ */
+export function registerSchemaProfile(profile: SchemaProfile): void {
+  profiles.set(profile.name, profile);
+}
+
+/**
+ * Gets all registered sanitizer profiles.
+ */
+export function getSchemaProfiles(): SchemaProfile[] {
+  return Array.from(profiles.values());
+}
+
+/**
+ * Gets the profile to use for a chat completion source.
+ * @param source The chat completion source of the request.
+ * @param selected The profile selected in the settings, or `auto` to pick one by source.
+ */
+export function getSchemaProfile(source: string, selected: string = 'auto'): SchemaProfile {
+  const name = selected === 'auto' ? SOURCE_PROFILES[source] : selected;
+  return profiles.get(name) ?? profiles.get('default')!;
+}
+
+/**
+ * Returns a sanitized copy of a tool parameter schema.
+ * @param schema The parameter schema of the tool.
+ * @param profile The profile to apply.
+ */
+export function sanitizeSchema(schema: any, profile: SchemaProfile): any {
+  const copy = structuredClone(schema ?? { type: 'object', properties: {} });
+  for (const transform of profile.transforms) {
+    transform(copy);
+  }
+  return copy;
+}
+
+/**
+ * Sanitizes the tool definitions of a chat completion request in place.
+ * Tools of other extensions only get their `title` keywords removed: strict profiles make optional parameters
+ * required and nullable, and only MCP tools drop the resulting `null` arguments before calling.
+ * @param tools The tools of the request, in the OpenAI `{ type: 'function', function }` format.
+ * @param profile The profile to apply to MCP tools.
+ * @param isMcpTool Checks if a function name belongs to an MCP tool.
+ */
+export function sanitizeToolDefinitions(
+  tools: any[],
+  profile: SchemaProfile,
+  isMcpTool: (name: string) => boolean,
+): void {
+  const removeTitles = removeKeywords('title');
+  for (const tool of tools) {
+    if (!isMcpTool(tool.function.name)) {
+      removeTitles(tool.function.parameters);
+      continue;
+    }
+    tool.function.parameters = sanitizeSchema(tool.function.parameters, profile);
+    if (profile.strict) {
+      tool.function.strict = true;
+    }
+  }
+}
+
+/**
+ * Drops `null` arguments for parameters the original schema does not require.
+ * Strict profiles turn optional parameters into nullable ones, and servers expect them to be left out instead.
+ * @param args The arguments sent by the model.
+ * @param schema The original parameter schema of the tool.
+ */
+export function dropOmittedArguments(args: any, schema: any): any {
+  if (typeof args !== 'object' || args === null || Array.isArray(args)) return args;
+  const required: string[] = Array.isArray(schema?.required) ? schema.required : [];
+  const properties = schema?.properties ?? {};
+
+  const result: any = {};
+  for (const [name, value] of Object.entries(args)) {
+    if (value === null && !required.includes(name)) continue;
+    result[name] = properties[name] ? dropOmittedArguments(value, properties[name]) : value;
+  }
+  return result;
+}
+
+registerSchemaProfile({
+  name: 'default',
+  label: 'Default',
+  transforms: [removeKeywords('title')],
+});
+
+registerSchemaProfile({
+  name: 'openai-strict',
+  label: 'OpenAI (strict mode)',
+  transforms: [
+    inlineRefs,
+    removeKeywords('title', '$schema', '$id', '$comment', 'default', 'examples'),
+    ensureObjectRoot,
+    strictObjects,
+  ],
+  strict: true,
+});
+
+// Gemini only understands an OpenAPI subset of JSON schema and rejects empty objects
+registerSchemaProfile({
+  name: 'gemini',
+  label: 'Gemini',
+  transforms: [
+    inlineRefs,
+    removeKeywords(
+      'title',
+      '$schema',
+      '$id',
+      '$comment',
+      'additionalProperties',
+      'patternProperties',
+      'default',
+      'examples',
+      'exclusiveMinimum',
+      'exclusiveMaximum',
+    ),
+    constToEnum,
+    typeArraysToNullable,
+    keepFormats('enum', 'date-time'),
+    fillEmptyObjects,
+  ],
+});
+
+registerSchemaProfile({
+  name: 'claude',
+  label: 'Claude',
+  transforms: [inlineRefs, removeKeywords('title', '$schema', '$id', '$comment'), ensureObjectRoot],
+});
+
+registerSchemaProfile({
+  name: 'mistral',
+  label: 'Mistral',
+  transforms: [
+    inlineRefs,
+    removeKeywords('title', '$schema', '$id', '$comment', 'default', 'examples'),
+    ensureObjectRoot,
+  ],
+});
+
+// Grammar based backends such as llama.cpp handle a small subset of JSON schema
+registerSchemaProfile({
+  name: 'local',
+  label: 'Local OpenAI-compatible',
+  transforms: [
+    inlineRefs,
+    removeKeywords('title', '$schema', '$id', '$comment', 'default', 'examples', 'format', 'pattern'),
+    constToEnum,
+    ensureObjectRoot,
+  ],
+});
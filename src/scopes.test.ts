@@ -0,0 +1,149 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { FakeTransport } from './test-utils/fake-transport.js';
+
+type ScopesModule = typeof import('./scopes.js');
+
+const chatScope = { servers: ['web'], tools: {} };
+const groupScope = { servers: ['files'], tools: {} };
+const characterScope = { servers: ['web'], tools: { web: ['fetch'] } };
+
+let context: {
+  chatId?: string;
+  chatMetadata: Record<string, any>;
+  extensionSettings: Record<string, any>;
+  saveMetadataDebounced: jest.Mock<() => void>;
+  saveSettingsDebounced: jest.Mock<() => void>;
+  registerFunctionTool: jest.Mock<(tool: any) => void>;
+  unregisterFunctionTool: jest.Mock<(name: string) => void>;
+};
+let registered: Set<string>;
+
+/**
+ * Loads the scopes module for a chat with the given character or group.
+ * SillyTavern exports these as module bindings, so they are fixed when the module loads.
+ */
+async function loadScopes(chat: { this_chid?: number; selected_group?: string }): Promise<ScopesModule> {
+  jest.unstable_mockModule('sillytavern-utils-lib/config', () => ({
+    characters: [{ avatar: 'alice.png' }, { avatar: 'bob.png' }],
+    selected_group: chat.selected_group ?? '',
+    this_chid: chat.this_chid,
+  }));
+  return await import('./scopes.js');
+}
+
+beforeEach(() => {
+  jest.resetModules();
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+
+  registered = new Set();
+  context = {
+    chatId: 'chat-1',
+    chatMetadata: {},
+    extensionSettings: {
+      mcp: { enabled: true, directServers: {}, characterScopes: {}, groupScopes: {} },
+    },
+    saveMetadataDebounced: jest.fn(),
+    saveSettingsDebounced: jest.fn(),
+    registerFunctionTool: jest.fn((tool: any) => {
+      registered.add(tool.name);
+    }),
+    unregisterFunctionTool: jest.fn((name: string) => {
+      registered.delete(name);
+    }),
+  };
+  (globalThis as any).SillyTavern = { getContext: () => context };
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('resolveToolScope', () => {
+  it('prefers the chat scope over the group and character scopes', async () => {
+    const scopes = await loadScopes({ this_chid: 0, selected_group: 'party' });
+    context.extensionSettings.mcp.characterScopes['alice.png'] = characterScope;
+    context.extensionSettings.mcp.groupScopes.party = groupScope;
+    context.chatMetadata.mcp_tool_scope = chatScope;
+
+    expect(scopes.resolveToolScope()).toEqual(chatScope);
+  });
+
+  it('prefers the group scope over the character scope', async () => {
+    const scopes = await loadScopes({ this_chid: 0, selected_group: 'party' });
+    context.extensionSettings.mcp.characterScopes['alice.png'] = characterScope;
+    context.extensionSettings.mcp.groupScopes.party = groupScope;
+
+    expect(scopes.resolveToolScope(0)).toEqual(groupScope);
+  });
+
+  it('uses the scope of the given character, e.g. the group member that speaks', async () => {
+    const scopes = await loadScopes({ this_chid: 0, selected_group: 'party' });
+    context.extensionSettings.mcp.characterScopes['bob.png'] = characterScope;
+
+    expect(scopes.resolveToolScope(1)).toEqual(characterScope);
+    expect(scopes.resolveToolScope('1')).toEqual(characterScope);
+    expect(scopes.resolveToolScope()).toBeNull();
+  });
+
+  it('allows every tool without a scope', async () => {
+    const scopes = await loadScopes({});
+
+    expect(scopes.resolveToolScope()).toBeNull();
+  });
+});
+
+describe('setScope', () => {
+  it('binds scopes to the chat and the character', async () => {
+    const scopes = await loadScopes({ this_chid: 1 });
+
+    scopes.setScope('chat', chatScope);
+    scopes.setScope('character', characterScope);
+
+    expect(scopes.getScope('chat')).toEqual(chatScope);
+    expect(scopes.getScope('character')).toEqual(characterScope);
+    expect(context.extensionSettings.mcp.characterScopes).toEqual({ 'bob.png': characterScope });
+    expect(context.saveMetadataDebounced).toHaveBeenCalledTimes(1);
+    expect(context.saveSettingsDebounced).toHaveBeenCalledTimes(1);
+  });
+
+  it('removes a binding', async () => {
+    const scopes = await loadScopes({ selected_group: 'party' });
+    scopes.setScope('group', groupScope);
+
+    scopes.setScope('group', undefined);
+
+    expect(scopes.getScope('group')).toBeUndefined();
+    expect(context.extensionSettings.mcp.groupScopes).toEqual({});
+  });
+
+  it('refuses targets the current chat does not have', async () => {
+    const scopes = await loadScopes({ selected_group: 'party' });
+    context.chatId = undefined;
+
+    expect(scopes.isScopeTargetAvailable('character')).toBe(false);
+    expect(() => scopes.setScope('character', characterScope)).toThrow(
+      'There is no current character to bind the tool scope to.',
+    );
+    expect(() => scopes.setScope('chat', chatScope)).toThrow('There is no current chat to bind the tool scope to.');
+  });
+});
+
+describe('applyToolScope', () => {
+  it('registers only the tools of the resolved scope', async () => {
+    const scopes = await loadScopes({ this_chid: 0 });
+    const { MCPClient } = await import('./mcp-client.js');
+    const transport = new FakeTransport();
+    MCPClient.setTransport(transport);
+    transport.addFakeServer('web', [{ name: 'search' }, { name: 'fetch' }]);
+    transport.addFakeServer('files', [{ name: 'read' }]);
+    await MCPClient.handleTools(true);
+    context.extensionSettings.mcp.characterScopes['alice.png'] = characterScope;
+
+    scopes.applyToolScope();
+    expect(Array.from(registered)).toEqual(['mcp_web_fetch']);
+
+    context.chatMetadata.mcp_tool_scope = groupScope;
+    scopes.applyToolScope();
+    expect(Array.from(registered)).toEqual(['mcp_files_read']);
+  });
+});
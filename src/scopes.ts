@@ -0,0 +1,124 @@
+import { characters, selected_group, this_chid } from 'sillytavern-utils-lib/config';
+import { MCPClient, ToolScope } from './mcp-client.js';
+import { getExtensionSettings } from './settings.js';
+
+const CHAT_SCOPE_KEY = 'mcp_tool_scope';
+
+export type ScopeTarget = 'chat' | 'character' | 'group';
+
+function getCharacterKey(characterId?: number | string): string | undefined {
+  const id = characterId ?? this_chid;
+  if (id === undefined || id === null) {
+    return undefined;
+  }
+  return characters[Number(id)]?.avatar;
+}
+
+/**
+ * Checks if a scope target is available for the current chat.
+ */
+export function isScopeTargetAvailable(target: ScopeTarget): boolean {
+  const context = SillyTavern.getContext();
+  switch (target) {
+    case 'chat':
+      return !!context.chatId;
+    case 'character':
+      return !selected_group && !!getCharacterKey();
+    case 'group':
+      return !!selected_group;
+  }
+}
+
+/**
+ * Gets the tool scope bound to a target of the current chat.
+ */
+export function getScope(target: ScopeTarget): ToolScope | undefined {
+  const context = SillyTavern.getContext();
+  const settings = getExtensionSettings();
+  switch (target) {
+    case 'chat':
+      return context.chatMetadata?.[CHAT_SCOPE_KEY];
+    case 'character': {
+      const key = getCharacterKey();
+      return key ? settings.characterScopes[key] : undefined;
+    }
+    case 'group':
+      return selected_group ? settings.groupScopes[selected_group] : undefined;
+  }
+}
+
+/**
+ * Binds a tool scope to a target of the current chat.
+ * @param target The target to bind the scope to.
+ * @param scope The scope, or undefined to remove the binding.
+ */
+export function setScope(target: ScopeTarget, scope: ToolScope | undefined): void {
+  const context = SillyTavern.getContext();
+  const settings = getExtensionSettings();
+
+  if (!isScopeTargetAvailable(target)) {
+    throw new Error(`There is no current ${target} to bind the tool scope to.`);
+  }
+
+  switch (target) {
+    case 'chat':
+      if (scope) {
+        context.chatMetadata[CHAT_SCOPE_KEY] = scope;
+      } else {
+        delete context.chatMetadata[CHAT_SCOPE_KEY];
+      }
+      context.saveMetadataDebounced();
+      return;
+    case 'character': {
+      const key = getCharacterKey()!;
+      if (scope) {
+        settings.characterScopes[key] = scope;
+      } else {
+        delete settings.characterScopes[key];
+      }
+      break;
+    }
+    case 'group':
+      if (scope) {
+        settings.groupScopes[selected_group] = scope;
+      } else {
+        delete settings.groupScopes[selected_group];
+      }
+      break;
+  }
+  context.saveSettingsDebounced();
+}
+
+/**
+ * Resolves the tool scope for the current chat.
+ * Chat scopes take priority over group scopes, group scopes over character scopes.
+ * @param characterId The character to resolve for. Defaults to the current character.
+ */
+export function resolveToolScope(characterId?: number | string): ToolScope | null {
+  const context = SillyTavern.getContext();
+  const settings = getExtensionSettings();
+
+  const chatScope = context.chatMetadata?.[CHAT_SCOPE_KEY];
+  if (chatScope) {
+    return chatScope;
+  }
+
+  if (selected_group && settings.groupScopes[selected_group]) {
+    return settings.groupScopes[selected_group];
+  }
+
+  const characterKey = getCharacterKey(characterId);
+  if (characterKey && settings.characterScopes[characterKey]) {
+    return settings.characterScopes[characterKey];
+  }
+
+  return null;
+}
+
+/**
+ * Registers only the tools allowed for the current chat.
+ * @param characterId The character to resolve for. Defaults to the current character.
+ */
+export function applyToolScope(characterId?: number | string): void {
+  MCPClient.setToolScope(resolveToolScope(characterId));
+}
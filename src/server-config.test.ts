@@ -0,0 +1,69 @@
+import { describe, expect, it } from '@jest/globals';
+import { validateServerConfig } from './server-config.js';
+
+describe('validateServerConfig', () => {
+  it('accepts stdio and remote servers', () => {
+    expect(validateServerConfig({ type: 'stdio', command: 'npx', args: ['-y', 'server'], env: { KEY: 'x' } })).toEqual(
+      [],
+    );
+    expect(validateServerConfig({ type: 'sse', url: 'http://localhost:3000/sse' })).toEqual([]);
+    expect(
+      validateServerConfig({
+        type: 'streamableHttp',
+        url: 'https://example.com/mcp',
+        headers: { Authorization: 'Bearer x' },
+        mode: 'direct',
+      }),
+    ).toEqual([]);
+  });
+
+  it('rejects non-objects and unknown types', () => {
+    expect(validateServerConfig(null)).toEqual(['The configuration must be an object.']);
+    expect(validateServerConfig({ type: 'websocket', url: 'http://localhost' })).toEqual([
+      '"type" must be one of "stdio", "sse", "streamableHttp".',
+    ]);
+  });
+
+  it('requires a command for stdio servers', () => {
+    expect(validateServerConfig({ type: 'stdio', command: ' ' })).toEqual(['"command" is required for stdio servers.']);
+  });
+
+  it('rejects stdio servers in direct mode', () => {
+    expect(validateServerConfig({ type: 'stdio', command: 'npx', mode: 'direct' })).toEqual([
+      'stdio servers can only run through the server plugin.',
+    ]);
+  });
+
+  it('requires an http URL for remote servers', () => {
+    expect(validateServerConfig({ type: 'sse' })).toEqual(['"url" must be an http or https URL for sse servers.']);
+    expect(validateServerConfig({ type: 'streamableHttp', url: 'ftp://example.com' })).toEqual([
+      '"url" must be an http or https URL for streamableHttp servers.',
+    ]);
+  });
+
+  it('checks the types of args, env and headers', () => {
+    expect(
+      validateServerConfig({ type: 'stdio', command: 'npx', args: 'a b', env: { PORT: 3000 }, headers: ['x'] }),
+    ).toEqual([
+      '"args" must be a list of strings.',
+      '"env" values must be strings.',
+      '"headers" values must be strings.',
+    ]);
+  });
+
+  it('checks the authorization of remote servers', () => {
+    const url = 'https://example.com/mcp';
+    expect(validateServerConfig({ type: 'streamableHttp', url, auth: { type: 'bearer', token: 'x' } })).toEqual([]);
+    expect(validateServerConfig({ type: 'streamableHttp', url, auth: { type: 'oauth', scope: 'read' } })).toEqual([]);
+    expect(validateServerConfig({ type: 'sse', url, auth: { type: 'bearer' } })).toEqual([
+      '"auth.token" is required for bearer authorization.',
+    ]);
+    expect(validateServerConfig({ type: 'sse', url, auth: { type: 'oauth', clientSecret: 's' } })).toEqual([
+      '"auth.clientSecret" requires "auth.clientId".',
+    ]);
+    expect(validateServerConfig({ type: 'stdio', command: 'npx', auth: { type: 'basic' } })).toEqual([
+      '"auth" is only supported for sse and streamableHttp servers.',
+      '"auth.type" must be one of "bearer", "oauth".',
+    ]);
+  });
+});
@@ -0,0 +1,108 @@
+import { ServerConfig } from './mcp-client.js';
+
+const SERVER_TYPES = ['stdio', 'sse', 'streamableHttp'];
+const SERVER_MODES = ['plugin', 'direct'];
+const AUTH_TYPES = ['bearer', 'oauth'];
+
+function isStringRecord(value: any): value is Record<string, string> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    Object.values(value).every((item) => typeof item === 'string')
+  );
+}
+
+function validateAuth(config: any): string[] {
+  const auth = config.auth;
+  if (typeof auth !== 'object' || auth === null || Array.isArray(auth)) {
+    return ['"auth" must be an object.'];
+  }
+
+  const errors: string[] = [];
+  if (config.type === 'stdio') {
+    errors.push('"auth" is only supported for sse and streamableHttp servers.');
+  }
+  if (!AUTH_TYPES.includes(auth.type)) {
+    errors.push(`"auth.type" must be one of ${AUTH_TYPES.map((type) => `"${type}"`).join(', ')}.`);
+  }
+  if (auth.type === 'bearer' && (typeof auth.token !== 'string' || !auth.token.trim())) {
+    errors.push('"auth.token" is required for bearer authorization.');
+  }
+  for (const key of ['token', 'clientId', 'clientSecret', 'scope']) {
+    if (auth[key] !== undefined && typeof auth[key] !== 'string') {
+      errors.push(`"auth.${key}" must be a string.`);
+    }
+  }
+  if (auth.clientSecret !== undefined && auth.clientId === undefined) {
+    errors.push('"auth.clientSecret" requires "auth.clientId".');
+  }
+  return errors;
+}
+
+/**
+ * Checks a server configuration against `ServerConfig`.
+ * @param config The configuration to check.
+ * @returns The problems found. Empty if the configuration is valid.
+ */
+export function validateServerConfig(config: any): string[] {
+  if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+    return ['The configuration must be an object.'];
+  }
+
+  const errors: string[] = [];
+  if (!SERVER_TYPES.includes(config.type)) {
+    errors.push(`"type" must be one of ${SERVER_TYPES.map((type) => `"${type}"`).join(', ')}.`);
+  }
+  if (config.mode !== undefined && !SERVER_MODES.includes(config.mode)) {
+    errors.push(`"mode" must be one of ${SERVER_MODES.map((mode) => `"${mode}"`).join(', ')}.`);
+  }
+
+  if (config.type === 'stdio') {
+    if (typeof config.command !== 'string' || !config.command.trim()) {
+      errors.push('"command" is required for stdio servers.');
+    }
+    if (config.mode === 'direct') {
+      errors.push('stdio servers can only run through the server plugin.');
+    }
+  } else if (config.type === 'sse' || config.type === 'streamableHttp') {
+    let url: URL | null = null;
+    try {
+      url = new URL(config.url);
+    } catch (error) {
+      // Reported below
+    }
+    if (!url || !['http:', 'https:'].includes(url.protocol)) {
+      errors.push(`"url" must be an http or https URL for ${config.type} servers.`);
+    }
+  }
+
+  if (
+    config.args !== undefined &&
+    (!Array.isArray(config.args) || config.args.some((arg: any) => typeof arg !== 'string'))
+  ) {
+    errors.push('"args" must be a list of strings.');
+  }
+  if (config.env !== undefined && !isStringRecord(config.env)) {
+    errors.push('"env" values must be strings.');
+  }
+  if (config.headers !== undefined && !isStringRecord(config.headers)) {
+    errors.push('"headers" values must be strings.');
+  }
+  if (config.auth !== undefined) {
+    errors.push(...validateAuth(config));
+  }
+
+  return errors;
+}
+
+/**
+ * Throws if a server configuration is not valid.
+ * @param config The configuration to check.
+ */
+export function assertValidServerConfig(config: any): asserts config is ServerConfig {
+  const errors = validateServerConfig(config);
+  if (errors.length > 0) {
+    throw new Error(`Invalid server configuration: ${errors.join(' ')}`);
+  }
+}
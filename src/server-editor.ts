@@ -0,0 +1,185 @@
+import { POPUP_RESULT, POPUP_TYPE } from 'sillytavern-utils-lib/types/popup';
+import { st_echo } from 'sillytavern-utils-lib/config';
+import { ServerConfig } from './mcp-client.js';
+import { validateServerConfig } from './server-config.js';
+import { extensionName } from './settings.js';
+
+function addKeyValueRow(list: HTMLElement, template: HTMLTemplateElement, key = '', value = ''): void {
+  const row = (template.content.cloneNode(true) as DocumentFragment).querySelector('.key-value-row') as HTMLElement;
+  const valueInput = row.querySelector('.value-input') as HTMLInputElement;
+  (row.querySelector('.key-input') as HTMLInputElement).value = key;
+  valueInput.value = value;
+
+  const toggleButton = row.querySelector('.toggle-secret') as HTMLButtonElement;
+  toggleButton.addEventListener('click', () => {
+    const hidden = valueInput.type === 'password';
+    valueInput.type = hidden ? 'text' : 'password';
+    toggleButton.title = hidden ? 'Hide value' : 'Show value';
+    toggleButton.querySelector('i')!.className = `fa-solid ${hidden ? 'fa-eye-slash' : 'fa-eye'}`;
+  });
+  row.querySelector('.remove-key-value')!.addEventListener('click', () => row.remove());
+
+  list.appendChild(row);
+}
+
+function readKeyValueRows(list: HTMLElement): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const row of Array.from(list.querySelectorAll('.key-value-row'))) {
+    const key = (row.querySelector('.key-input') as HTMLInputElement).value.trim();
+    if (key) {
+      result[key] = (row.querySelector('.value-input') as HTMLInputElement).value;
+    }
+  }
+  return result;
+}
+
+export interface ServerEditorOptions {
+  /** Whether the server is about to be added. The name can be changed and the popup confirms the addition. */
+  isNew?: boolean;
+}
+
+/**
+ * Shows a popup to edit the configuration of a server.
+ * @param name The name of the server.
+ * @param config The current configuration.
+ * @returns The name and edited configuration, or null if the edit was cancelled.
+ */
+export async function openServerEditor(
+  name: string,
+  config: ServerConfig,
+  options: ServerEditorOptions = {},
+): Promise<{ name: string; config: ServerConfig } | null> {
+  const context = SillyTavern.getContext();
+  const content = await context.renderExtensionTemplateAsync(`third-party/${extensionName}`, 'templates/server-editor');
+  const tempDiv = document.createElement('div');
+  tempDiv.innerHTML = content;
+  const editorContent = tempDiv.firstElementChild as HTMLElement;
+
+  const rowTemplate = editorContent.querySelector('#key-value-row-template') as HTMLTemplateElement;
+  const typeSelect = editorContent.querySelector('#mcp-server-type') as HTMLSelectElement;
+  const commandInput = editorContent.querySelector('#mcp-server-command') as HTMLInputElement;
+  const argsInput = editorContent.querySelector('#mcp-server-args') as HTMLTextAreaElement;
+  const envList = editorContent.querySelector('#mcp-server-env') as HTMLElement;
+  const urlInput = editorContent.querySelector('#mcp-server-url') as HTMLInputElement;
+  const headersList = editorContent.querySelector('#mcp-server-headers') as HTMLElement;
+  const stdioFields = editorContent.querySelector('.server-editor-stdio') as HTMLElement;
+  const remoteFields = editorContent.querySelector('.server-editor-remote') as HTMLElement;
+  const authSelect = editorContent.querySelector('#mcp-server-auth') as HTMLSelectElement;
+  const tokenInput = editorContent.querySelector('#mcp-server-token') as HTMLInputElement;
+  const clientIdInput = editorContent.querySelector('#mcp-server-client-id') as HTMLInputElement;
+  const clientSecretInput = editorContent.querySelector('#mcp-server-client-secret') as HTMLInputElement;
+  const scopeInput = editorContent.querySelector('#mcp-server-scope') as HTMLInputElement;
+  const bearerFields = editorContent.querySelector('.server-editor-bearer') as HTMLElement;
+  const oauthFields = editorContent.querySelector('.server-editor-oauth') as HTMLElement;
+
+  const nameInput = editorContent.querySelector('#mcp-server-name') as HTMLInputElement;
+  if (options.isNew) {
+    editorContent.querySelector('.server-editor-title')!.textContent = 'Add server';
+    (editorContent.querySelector('.server-editor-name-group') as HTMLElement).style.display = '';
+    nameInput.value = name;
+  } else {
+    editorContent.querySelector('.server-editor-name')!.textContent = name;
+  }
+  typeSelect.value = config.type;
+  commandInput.value = config.command ?? '';
+  argsInput.value = (config.args ?? []).join('\n');
+  urlInput.value = config.url ?? '';
+  for (const [key, value] of Object.entries(config.env ?? {})) {
+    addKeyValueRow(envList, rowTemplate, key, value);
+  }
+  for (const [key, value] of Object.entries(config.headers ?? {})) {
+    addKeyValueRow(headersList, rowTemplate, key, value);
+  }
+  authSelect.value = config.auth?.type ?? '';
+  tokenInput.value = config.auth?.token ?? '';
+  clientIdInput.value = config.auth?.clientId ?? '';
+  clientSecretInput.value = config.auth?.clientSecret ?? '';
+  scopeInput.value = config.auth?.scope ?? '';
+
+  // Direct servers are reached from the browser, which can not run commands
+  if (config.mode === 'direct') {
+    (typeSelect.querySelector('option[value="stdio"]') as HTMLOptionElement).disabled = true;
+  }
+
+  const updateVisibleFields = () => {
+    const isStdio = typeSelect.value === 'stdio';
+    stdioFields.style.display = isStdio ? '' : 'none';
+    remoteFields.style.display = isStdio ? 'none' : '';
+    bearerFields.style.display = authSelect.value === 'bearer' ? '' : 'none';
+    oauthFields.style.display = authSelect.value === 'oauth' ? '' : 'none';
+  };
+  typeSelect.addEventListener('change', updateVisibleFields);
+  authSelect.addEventListener('change', updateVisibleFields);
+  updateVisibleFields();
+
+  editorContent.querySelectorAll('.add-key-value').forEach((button) => {
+    button.addEventListener('click', () => {
+      const list = editorContent.querySelector(`#${(button as HTMLElement).dataset.list}`) as HTMLElement;
+      addKeyValueRow(list, rowTemplate);
+    });
+  });
+
+  const readConfig = (): ServerConfig => {
+    const type = typeSelect.value as ServerConfig['type'];
+    const edited: ServerConfig = { type };
+    if (config.mode) {
+      edited.mode = config.mode;
+    }
+
+    if (type === 'stdio') {
+      edited.command = commandInput.value.trim();
+      edited.args = argsInput.value
+        .split('\n')
+        .map((arg) => arg.trim())
+        .filter((arg) => arg !== '');
+      edited.env = readKeyValueRows(envList);
+    } else {
+      edited.url = urlInput.value.trim();
+      const headers = readKeyValueRows(headersList);
+      if (Object.keys(headers).length > 0) {
+        edited.headers = headers;
+      }
+      if (authSelect.value === 'bearer') {
+        edited.auth = { type: 'bearer', token: tokenInput.value.trim() };
+      } else if (authSelect.value === 'oauth') {
+        edited.auth = { type: 'oauth' };
+        for (const [key, input] of [
+          ['clientId', clientIdInput],
+          ['clientSecret', clientSecretInput],
+          ['scope', scopeInput],
+        ] as const) {
+          if (input.value.trim()) {
+            edited.auth[key] = input.value.trim();
+          }
+        }
+      }
+    }
+    return edited;
+  };
+
+  let edited: { name: string; config: ServerConfig } | null = null;
+  const result = await context.callGenericPopup($(editorContent), POPUP_TYPE.CONFIRM, '', {
+    okButton: options.isNew ? 'Add' : 'Save',
+    cancelButton: 'Cancel',
+    wide: true,
+    onClosing: async (popup) => {
+      if (popup.result !== POPUP_RESULT.AFFIRMATIVE) {
+        return true;
+      }
+      const candidate = readConfig();
+      const errors = validateServerConfig(candidate);
+      const editedName = options.isNew ? nameInput.value.trim() : name;
+      if (!editedName) {
+        errors.unshift('The server name is empty.');
+      }
+      if (errors.length > 0) {
+        await st_echo('error', errors.join('\n'));
+        return false;
+      }
+      edited = { name: editedName, config: candidate };
+      return true;
+    },
+  });
+
+  return result === POPUP_RESULT.AFFIRMATIVE ? edited : null;
+}
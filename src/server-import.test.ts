@@ -0,0 +1,185 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { FakeTransport } from './test-utils/fake-transport.js';
+
+type ServerImportModule = typeof import('./server-import.js');
+
+let serverImport: ServerImportModule;
+let transport: FakeTransport;
+let context: { extensionSettings: Record<string, any> };
+
+beforeEach(async () => {
+  jest.resetModules();
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+
+  context = {
+    extensionSettings: { mcp: { enabled: false, directServers: {} } },
+  };
+  (globalThis as any).SillyTavern = { getContext: () => context };
+
+  serverImport = await import('./server-import.js');
+  const { MCPClient } = await import('./mcp-client.js');
+  transport = new FakeTransport();
+  MCPClient.setTransport(transport);
+});
+
+describe('parseServersConfig', () => {
+  it('reads every server of a Claude Desktop config', () => {
+    const entries = serverImport.parseServersConfig({
+      mcpServers: {
+        brave: { command: 'npx', args: ['-y', '@modelcontextprotocol/server-brave-search'], env: { KEY: 'x' } },
+        files: { command: 'npx', args: ['-y', '@modelcontextprotocol/server-filesystem', '/tmp'] },
+      },
+    });
+
+    expect(entries).toEqual([
+      {
+        name: 'brave',
+        config: {
+          type: 'stdio',
+          command: 'npx',
+          args: ['-y', '@modelcontextprotocol/server-brave-search'],
+          env: { KEY: 'x' },
+        },
+        errors: [],
+      },
+      {
+        name: 'files',
+        config: { type: 'stdio', command: 'npx', args: ['-y', '@modelcontextprotocol/server-filesystem', '/tmp'] },
+        errors: [],
+      },
+    ]);
+  });
+
+  it('maps the transport names of VS Code and Cursor', () => {
+    const entries = serverImport.parseServersConfig({
+      servers: {
+        github: { type: 'http', url: 'https://api.example.com/mcp', headers: { Authorization: 'Bearer x' } },
+        legacy: { url: 'http://localhost:8000/sse' },
+        remote: { url: 'http://localhost:8000/mcp' },
+        windsurf: { serverUrl: 'http://localhost:9000/sse' },
+      },
+    });
+
+    expect(entries.map((entry) => [entry.name, entry.config.type, entry.config.url])).toEqual([
+      ['github', 'streamableHttp', 'https://api.example.com/mcp'],
+      ['legacy', 'sse', 'http://localhost:8000/sse'],
+      ['remote', 'streamableHttp', 'http://localhost:8000/mcp'],
+      ['windsurf', 'sse', 'http://localhost:9000/sse'],
+    ]);
+  });
+
+  it('reads the servers of VS Code user settings', () => {
+    const entries = serverImport.parseServersConfig({ mcp: { servers: { git: { command: 'uvx', args: ['git'] } } } });
+
+    expect(entries.map((entry) => entry.name)).toEqual(['git']);
+  });
+
+  it('drops fields other clients use', () => {
+    const [entry] = serverImport.parseServersConfig({
+      mcpServers: { git: { command: 'uvx', args: ['git'], envFile: '.env', disabled: true, autoApprove: [] } },
+    });
+
+    expect(entry.config).toEqual({ type: 'stdio', command: 'uvx', args: ['git'] });
+  });
+
+  it('reports invalid servers instead of failing', () => {
+    const entries = serverImport.parseServersConfig({
+      mcpServers: { ok: { command: 'npx' }, broken: { args: ['x'] } },
+    });
+
+    expect(entries[0].errors).toEqual([]);
+    expect(entries[1].errors.length).toBeGreaterThan(0);
+  });
+
+  it('rejects configs without servers', () => {
+    expect(() => serverImport.parseServersConfig({})).toThrow('missing mcpServers object');
+    expect(() => serverImport.parseServersConfig({ mcpServers: {} })).toThrow('no server configuration found');
+  });
+});
+
+describe('exportServersConfig', () => {
+  const servers = [
+    { name: 'brave', config: { type: 'stdio' as const, command: 'npx', env: { KEY: 'secret' } } },
+    {
+      name: 'remote',
+      config: { type: 'sse' as const, url: 'http://localhost/sse', headers: { Authorization: 'Bearer x' } },
+    },
+    {
+      name: 'hosted',
+      config: {
+        type: 'streamableHttp' as const,
+        url: 'https://example.com/mcp',
+        auth: { type: 'oauth' as const, clientId: 'id', clientSecret: 'secret' },
+      },
+    },
+  ];
+
+  it('keeps secrets when asked to', () => {
+    expect(serverImport.exportServersConfig(servers, true)).toEqual({
+      mcpServers: { brave: servers[0].config, remote: servers[1].config, hosted: servers[2].config },
+    });
+  });
+
+  it('replaces environment variable and header values with placeholders', () => {
+    const { mcpServers } = serverImport.exportServersConfig(servers, false);
+
+    expect(mcpServers.brave.env).toEqual({ KEY: serverImport.SECRET_PLACEHOLDER });
+    expect(mcpServers.remote.headers).toEqual({ Authorization: serverImport.SECRET_PLACEHOLDER });
+    expect(mcpServers.hosted.auth).toEqual({
+      type: 'oauth',
+      clientId: 'id',
+      clientSecret: serverImport.SECRET_PLACEHOLDER,
+    });
+    expect(servers[0].config.env).toEqual({ KEY: 'secret' });
+  });
+
+  it('can be imported again', () => {
+    const entries = serverImport.parseServersConfig(serverImport.exportServersConfig(servers, true));
+
+    expect(entries.map(({ name, config }) => ({ name, config }))).toEqual(servers);
+  });
+});
+
+describe('importServers', () => {
+  it('adds, overwrites and skips servers and reports each of them', async () => {
+    transport.addFakeServer('existing', []);
+    const entries = serverImport.parseServersConfig({
+      mcpServers: {
+        fresh: { command: 'npx', args: ['fresh'] },
+        existing: { command: 'uvx', args: ['existing'] },
+        ignored: { command: 'npx' },
+        broken: { type: 'sse' },
+      },
+    });
+
+    const results = await serverImport.importServers(entries, {
+      fresh: 'add',
+      existing: 'overwrite',
+      ignored: 'skip',
+      broken: 'add',
+    });
+
+    expect(results.map(({ name, status }) => [name, status])).toEqual([
+      ['fresh', 'added'],
+      ['existing', 'overwritten'],
+      ['ignored', 'skipped'],
+      ['broken', 'skipped'],
+    ]);
+    expect(transport.servers.get('existing')!.config).toEqual({ type: 'stdio', command: 'uvx', args: ['existing'] });
+    expect(transport.servers.has('ignored')).toBe(false);
+  });
+
+  it('keeps importing after a failure', async () => {
+    transport.failOn('addServer', 'first', new Error('plugin error'));
+    const entries = serverImport.parseServersConfig({
+      mcpServers: { first: { command: 'npx' }, second: { command: 'npx' } },
+    });
+
+    const results = await serverImport.importServers(entries, { first: 'add', second: 'add' });
+
+    expect(results).toEqual([
+      { name: 'first', status: 'failed', message: 'plugin error' },
+      { name: 'second', status: 'added' },
+    ]);
+  });
+});
@@ -0,0 +1,180 @@
+import { MCPClient, ServerConfig, ServerData } from './mcp-client.js';
+import { validateServerConfig } from './server-config.js';
+
+export interface ImportEntry {
+  name: string;
+  config: ServerConfig;
+  /** Problems that prevent the server from being imported */
+  errors: string[];
+}
+
+export type ImportAction = 'add' | 'overwrite' | 'skip';
+
+export interface ImportResult {
+  name: string;
+  status: 'added' | 'overwritten' | 'skipped' | 'warning' | 'failed';
+  message?: string;
+}
+
+/** Written in place of secret values when exporting without secrets */
+export const SECRET_PLACEHOLDER = 'YOUR_VALUE_HERE';
+
+/**
+ * Maps the transport names used by other MCP clients to ours.
+ */
+function normalizeType(entry: any): ServerConfig['type'] | undefined {
+  switch (entry.type ?? entry.transport) {
+    case 'stdio':
+      return 'stdio';
+    case 'sse':
+      return 'sse';
+    case 'http':
+    case 'streamable-http':
+    case 'streamableHttp':
+      return 'streamableHttp';
+    case undefined:
+      break;
+    default:
+      return entry.type;
+  }
+
+  if (entry.command) {
+    return 'stdio';
+  }
+  const url = entry.url ?? entry.serverUrl;
+  if (typeof url === 'string') {
+    // Clients without a type field tell the transports apart by the URL
+    return /\/sse\/?(\?.*)?$/.test(url) ? 'sse' : 'streamableHttp';
+  }
+  return undefined;
+}
+
+/**
+ * Converts a server entry of an MCP client config to a `ServerConfig`, dropping fields we don't use.
+ */
+function normalizeEntry(entry: any): ServerConfig {
+  if (typeof entry !== 'object' || entry === null) {
+    return entry;
+  }
+
+  const config: any = { type: normalizeType(entry) };
+  const url = entry.url ?? entry.serverUrl;
+  for (const [key, value] of Object.entries({
+    command: entry.command,
+    args: entry.args,
+    env: entry.env,
+    url,
+    headers: entry.headers,
+    mode: entry.mode,
+    auth: entry.auth,
+  })) {
+    if (value !== undefined) {
+      config[key] = value;
+    }
+  }
+  return config;
+}
+
+/**
+ * Reads the servers of a pasted MCP client config.
+ * Supports the `mcpServers` map of Claude Desktop and Cursor, and the `servers` map of VS Code.
+ * @param json The parsed config.
+ */
+export function parseServersConfig(json: any): ImportEntry[] {
+  const servers = json?.mcpServers ?? json?.servers ?? json?.mcp?.servers;
+  if (typeof servers !== 'object' || servers === null || Array.isArray(servers)) {
+    throw new Error('Invalid config: missing mcpServers object');
+  }
+
+  const entries = Object.entries(servers).map(([name, entry]) => {
+    const config = normalizeEntry(entry);
+    const errors = validateServerConfig(config);
+    if (!name.trim()) {
+      errors.unshift('The server name is empty.');
+    }
+    return { name, config, errors };
+  });
+
+  if (entries.length === 0) {
+    throw new Error('Invalid config: no server configuration found');
+  }
+  return entries;
+}
+
+/**
+ * Creates a portable `mcpServers` config from server configurations.
+ * @param servers The servers to export.
+ * @param includeSecrets Whether to keep environment variable and header values, bearer tokens and client secrets.
+ */
+export function exportServersConfig(
+  servers: Pick<ServerData, 'name' | 'config'>[],
+  includeSecrets: boolean,
+): { mcpServers: Record<string, ServerConfig> } {
+  const hideValues = (values: Record<string, string>) =>
+    Object.fromEntries(Object.keys(values).map((key) => [key, SECRET_PLACEHOLDER]));
+
+  const mcpServers: Record<string, ServerConfig> = {};
+  for (const { name, config } of servers) {
+    const exported: ServerConfig = { ...config };
+    if (!includeSecrets && config.env) {
+      exported.env = hideValues(config.env);
+    }
+    if (!includeSecrets && config.headers) {
+      exported.headers = hideValues(config.headers);
+    }
+    if (!includeSecrets && config.auth) {
+      exported.auth = { ...config.auth };
+      if (config.auth.token) exported.auth.token = SECRET_PLACEHOLDER;
+      if (config.auth.clientSecret) exported.auth.clientSecret = SECRET_PLACEHOLDER;
+    }
+    mcpServers[name] = exported;
+  }
+  return { mcpServers };
+}
+
+/**
+ * Imports servers, one at a time so a failing server doesn't stop the others.
+ * @param entries The servers to import.
+ * @param actions What to do with each server, keyed by name. Servers without an action are skipped.
+ * @returns The outcome for every entry.
+ */
+export async function importServers(
+  entries: ImportEntry[],
+  actions: Record<string, ImportAction>,
+): Promise<ImportResult[]> {
+  const existing = await MCPClient.getServers();
+  const results: ImportResult[] = [];
+
+  for (const { name, config, errors } of entries) {
+    const action = actions[name] ?? 'skip';
+    if (action === 'skip' || errors.length > 0) {
+      results.push({ name, status: 'skipped', message: errors.join(' ') || undefined });
+      continue;
+    }
+
+    try {
+      const current = existing.find((server) => server.name === name);
+      if (action === 'overwrite' && current) {
+        if ((current.config.mode === 'direct') === (config.mode === 'direct')) {
+          await MCPClient.updateServer(name, config);
+        } else {
+          // Servers can't move between the plugin and direct mode, so they are replaced
+          await MCPClient.deleteServer(name);
+          await MCPClient.addServer(name, config);
+        }
+        results.push({ name, status: 'overwritten' });
+      } else {
+        await MCPClient.addServer(name, config);
+        results.push({ name, status: 'added' });
+      }
+    } catch (error) {
+      results.push({
+        name,
+        status: (error as any).isConnectError ? 'warning' : 'failed',
+        message: (error as Error).message,
+      });
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,212 @@
+import { POPUP_RESULT, POPUP_TYPE } from 'sillytavern-utils-lib/types/popup';
+import { st_echo } from 'sillytavern-utils-lib/config';
+import {
+  ElicitationField,
+  ElicitationRequest,
+  ElicitationResult,
+  getElicitationFields,
+  readElicitationValues,
+} from './elicitation.js';
+import { JsonError } from './json-error.js';
+import {
+  getSamplingMaxTokens,
+  getSamplingPayload,
+  getSamplingTokenLimit,
+  getStopReason,
+  pickSamplingProfile,
+  SamplingRequest,
+  SamplingResult,
+  toChatMessages,
+} from './sampling.js';
+import { extensionName } from './settings.js';
+import { ConnectionManagerSettings } from './types/types.js';
+
+/** The JSON-RPC error code MCP uses for requests the user rejected */
+const USER_REJECTED = -1;
+
+async function renderTemplate(name: string): Promise<HTMLElement> {
+  const context = SillyTavern.getContext();
+  const content = await context.renderExtensionTemplateAsync(`third-party/${extensionName}`, `templates/${name}`);
+  const tempDiv = document.createElement('div');
+  tempDiv.innerHTML = content;
+  return tempDiv.firstElementChild as HTMLElement;
+}
+
+function createFieldInput(field: ElicitationField): HTMLInputElement | HTMLSelectElement {
+  if (field.input === 'select') {
+    const select = document.createElement('select');
+    select.className = 'text_pole';
+    if (!field.required || field.defaultValue === undefined) {
+      select.appendChild(new Option(field.required ? 'Choose…' : '', ''));
+    }
+    for (const option of field.options ?? []) {
+      select.appendChild(new Option(option.label, option.value));
+    }
+    select.value = (field.defaultValue as string | undefined) ?? '';
+    return select;
+  }
+
+  const input = document.createElement('input');
+  input.type = field.input;
+  if (field.input === 'checkbox') {
+    input.checked = field.defaultValue === true;
+    return input;
+  }
+  input.className = 'text_pole';
+  input.value = (field.defaultValue as string | undefined) ?? '';
+  if (field.input === 'number') {
+    input.step = field.schema.type === 'integer' ? '1' : 'any';
+    if (field.schema.minimum !== undefined) input.min = String(field.schema.minimum);
+    if (field.schema.maximum !== undefined) input.max = String(field.schema.maximum);
+  }
+  return input;
+}
+
+/**
+ * Shows a form generated from the schema of an `elicitation/create` request.
+ */
+async function showElicitationForm(serverName: string, request: ElicitationRequest): Promise<ElicitationResult> {
+  const context = SillyTavern.getContext();
+  const fields = getElicitationFields(request.requestedSchema);
+  const formContent = await renderTemplate('elicitation');
+  const fieldList = formContent.querySelector('#mcp-elicitation-fields') as HTMLElement;
+  const fieldTemplate = formContent.querySelector('#elicitation-field-template') as HTMLTemplateElement;
+
+  formContent.querySelector('.elicitation-server')!.textContent = serverName;
+  formContent.querySelector('.elicitation-message')!.textContent = request.message;
+
+  const inputs = new Map<string, HTMLInputElement | HTMLSelectElement>();
+  for (const field of fields) {
+    const row = (fieldTemplate.content.cloneNode(true) as DocumentFragment).querySelector(
+      '.elicitation-field',
+    ) as HTMLElement;
+    const label = row.querySelector('.elicitation-label') as HTMLLabelElement;
+    const input = createFieldInput(field);
+    input.id = `mcp-elicitation-${field.name}`;
+    label.htmlFor = input.id;
+    label.textContent = field.required ? `${field.label} *` : field.label;
+    row.querySelector('.elicitation-description')!.textContent = field.description ?? '';
+    if (field.input === 'checkbox') {
+      label.prepend(input);
+      label.classList.add('checkbox_label');
+    } else {
+      row.insertBefore(input, label.nextSibling);
+    }
+    inputs.set(field.name, input);
+    fieldList.appendChild(row);
+  }
+
+  let content: ElicitationResult['content'];
+  const result = await context.callGenericPopup($(formContent), POPUP_TYPE.CONFIRM, '', {
+    okButton: 'Submit',
+    cancelButton: 'Decline',
+    wide: fields.length > 0,
+    onClosing: async (popup) => {
+      if (popup.result !== POPUP_RESULT.AFFIRMATIVE) {
+        return true;
+      }
+      const values: Record<string, string | boolean> = {};
+      for (const [name, input] of inputs) {
+        values[name] = input instanceof HTMLInputElement && input.type === 'checkbox' ? input.checked : input.value;
+      }
+      const read = readElicitationValues(fields, values);
+      if (read.errors.length > 0) {
+        await st_echo('error', read.errors.join(' '));
+        return false;
+      }
+      content = read.content;
+      return true;
+    },
+  });
+
+  if (result === POPUP_RESULT.AFFIRMATIVE) {
+    return { action: 'accept', content };
+  }
+  return { action: result === POPUP_RESULT.NEGATIVE ? 'decline' : 'cancel' };
+}
+
+/**
+ * Shows a popup to approve a `sampling/createMessage` request.
+ */
+async function approveSampling(
+  serverName: string,
+  profileName: string,
+  messages: Array<{ role: string; content: string }>,
+  maxTokens: number,
+): Promise<boolean> {
+  const context = SillyTavern.getContext();
+  const approvalContent = await renderTemplate('sampling');
+  approvalContent.querySelector('.sampling-server')!.textContent = serverName;
+  approvalContent.querySelector('.sampling-profile')!.textContent = profileName;
+  approvalContent.querySelector('.sampling-max-tokens')!.textContent = maxTokens > 0 ? String(maxTokens) : 'No limit';
+
+  const messageList = approvalContent.querySelector('#mcp-sampling-messages') as HTMLElement;
+  for (const message of messages) {
+    const item = document.createElement('div');
+    item.className = 'sampling-message';
+    const role = document.createElement('b');
+    role.textContent = message.role;
+    const text = document.createElement('pre');
+    text.textContent = message.content;
+    item.append(role, text);
+    messageList.appendChild(item);
+  }
+
+  const result = await context.callGenericPopup($(approvalContent), POPUP_TYPE.CONFIRM, '', {
+    okButton: 'Approve',
+    cancelButton: 'Reject',
+    wide: true,
+  });
+  return result === POPUP_RESULT.AFFIRMATIVE;
+}
+
+/**
+ * Answers a `sampling/createMessage` request after the user approves it, with the connection profile
+ * whose model the server prefers, or the selected one.
+ */
+async function createSamplingMessage(serverName: string, request: SamplingRequest): Promise<SamplingResult> {
+  const context = SillyTavern.getContext();
+  const connectionManager: ConnectionManagerSettings | undefined = context.extensionSettings.connectionManager;
+  const profile = pickSamplingProfile(connectionManager?.profiles ?? [], connectionManager?.selectedProfile, request);
+  if (!profile) {
+    throw new Error('Select a connection profile to let MCP servers use the model.');
+  }
+
+  const messages = toChatMessages(request);
+  const maxTokens = getSamplingMaxTokens(request, getSamplingTokenLimit(serverName));
+  if (!(await approveSampling(serverName, profile.name ?? profile.id, messages, maxTokens))) {
+    throw new JsonError({ error: 'The user rejected the sampling request.', code: USER_REJECTED });
+  }
+
+  const response = (await context.ConnectionManagerRequestService.sendRequest(
+    profile.id,
+    messages,
+    maxTokens,
+    { stream: false, extractData: true },
+    getSamplingPayload(request, profile.mode),
+  )) as { content: string };
+  const tokens = maxTokens > 0 ? await context.getTokenCountAsync(response.content) : 0;
+  return {
+    role: 'assistant',
+    content: { type: 'text', text: response.content },
+    model: profile.model || profile.name || profile.id,
+    stopReason: getStopReason(tokens, maxTokens),
+  };
+}
+
+/**
+ * Answers the requests servers send to the client: `elicitation/create` and `sampling/createMessage`.
+ * @param serverName The name of the server that sent the request.
+ * @param method The JSON-RPC method.
+ * @param params The request parameters.
+ */
+export async function handleServerRequest(serverName: string, method: string, params: any): Promise<any> {
+  switch (method) {
+    case 'elicitation/create':
+      return await showElicitationForm(serverName, params);
+    case 'sampling/createMessage':
+      return await createSamplingMessage(serverName, params);
+    default:
+      throw new JsonError({ error: `Method not found: ${method}`, code: -32601 });
+  }
+}
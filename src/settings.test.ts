@@ -0,0 +1,37 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+
+type SettingsModule = typeof import('./settings.js');
+
+let settings: SettingsModule;
+let context: { extensionSettings: Record<string, any>; saveSettingsDebounced: jest.Mock };
+
+beforeEach(async () => {
+  jest.resetModules();
+  context = { extensionSettings: {}, saveSettingsDebounced: jest.fn() };
+  (globalThis as any).SillyTavern = { getContext: () => context };
+
+  settings = await import('./settings.js');
+});
+
+describe('initializeDefaultSettings', () => {
+  it('fills in missing settings and keeps existing ones', () => {
+    context.extensionSettings.mcp = { enabled: true, toolApprovals: { web: { search: 'deny' } } };
+
+    settings.initializeDefaultSettings();
+
+    expect(settings.getExtensionSettings()).toMatchObject({
+      enabled: true,
+      defaultApproval: 'allow',
+      toolApprovals: { web: { search: 'deny' } },
+    });
+    expect(context.saveSettingsDebounced).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not share objects with the defaults', () => {
+    settings.initializeDefaultSettings();
+
+    settings.getExtensionSettings().characterScopes['alice.png'] = { servers: ['web'], tools: {} };
+
+    expect(settings.DEFAULT_SETTINGS.characterScopes).toEqual({});
+  });
+});
@@ -0,0 +1,126 @@
+import { OAuthState } from './auth.js';
+import { DirectServerData } from './direct-servers.js';
+import { ToolScope } from './mcp-client.js';
+import { ResultLimitStrategy } from './result-limits.js';
+import { ToolOverride } from './tool-overrides.js';
+import { ToolProfile } from './tool-profiles.js';
+
+export type ApprovalPolicy = 'allow' | 'ask' | 'deny';
+
+export const extensionName = 'SillyTavern-MCP-Client';
+export const EXTENSION_SETTINGS_KEY = 'mcp';
+
+export interface ExtensionSettings {
+  enabled: boolean;
+  /** Tool scopes bound to characters, keyed by avatar file name */
+  characterScopes: Record<string, ToolScope>;
+  /** Tool scopes bound to groups, keyed by group id */
+  groupScopes: Record<string, ToolScope>;
+  /** Approval policy for servers and tools without their own policy */
+  defaultApproval: ApprovalPolicy;
+  /** Approval policies per server */
+  serverApprovals: Record<string, ApprovalPolicy>;
+  /** Approval policies per server and tool */
+  toolApprovals: Record<string, Record<string, ApprovalPolicy>>;
+  /** Servers the browser connects to without the server plugin */
+  directServers: Record<string, DirectServerData>;
+  /** Name of the schema sanitizer profile, or `auto` to pick one by chat completion source */
+  schemaProfile: string;
+  /** OAuth clients and tokens per server */
+  oauth: Record<string, OAuthState>;
+  /** Seconds between checks that connected servers still respond. 0 disables the checks. */
+  healthCheckInterval: number;
+  /** Seconds a tool call may run for servers and tools without their own timeout. 0 means no limit. */
+  toolTimeout: number;
+  /** Tool call timeouts per server in seconds */
+  serverTimeouts: Record<string, number>;
+  /** Tool call timeouts per server and tool in seconds */
+  toolTimeouts: Record<string, Record<string, number>>;
+  /** Most tokens a tool result may take for tools without their own limit. 0 means no limit. */
+  resultTokenLimit: number;
+  /** Result token limits per server and tool */
+  toolResultLimits: Record<string, Record<string, number>>;
+  /** How results over the limit are shortened */
+  resultLimitStrategy: ResultLimitStrategy;
+  /** Seconds results of read-only tools are cached. 0 disables the cache for them. */
+  cacheTtl: number;
+  /** Cache TTLs per server and tool in seconds, used regardless of the tool annotations */
+  toolCacheTtls: Record<string, Record<string, number>>;
+  /** Only register tools the server marks as read-only */
+  safeMode: boolean;
+  /** Disable the tools a server marks as destructive when the server is added */
+  disableDestructiveTools: boolean;
+  /** Most tokens a sampling request of a server may generate for servers without their own limit. 0 means no limit. */
+  samplingTokenLimit: number;
+  /** Sampling token limits per server */
+  serverSamplingLimits: Record<string, number>;
+  /** Function names the user chose for tools, per server and tool */
+  toolAliases: Record<string, Record<string, string>>;
+  /** Descriptions, names and parameters the user changed, per server and tool */
+  toolOverrides: Record<string, Record<string, ToolOverride>>;
+  /** Named sets of enabled servers and tools */
+  toolProfiles: Record<string, ToolProfile>;
+  /** Name of the tool profile applied last, empty if none */
+  activeToolProfile: string;
+}
+
+export function getExtensionSettings(): ExtensionSettings {
+  const context = SillyTavern.getContext();
+  return context.extensionSettings[EXTENSION_SETTINGS_KEY] as ExtensionSettings;
+}
+
+export const DEFAULT_SETTINGS: ExtensionSettings = {
+  enabled: false,
+  characterScopes: {},
+  groupScopes: {},
+  defaultApproval: 'allow',
+  serverApprovals: {},
+  toolApprovals: {},
+  directServers: {},
+  schemaProfile: 'auto',
+  oauth: {},
+  healthCheckInterval: 30,
+  toolTimeout: 0,
+  serverTimeouts: {},
+  toolTimeouts: {},
+  resultTokenLimit: 0,
+  toolResultLimits: {},
+  resultLimitStrategy: 'truncate',
+  cacheTtl: 0,
+  toolCacheTtls: {},
+  safeMode: false,
+  disableDestructiveTools: true,
+  samplingTokenLimit: 1000,
+  serverSamplingLimits: {},
+  toolAliases: {},
+  toolOverrides: {},
+  toolProfiles: {},
+  activeToolProfile: '',
+};
+
+export function initializeDefaultSettings(): void {
+  const context = SillyTavern.getContext();
+  context.extensionSettings[EXTENSION_SETTINGS_KEY] = context.extensionSettings?.[EXTENSION_SETTINGS_KEY] || {};
+
+  function initializeRecursively(target: any, defaults: any): boolean {
+    let anyChange = false;
+
+    for (const key of Object.keys(defaults)) {
+      if (target[key] === undefined) {
+        target[key] = structuredClone(defaults[key]);
+        anyChange = true;
+      } else if (typeof defaults[key] === 'object' && defaults[key] !== null) {
+        target[key] = target[key] || {};
+        if (initializeRecursively(target[key], defaults[key])) {
+          anyChange = true;
+        }
+      }
+    }
+
+    return anyChange;
+  }
+
+  if (initializeRecursively(context.extensionSettings[EXTENSION_SETTINGS_KEY], DEFAULT_SETTINGS)) {
+    context.saveSettingsDebounced();
+  }
+}
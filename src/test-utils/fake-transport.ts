@@ -0,0 +1,209 @@
+import {
+  McpPrompt,
+  McpPromptResult,
+  McpResource,
+  McpResourceContents,
+  McpResourceTemplate,
+  McpTool,
+  ServerConfig,
+  ServerData,
+  ToolCallOptions,
+} from '../mcp-client.js';
+import { McpTransport } from '../transport.js';
+
+export interface FakeServer {
+  config: ServerConfig;
+  enabled: boolean;
+  running: boolean;
+  tools: McpTool[];
+  disabledTools: string[];
+  resources: McpResource[];
+  resourceTemplates: McpResourceTemplate[];
+  prompts: McpPrompt[];
+  /** Called for tool calls. Returns a text result by default. */
+  handleToolCall?: (toolName: string, args: any, options: ToolCallOptions) => any;
+}
+
+/**
+ * An in-memory stand-in for the server plugin and the MCP servers it runs.
+ */
+export class FakeTransport implements McpTransport {
+  servers: Map<string, FakeServer> = new Map();
+  /** Operations that should fail, keyed by `operation:serverName` */
+  failures: Map<string, Error> = new Map();
+  /** Every operation in the order it was called, as `operation:serverName` */
+  calls: string[] = [];
+  /** Tools of servers added through `addServer`, keyed by server name */
+  newServerTools: Map<string, McpTool[]> = new Map();
+  onToolsChanged?: (name: string) => void;
+  onRequest?: (name: string, method: string, params: any) => Promise<any>;
+
+  /**
+   * Adds a server with the given tools to the fake plugin.
+   */
+  addFakeServer(name: string, tools: McpTool[], options: Partial<FakeServer> = {}): FakeServer {
+    const server: FakeServer = {
+      config: { type: 'stdio', command: name },
+      enabled: true,
+      running: false,
+      tools,
+      disabledTools: [],
+      resources: [],
+      resourceTemplates: [],
+      prompts: [],
+      ...options,
+    };
+    this.servers.set(name, server);
+    return server;
+  }
+
+  /**
+   * Makes the next and all following calls of an operation fail.
+   */
+  failOn(operation: string, name: string, error: Error = new Error(`${operation} failed for ${name}`)): void {
+    this.failures.set(`${operation}:${name}`, error);
+  }
+
+  /**
+   * Replaces the tools of a server and announces it like a server sending `notifications/tools/list_changed`.
+   */
+  changeTools(name: string, tools: McpTool[]): void {
+    this.#getServer(name).tools = tools;
+    this.onToolsChanged?.(name);
+  }
+
+  /**
+   * Sends a request from a server to the client, like a server asking for `elicitation/create`.
+   */
+  async sendServerRequest(name: string, method: string, params: any): Promise<any> {
+    return await this.onRequest!(name, method, params);
+  }
+
+  #record(operation: string, name: string): void {
+    this.calls.push(`${operation}:${name}`);
+    const error = this.failures.get(`${operation}:${name}`);
+    if (error) {
+      throw error;
+    }
+  }
+
+  #getServer(name: string): FakeServer {
+    const server = this.servers.get(name);
+    if (!server) {
+      throw new Error(`Server "${name}" not found`);
+    }
+    return server;
+  }
+
+  #getRunningServer(name: string): FakeServer {
+    const server = this.#getServer(name);
+    if (!server.running) {
+      throw new Error(`Server "${name}" is not running`);
+    }
+    return server;
+  }
+
+  async listServers(): Promise<ServerData[]> {
+    return Array.from(this.servers.entries()).map(([name, server]) => ({
+      name,
+      config: server.config,
+      enabled: server.enabled,
+      cachedTools: {},
+    }));
+  }
+
+  async addServer(name: string, config: ServerConfig): Promise<void> {
+    this.#record('addServer', name);
+    if (this.servers.has(name)) {
+      throw new Error(`Server "${name}" already exists`);
+    }
+    this.addFakeServer(name, this.newServerTools.get(name) ?? [], { config });
+  }
+
+  async updateServer(name: string, config: ServerConfig): Promise<void> {
+    this.#record('updateServer', name);
+    this.#getServer(name).config = config;
+  }
+
+  async deleteServer(name: string): Promise<void> {
+    this.#record('deleteServer', name);
+    this.#getServer(name);
+    this.servers.delete(name);
+  }
+
+  async startServer(name: string, config: ServerConfig): Promise<void> {
+    this.#record('startServer', name);
+    this.#getServer(name).running = true;
+  }
+
+  async stopServer(name: string): Promise<void> {
+    this.#record('stopServer', name);
+    this.#getServer(name).running = false;
+  }
+
+  async ping(name: string): Promise<void> {
+    this.#record('ping', name);
+    this.#getRunningServer(name);
+  }
+
+  async setDisabledServers(disabledServers: string[]): Promise<void> {
+    this.#record('setDisabledServers', '*');
+    for (const [name, server] of this.servers) {
+      server.enabled = !disabledServers.includes(name);
+    }
+  }
+
+  async setDisabledTools(name: string, disabledTools: string[]): Promise<void> {
+    this.#record('setDisabledTools', name);
+    this.#getServer(name).disabledTools = disabledTools;
+  }
+
+  async reloadTools(name: string): Promise<void> {
+    this.#record('reloadTools', name);
+    this.#getRunningServer(name);
+  }
+
+  async listTools(name: string): Promise<McpTool[]> {
+    this.#record('listTools', name);
+    const server = this.#getRunningServer(name);
+    return server.tools.map((tool) => ({ ...tool, _enabled: !server.disabledTools.includes(tool.name) }));
+  }
+
+  async callTool(name: string, toolName: string, args: any, options: ToolCallOptions = {}): Promise<any> {
+    this.#record('callTool', name);
+    const server = this.#getRunningServer(name);
+    if (server.handleToolCall) {
+      return await server.handleToolCall(toolName, args, options);
+    }
+    return { content: [{ type: 'text', text: `${toolName} called` }] };
+  }
+
+  async listResources(name: string): Promise<McpResource[]> {
+    this.#record('listResources', name);
+    return this.#getRunningServer(name).resources;
+  }
+
+  async listResourceTemplates(name: string): Promise<McpResourceTemplate[]> {
+    this.#record('listResourceTemplates', name);
+    return this.#getRunningServer(name).resourceTemplates;
+  }
+
+  async readResource(name: string, uri: string): Promise<McpResourceContents[]> {
+    this.#record('readResource', name);
+    const resource = this.#getRunningServer(name).resources.find((item) => item.uri === uri);
+    if (!resource) {
+      throw new Error(`Resource "${uri}" not found`);
+    }
+    return [{ uri, mimeType: resource.mimeType, text: resource.name }];
+  }
+
+  async listPrompts(name: string): Promise<McpPrompt[]> {
+    this.#record('listPrompts', name);
+    return this.#getRunningServer(name).prompts;
+  }
+
+  async getPrompt(name: string, promptName: string, args: Record<string, string>): Promise<McpPromptResult> {
+    this.#record('getPrompt', name);
+    return { messages: [{ role: 'user', content: { type: 'text', text: `${promptName} ${JSON.stringify(args)}` } }] };
+  }
+}
@@ -0,0 +1,45 @@
+import { getExtensionSettings } from './settings.js';
+
+/**
+ * Gets the timeout of a tool in seconds, 0 if calls may run forever.
+ * Tool timeouts take priority over server timeouts, server timeouts over the default timeout.
+ */
+export function getToolTimeout(serverName: string, toolName: string): number {
+  const settings = getExtensionSettings();
+  return (
+    settings.toolTimeouts?.[serverName]?.[toolName] ??
+    settings.serverTimeouts?.[serverName] ??
+    settings.toolTimeout ??
+    0
+  );
+}
+
+/**
+ * Sets the timeout of a server.
+ * @param seconds The timeout, 0 for none, or undefined to use the default timeout.
+ */
+export function setServerTimeout(serverName: string, seconds: number | undefined): void {
+  const context = SillyTavern.getContext();
+  const settings = getExtensionSettings();
+  if (seconds !== undefined) {
+    settings.serverTimeouts[serverName] = seconds;
+  } else {
+    delete settings.serverTimeouts[serverName];
+  }
+  context.saveSettingsDebounced();
+}
+
+/**
+ * Sets the timeout of a tool.
+ * @param seconds The timeout, 0 for none, or undefined to use the server timeout.
+ */
+export function setToolTimeout(serverName: string, toolName: string, seconds: number | undefined): void {
+  const context = SillyTavern.getContext();
+  const settings = getExtensionSettings();
+  if (seconds !== undefined) {
+    settings.toolTimeouts[serverName] = { ...settings.toolTimeouts[serverName], [toolName]: seconds };
+  } else if (settings.toolTimeouts[serverName]) {
+    delete settings.toolTimeouts[serverName][toolName];
+  }
+  context.saveSettingsDebounced();
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from '@jest/globals';
+import { getToolBadges, getToolTitle, isDestructiveTool, isReadOnlyTool } from './tool-annotations.js';
+
+describe('getToolTitle', () => {
+  it('prefers the top level title', () => {
+    expect(getToolTitle({ name: 'read', title: 'Read file', annotations: { title: 'Read' } })).toBe('Read file');
+    expect(getToolTitle({ name: 'read', annotations: { title: 'Read' } })).toBe('Read');
+    expect(getToolTitle({ name: 'read' })).toBeUndefined();
+  });
+});
+
+describe('tool hints', () => {
+  it('only trusts explicit hints', () => {
+    expect(isReadOnlyTool({ name: 'read', annotations: { readOnlyHint: true } })).toBe(true);
+    expect(isReadOnlyTool({ name: 'read' })).toBe(false);
+    expect(isDestructiveTool({ name: 'delete', annotations: { destructiveHint: true } })).toBe(true);
+    expect(isDestructiveTool({ name: 'write' })).toBe(false);
+  });
+
+  it('ignores the destructive hint of read-only tools', () => {
+    expect(isDestructiveTool({ name: 'read', annotations: { readOnlyHint: true, destructiveHint: true } })).toBe(false);
+  });
+});
+
+describe('getToolBadges', () => {
+  it('shows a badge for each hint', () => {
+    const badges = getToolBadges({
+      name: 'put',
+      annotations: { destructiveHint: true, idempotentHint: true, openWorldHint: true },
+    });
+
+    expect(badges.map((badge) => badge.className)).toEqual(['destructive', 'idempotent', 'open-world']);
+  });
+
+  it('shows no badges for tools without annotations', () => {
+    expect(getToolBadges({ name: 'write' })).toEqual([]);
+  });
+});
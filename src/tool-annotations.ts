@@ -0,0 +1,74 @@
+import { McpTool } from './mcp-client.js';
+
+export interface ToolBadge {
+  label: string;
+  /** Font Awesome icon class */
+  icon: string;
+  /** Explains the badge on hover */
+  title: string;
+  className: string;
+}
+
+/**
+ * Gets the human readable title of a tool, if the server sent one.
+ * The top level title takes priority over the annotation title, as in the MCP specification.
+ */
+export function getToolTitle(tool: McpTool): string | undefined {
+  return tool.title || tool.annotations?.title || undefined;
+}
+
+/**
+ * Checks if the server marks a tool as read-only. Tools without annotations are not.
+ */
+export function isReadOnlyTool(tool: McpTool): boolean {
+  return tool.annotations?.readOnlyHint === true;
+}
+
+/**
+ * Checks if the server marks a tool as destructive.
+ * Only explicit hints count, so servers that send no annotations do not lose all their tools.
+ */
+export function isDestructiveTool(tool: McpTool): boolean {
+  return !isReadOnlyTool(tool) && tool.annotations?.destructiveHint === true;
+}
+
+/**
+ * Gets the badges that show the annotations of a tool.
+ */
+export function getToolBadges(tool: McpTool): ToolBadge[] {
+  const annotations = tool.annotations;
+  const badges: ToolBadge[] = [];
+  if (isReadOnlyTool(tool)) {
+    badges.push({
+      label: 'Read-only',
+      icon: 'fa-eye',
+      title: 'Does not change anything',
+      className: 'read-only',
+    });
+  }
+  if (isDestructiveTool(tool)) {
+    badges.push({
+      label: 'Destructive',
+      icon: 'fa-triangle-exclamation',
+      title: 'May delete or overwrite data',
+      className: 'destructive',
+    });
+  }
+  if (!isReadOnlyTool(tool) && annotations?.idempotentHint === true) {
+    badges.push({
+      label: 'Idempotent',
+      icon: 'fa-equals',
+      title: 'Calling it again with the same arguments has no further effect',
+      className: 'idempotent',
+    });
+  }
+  if (annotations?.openWorldHint === true) {
+    badges.push({
+      label: 'Open world',
+      icon: 'fa-globe',
+      title: 'Talks to the outside world, e.g. the web',
+      className: 'open-world',
+    });
+  }
+  return badges;
+}
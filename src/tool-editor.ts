@@ -0,0 +1,150 @@
+import { POPUP_RESULT, POPUP_TYPE } from 'sillytavern-utils-lib/types/popup';
+import { st_echo } from 'sillytavern-utils-lib/config';
+import { McpTool } from './mcp-client.js';
+import { extensionName } from './settings.js';
+import { ToolOverride } from './tool-overrides.js';
+
+type ParameterMode = '' | 'hidden' | 'default' | 'fixed';
+
+/**
+ * Shows an argument value in an input. Strings of string parameters are shown as typed, everything else as JSON.
+ */
+function formatValue(value: any, property: any): string {
+  return typeof value === 'string' && property?.type === 'string' ? value : JSON.stringify(value);
+}
+
+/**
+ * Reads an argument value from an input, the reverse of `formatValue`.
+ * @throws If a parameter that is not a string gets invalid JSON.
+ */
+function parseValue(name: string, text: string, property: any): any {
+  if (property?.type === 'string') {
+    return text;
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new Error(`The value of "${name}" must be JSON, like 10, true or "text".`);
+  }
+}
+
+/**
+ * Shows a popup to change the name, description and parameters of a tool.
+ * @param serverName The name of the server the tool belongs to.
+ * @param tool The tool as the server sent it.
+ * @param override The current override of the tool.
+ * @returns The edited override, empty to reset the tool, or null if the edit was cancelled.
+ */
+export async function openToolEditor(
+  serverName: string,
+  tool: McpTool,
+  override: ToolOverride = {},
+): Promise<ToolOverride | null> {
+  const context = SillyTavern.getContext();
+  const content = await context.renderExtensionTemplateAsync(`third-party/${extensionName}`, 'templates/tool-editor');
+  const tempDiv = document.createElement('div');
+  tempDiv.innerHTML = content;
+  const editorContent = tempDiv.firstElementChild as HTMLElement;
+
+  const displayNameInput = editorContent.querySelector('#mcp-tool-display-name') as HTMLInputElement;
+  const descriptionInput = editorContent.querySelector('#mcp-tool-description') as HTMLTextAreaElement;
+  const parameterList = editorContent.querySelector('#mcp-tool-parameters') as HTMLElement;
+  const rowTemplate = editorContent.querySelector('#parameter-row-template') as HTMLTemplateElement;
+
+  editorContent.querySelector('.tool-editor-name')!.textContent = `${serverName}: ${tool.name}`;
+  displayNameInput.placeholder = `${serverName}: ${tool.name}`;
+  displayNameInput.value = override.displayName ?? '';
+  descriptionInput.placeholder = tool.description ?? '';
+  descriptionInput.value = override.description ?? '';
+
+  const properties: Record<string, any> = tool.inputSchema?.properties ?? {};
+  const required: string[] = Array.isArray(tool.inputSchema?.required) ? tool.inputSchema.required : [];
+  if (Object.keys(properties).length === 0) {
+    (editorContent.querySelector('.tool-editor-parameters-group') as HTMLElement).style.display = 'none';
+  }
+
+  for (const [name, property] of Object.entries(properties)) {
+    const row = (rowTemplate.content.cloneNode(true) as DocumentFragment).querySelector(
+      '.parameter-row',
+    ) as HTMLElement;
+    row.dataset.name = name;
+    row.querySelector('.parameter-name')!.textContent = required.includes(name) ? `${name} *` : name;
+    row.querySelector('.parameter-description')!.textContent = property?.description ?? '';
+
+    const modeSelect = row.querySelector('.parameter-mode') as HTMLSelectElement;
+    const valueInput = row.querySelector('.parameter-value') as HTMLInputElement;
+    if (override.fixedArguments && name in override.fixedArguments) {
+      modeSelect.value = 'fixed';
+      valueInput.value = formatValue(override.fixedArguments[name], property);
+    } else if (override.defaultArguments && name in override.defaultArguments) {
+      modeSelect.value = 'default';
+      valueInput.value = formatValue(override.defaultArguments[name], property);
+    } else if (override.hiddenParameters?.includes(name)) {
+      modeSelect.value = 'hidden';
+    }
+
+    const updateValueInput = () => {
+      valueInput.style.display = modeSelect.value === 'default' || modeSelect.value === 'fixed' ? '' : 'none';
+    };
+    modeSelect.addEventListener('change', updateValueInput);
+    updateValueInput();
+
+    parameterList.appendChild(row);
+  }
+
+  editorContent.querySelector('#mcp-tool-reset')!.addEventListener('click', () => {
+    displayNameInput.value = '';
+    descriptionInput.value = '';
+    parameterList.querySelectorAll<HTMLElement>('.parameter-row').forEach((row) => {
+      const modeSelect = row.querySelector('.parameter-mode') as HTMLSelectElement;
+      modeSelect.value = '';
+      modeSelect.dispatchEvent(new Event('change'));
+      (row.querySelector('.parameter-value') as HTMLInputElement).value = '';
+    });
+  });
+
+  const readOverride = (): ToolOverride => {
+    const edited: ToolOverride = {};
+    if (displayNameInput.value.trim()) {
+      edited.displayName = displayNameInput.value.trim();
+    }
+    if (descriptionInput.value.trim()) {
+      edited.description = descriptionInput.value.trim();
+    }
+
+    for (const row of Array.from(parameterList.querySelectorAll<HTMLElement>('.parameter-row'))) {
+      const name = row.dataset.name!;
+      const mode = (row.querySelector('.parameter-mode') as HTMLSelectElement).value as ParameterMode;
+      const text = (row.querySelector('.parameter-value') as HTMLInputElement).value;
+      if (mode === 'hidden') {
+        edited.hiddenParameters = [...(edited.hiddenParameters ?? []), name];
+      } else if (mode === 'default') {
+        edited.defaultArguments = { ...edited.defaultArguments, [name]: parseValue(name, text, properties[name]) };
+      } else if (mode === 'fixed') {
+        edited.fixedArguments = { ...edited.fixedArguments, [name]: parseValue(name, text, properties[name]) };
+      }
+    }
+    return edited;
+  };
+
+  let edited: ToolOverride | null = null;
+  const result = await context.callGenericPopup($(editorContent), POPUP_TYPE.CONFIRM, '', {
+    okButton: 'Save',
+    cancelButton: 'Cancel',
+    wide: true,
+    onClosing: async (popup) => {
+      if (popup.result !== POPUP_RESULT.AFFIRMATIVE) {
+        return true;
+      }
+      try {
+        edited = readOverride();
+      } catch (error) {
+        await st_echo('error', (error as Error).message);
+        return false;
+      }
+      return true;
+    },
+  });
+
+  return result === POPUP_RESULT.AFFIRMATIVE ? edited : null;
+}
@@ -0,0 +1,75 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+
+type ToolIdsModule = typeof import('./tool-ids.js');
+
+let toolIds: ToolIdsModule;
+let context: { extensionSettings: Record<string, any>; saveSettingsDebounced: jest.Mock };
+
+beforeEach(async () => {
+  jest.resetModules();
+  context = {
+    extensionSettings: { mcp: { toolAliases: {} } },
+    saveSettingsDebounced: jest.fn(),
+  };
+  (globalThis as any).SillyTavern = { getContext: () => context };
+
+  toolIds = await import('./tool-ids.js');
+});
+
+describe('buildToolId', () => {
+  it('keeps simple names readable', () => {
+    expect(toolIds.buildToolId('web', 'search')).toBe('mcp_web_search');
+    expect(toolIds.buildToolId('brave-search', 'brave_web_search')).toBe('mcp_brave-search_brave_web_search');
+  });
+
+  it('replaces characters providers reject', () => {
+    expect(toolIds.buildToolId('@playwright/mcp', 'browser.click')).toBe('mcp__playwright_mcp_browser_click');
+  });
+
+  it('cuts long names to 64 characters and keeps them apart with a hash', () => {
+    const server = 'a-very-long-server-name-that-someone-pasted-from-a-readme';
+    const first = toolIds.buildToolId(server, 'list_repository_contents');
+    const second = toolIds.buildToolId(server, 'list_repository_branches');
+
+    expect(first).toHaveLength(64);
+    expect(first).toMatch(/^[a-zA-Z0-9_-]+$/);
+    expect(first).not.toBe(second);
+    expect(toolIds.buildToolId(server, 'list_repository_contents')).toBe(first);
+  });
+
+  it('uses the alias if one is set', () => {
+    expect(toolIds.buildToolId('web', 'search', 'search_web')).toBe('search_web');
+  });
+});
+
+describe('buildCollisionToolId', () => {
+  it('appends a hash of the server and tool name', () => {
+    const id = toolIds.buildCollisionToolId('mcp_a_b_x', 'a.b', 'x');
+
+    expect(id).toMatch(/^mcp_a_b_x_[0-9a-z]{8}$/);
+    expect(id).not.toBe(toolIds.buildCollisionToolId('mcp_a_b_x', 'a_b', 'x'));
+  });
+});
+
+describe('setToolAlias', () => {
+  it('stores and removes aliases', () => {
+    toolIds.setToolAlias('web', 'search', 'search_web');
+    expect(toolIds.getToolAlias('web', 'search')).toBe('search_web');
+
+    toolIds.setToolAlias('web', 'search', undefined);
+    expect(toolIds.getToolAlias('web', 'search')).toBeUndefined();
+    expect(context.saveSettingsDebounced).toHaveBeenCalledTimes(2);
+  });
+
+  it('rejects names providers do not accept', () => {
+    expect(() => toolIds.setToolAlias('web', 'search', 'search web')).toThrow('may only contain');
+    expect(() => toolIds.setToolAlias('web', 'search', 'x'.repeat(65))).toThrow('at most 64 characters');
+  });
+
+  it('rejects aliases used by another tool', () => {
+    toolIds.setToolAlias('web', 'search', 'search');
+
+    expect(() => toolIds.setToolAlias('files', 'search', 'search')).toThrow('already used by "web: search"');
+    expect(() => toolIds.setToolAlias('web', 'search', 'search')).not.toThrow();
+  });
+});
@@ -0,0 +1,105 @@
+import { getExtensionSettings } from './settings.js';
+
+/** OpenAI and Gemini reject function names longer than this */
+export const MAX_TOOL_ID_LENGTH = 64;
+
+const VALID_TOOL_ID = /^[a-zA-Z0-9_-]{1,64}$/;
+
+/**
+ * Hashes a string to 8 base 36 characters with 32-bit FNV-1a. Stable across sessions, not cryptographic.
+ */
+export function hashName(value: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36).padStart(8, '0');
+}
+
+/**
+ * Replaces every character providers do not accept in function names with an underscore.
+ */
+export function sanitizeToolId(value: string): string {
+  return value.replace(/[^a-zA-Z0-9_-]/g, '_');
+}
+
+/**
+ * Shortens an ID to the provider limit, keeping it unique with a hash of the full name.
+ * @param id The sanitized ID.
+ * @param source The name the hash is taken from.
+ */
+function fitToolId(id: string, source: string): string {
+  if (id.length <= MAX_TOOL_ID_LENGTH) {
+    return id;
+  }
+  const hash = hashName(source);
+  return `${id.slice(0, MAX_TOOL_ID_LENGTH - hash.length - 1)}_${hash}`;
+}
+
+/**
+ * Builds the function name a tool is registered with. The same server and tool always get the same ID.
+ * `mcp_@scope/server_tool` becomes `mcp__scope_server_tool`, names over 64 characters are cut and end in a hash.
+ * @param serverName The name of the server.
+ * @param toolName The name of the tool.
+ * @param alias The alias the user set for the tool, used instead of the generated name.
+ */
+export function buildToolId(serverName: string, toolName: string, alias?: string): string {
+  if (alias) {
+    return alias;
+  }
+  const source = `mcp_${serverName}_${toolName}`;
+  return fitToolId(sanitizeToolId(source), source);
+}
+
+/**
+ * Builds an alternative ID for a tool whose ID is taken by another tool.
+ * The hash is taken from the server and tool name, so the ID stays the same while the collision lasts.
+ */
+export function buildCollisionToolId(toolId: string, serverName: string, toolName: string): string {
+  const hash = hashName(`${serverName}\u0000${toolName}`);
+  return `${toolId.slice(0, MAX_TOOL_ID_LENGTH - hash.length - 1)}_${hash}`;
+}
+
+/**
+ * Checks that a tool alias is a function name every provider accepts.
+ * @throws If the alias has other characters or is too long.
+ */
+export function assertValidToolAlias(alias: string): void {
+  if (!VALID_TOOL_ID.test(alias)) {
+    throw new Error(
+      `Tool alias "${alias}" may only contain letters, digits, "_" and "-", and be at most ${MAX_TOOL_ID_LENGTH} characters long.`,
+    );
+  }
+}
+
+/**
+ * Gets the alias the user set for a tool.
+ */
+export function getToolAlias(serverName: string, toolName: string): string | undefined {
+  return getExtensionSettings().toolAliases?.[serverName]?.[toolName];
+}
+
+/**
+ * Sets the alias of a tool.
+ * @param alias The alias, or undefined to use the generated ID.
+ * @throws If the alias is not a valid function name or another tool uses it.
+ */
+export function setToolAlias(serverName: string, toolName: string, alias: string | undefined): void {
+  const context = SillyTavern.getContext();
+  const settings = getExtensionSettings();
+  if (alias !== undefined) {
+    assertValidToolAlias(alias);
+    for (const [otherServer, tools] of Object.entries(settings.toolAliases)) {
+      for (const [otherTool, otherAlias] of Object.entries(tools)) {
+        if (otherAlias === alias && (otherServer !== serverName || otherTool !== toolName)) {
+          throw new Error(`Alias "${alias}" is already used by "${otherServer}: ${otherTool}".`);
+        }
+      }
+    }
+    settings.toolAliases[serverName] = { ...settings.toolAliases[serverName], [toolName]: alias };
+  } else if (settings.toolAliases[serverName]) {
+    delete settings.toolAliases[serverName][toolName];
+  }
+  context.saveSettingsDebounced();
+}
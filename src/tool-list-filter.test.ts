@@ -0,0 +1,78 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  estimateSchemaTokens,
+  formatTokenCount,
+  matchesServerFilter,
+  matchesToolFilter,
+  ToolListEntry,
+} from './tool-list-filter.js';
+
+const entry: ToolListEntry = {
+  serverName: 'brave-search',
+  toolName: 'web_search',
+  title: 'Web Search',
+  description: 'Searches the web with Brave.',
+  enabled: true,
+  connected: true,
+  failed: false,
+};
+
+describe('matchesToolFilter', () => {
+  it('searches names, titles and descriptions', () => {
+    expect(matchesToolFilter(entry, { search: 'WEB_', status: '' })).toBe(true);
+    expect(matchesToolFilter(entry, { search: 'brave', status: '' })).toBe(true);
+    expect(matchesToolFilter(entry, { search: ' the web ', status: '' })).toBe(true);
+    expect(matchesToolFilter(entry, { search: 'files', status: '' })).toBe(false);
+    expect(matchesToolFilter({ ...entry, title: undefined, description: undefined }, { search: '', status: '' })).toBe(
+      true,
+    );
+  });
+
+  it('filters by status', () => {
+    const disabled = { ...entry, enabled: false, connected: false, failed: true };
+
+    expect(matchesToolFilter(entry, { search: '', status: 'enabled' })).toBe(true);
+    expect(matchesToolFilter(disabled, { search: '', status: 'enabled' })).toBe(false);
+    expect(matchesToolFilter(disabled, { search: '', status: 'disabled' })).toBe(true);
+    expect(matchesToolFilter(disabled, { search: '', status: 'connected' })).toBe(false);
+    expect(matchesToolFilter(entry, { search: '', status: 'errors' })).toBe(false);
+    expect(matchesToolFilter(disabled, { search: '', status: 'errors' })).toBe(true);
+  });
+
+  it('needs both the search and the status to match', () => {
+    expect(matchesToolFilter(entry, { search: 'web', status: 'disabled' })).toBe(false);
+  });
+});
+
+describe('matchesServerFilter', () => {
+  it('finds failed servers by name and status', () => {
+    const server = { serverName: 'Files', connected: false, failed: true };
+
+    expect(matchesServerFilter(server, { search: 'file', status: 'errors' })).toBe(true);
+    expect(matchesServerFilter(server, { search: 'web', status: 'errors' })).toBe(false);
+    expect(matchesServerFilter(server, { search: '', status: 'connected' })).toBe(false);
+    expect(matchesServerFilter(server, { search: '', status: 'disabled' })).toBe(false);
+  });
+});
+
+describe('estimateSchemaTokens', () => {
+  it('grows with the schema', () => {
+    const small = estimateSchemaTokens({ name: 'ping' });
+    const large = estimateSchemaTokens({
+      name: 'ping',
+      description: 'Checks if a host responds.',
+      inputSchema: { type: 'object', properties: { host: { type: 'string', description: 'The host name' } } },
+    });
+
+    expect(small).toBeGreaterThan(0);
+    expect(large).toBeGreaterThan(small);
+  });
+});
+
+describe('formatTokenCount', () => {
+  it('shortens thousands', () => {
+    expect(formatTokenCount(950)).toBe('950');
+    expect(formatTokenCount(1000)).toBe('1k');
+    expect(formatTokenCount(12345)).toBe('12.3k');
+  });
+});
@@ -0,0 +1,84 @@
+import { McpTool } from './mcp-client.js';
+
+/** Which tools `Manage Tools` shows, besides the search */
+export type ToolListStatus = '' | 'enabled' | 'disabled' | 'connected' | 'errors';
+
+export interface ToolListFilter {
+  search: string;
+  status: ToolListStatus;
+}
+
+/**
+ * A tool as the filter of `Manage Tools` sees it.
+ */
+export interface ToolListEntry {
+  serverName: string;
+  toolName: string;
+  title?: string;
+  description?: string;
+  enabled: boolean;
+  connected: boolean;
+  /** Whether the server failed to connect or lost its connection */
+  failed: boolean;
+}
+
+/**
+ * Checks if a tool matches the search and status of the filter.
+ * The search is case-insensitive and looks at the tool name, title and description, and the server name.
+ */
+export function matchesToolFilter(entry: ToolListEntry, filter: ToolListFilter): boolean {
+  switch (filter.status) {
+    case 'enabled':
+      if (!entry.enabled) return false;
+      break;
+    case 'disabled':
+      if (entry.enabled) return false;
+      break;
+    case 'connected':
+      if (!entry.connected) return false;
+      break;
+    case 'errors':
+      if (!entry.failed) return false;
+      break;
+  }
+
+  const search = filter.search.trim().toLowerCase();
+  if (!search) return true;
+  return [entry.serverName, entry.toolName, entry.title, entry.description]
+    .filter((text) => text !== undefined)
+    .some((text) => text.toLowerCase().includes(search));
+}
+
+/**
+ * Checks if a server matches the filter by itself, so servers without tools, e.g. ones that failed to connect, can be found.
+ * The enabled and disabled statuses are about tools, so no server matches them by itself.
+ */
+export function matchesServerFilter(
+  server: Pick<ToolListEntry, 'serverName' | 'connected' | 'failed'>,
+  filter: ToolListFilter,
+): boolean {
+  if (filter.status === 'enabled' || filter.status === 'disabled') return false;
+  if (filter.status === 'connected' && !server.connected) return false;
+  if (filter.status === 'errors' && !server.failed) return false;
+  return server.serverName.toLowerCase().includes(filter.search.trim().toLowerCase());
+}
+
+/**
+ * Estimates how many prompt tokens the definition of a tool takes, at about 4 characters per token.
+ * The real count depends on the model and how its API formats tools.
+ */
+export function estimateSchemaTokens(tool: McpTool): number {
+  const definition = JSON.stringify({
+    name: tool.name,
+    description: tool.description ?? '',
+    parameters: tool.inputSchema ?? {},
+  });
+  return Math.ceil(definition.length / 4);
+}
+
+/**
+ * Formats a token count for display, e.g. `950` or `12.3k`.
+ */
+export function formatTokenCount(tokens: number): string {
+  return tokens < 1000 ? String(tokens) : `${(tokens / 1000).toFixed(1).replace(/\.0$/, '')}k`;
+}
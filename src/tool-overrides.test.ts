@@ -0,0 +1,80 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+
+type ToolOverridesModule = typeof import('./tool-overrides.js');
+
+let overrides: ToolOverridesModule;
+let context: { extensionSettings: Record<string, any>; saveSettingsDebounced: jest.Mock };
+
+const schema = {
+  type: 'object',
+  properties: {
+    query: { type: 'string' },
+    limit: { type: 'number' },
+    region: { type: 'string' },
+    debug: { type: 'boolean' },
+  },
+  required: ['query', 'limit', 'region'],
+};
+
+beforeEach(async () => {
+  jest.resetModules();
+  context = {
+    extensionSettings: { mcp: { toolOverrides: {} } },
+    saveSettingsDebounced: jest.fn(),
+  };
+  (globalThis as any).SillyTavern = { getContext: () => context };
+
+  overrides = await import('./tool-overrides.js');
+});
+
+describe('applySchemaOverride', () => {
+  it('removes hidden and fixed parameters and relaxes parameters with defaults', () => {
+    const result = overrides.applySchemaOverride(schema, {
+      hiddenParameters: ['debug'],
+      fixedArguments: { region: 'eu' },
+      defaultArguments: { limit: 5 },
+    });
+
+    expect(result).toEqual({
+      type: 'object',
+      properties: { query: { type: 'string' }, limit: { type: 'number', default: 5 } },
+      required: ['query'],
+    });
+    // The server schema stays intact for argument handling
+    expect(Object.keys(schema.properties)).toEqual(['query', 'limit', 'region', 'debug']);
+    expect(schema.required).toEqual(['query', 'limit', 'region']);
+  });
+
+  it('keeps schemas without an override or properties', () => {
+    expect(overrides.applySchemaOverride(schema, undefined)).toBe(schema);
+    expect(overrides.applySchemaOverride({ type: 'object' }, { hiddenParameters: ['x'] })).toEqual({ type: 'object' });
+  });
+});
+
+describe('applyArgumentOverrides', () => {
+  const override = { hiddenParameters: ['debug'], fixedArguments: { region: 'eu' }, defaultArguments: { limit: 5 } };
+
+  it('fills defaults, forces fixed values and drops hidden arguments', () => {
+    expect(overrides.applyArgumentOverrides({ query: 'cats', region: 'us', debug: true }, override)).toEqual({
+      query: 'cats',
+      limit: 5,
+      region: 'eu',
+    });
+  });
+
+  it('keeps values the model chose for parameters with a default', () => {
+    expect(overrides.applyArgumentOverrides({ query: 'cats', limit: 20 }, override)).toMatchObject({ limit: 20 });
+    expect(overrides.applyArgumentOverrides({ query: 'cats', limit: null }, override)).toMatchObject({ limit: 5 });
+  });
+});
+
+describe('setToolOverride', () => {
+  it('stores overrides and removes empty ones', () => {
+    overrides.setToolOverride('web', 'search', { description: 'Search' });
+    expect(overrides.getToolOverride('web', 'search')).toEqual({ description: 'Search' });
+
+    overrides.setToolOverride('web', 'search', { hiddenParameters: [] });
+    expect(overrides.getToolOverride('web', 'search')).toBeUndefined();
+    expect(context.saveSettingsDebounced).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,105 @@
+import { getExtensionSettings } from './settings.js';
+
+/**
+ * Changes the user made to how a tool is presented to the model.
+ */
+export interface ToolOverride {
+  /** Replaces the `server: tool` label shown in SillyTavern */
+  displayName?: string;
+  /** Replaces the description the server sent */
+  description?: string;
+  /** Parameters left out of the schema sent to the model */
+  hiddenParameters?: string[];
+  /** Argument values that replace whatever the model sends. Their parameters are hidden from the model. */
+  fixedArguments?: Record<string, any>;
+  /** Argument values used when the model leaves a parameter out */
+  defaultArguments?: Record<string, any>;
+}
+
+/**
+ * Gets the override of a tool.
+ */
+export function getToolOverride(serverName: string, toolName: string): ToolOverride | undefined {
+  return getExtensionSettings().toolOverrides?.[serverName]?.[toolName];
+}
+
+/**
+ * Checks if an override changes nothing.
+ */
+export function isEmptyOverride(override: ToolOverride): boolean {
+  return (
+    !override.displayName &&
+    !override.description &&
+    !override.hiddenParameters?.length &&
+    Object.keys(override.fixedArguments ?? {}).length === 0 &&
+    Object.keys(override.defaultArguments ?? {}).length === 0
+  );
+}
+
+/**
+ * Sets the override of a tool.
+ * @param override The override, or undefined to go back to what the server sent.
+ */
+export function setToolOverride(serverName: string, toolName: string, override: ToolOverride | undefined): void {
+  const context = SillyTavern.getContext();
+  const settings = getExtensionSettings();
+  if (override !== undefined && !isEmptyOverride(override)) {
+    settings.toolOverrides[serverName] = { ...settings.toolOverrides[serverName], [toolName]: override };
+  } else if (settings.toolOverrides[serverName]) {
+    delete settings.toolOverrides[serverName][toolName];
+  }
+  context.saveSettingsDebounced();
+}
+
+/**
+ * Removes hidden and fixed parameters from a tool schema. Parameters with a default are no longer required.
+ * The original schema is not changed.
+ * @param schema The parameter schema the server sent.
+ * @param override The override of the tool.
+ */
+export function applySchemaOverride(schema: any, override: ToolOverride | undefined): any {
+  if (!override || typeof schema?.properties !== 'object') {
+    return schema;
+  }
+
+  const removed = new Set([...(override.hiddenParameters ?? []), ...Object.keys(override.fixedArguments ?? {})]);
+  const optional = new Set([...removed, ...Object.keys(override.defaultArguments ?? {})]);
+  const properties: Record<string, any> = {};
+  for (const [name, property] of Object.entries<any>(schema.properties)) {
+    if (removed.has(name)) continue;
+    properties[name] =
+      override.defaultArguments && name in override.defaultArguments
+        ? { ...property, default: override.defaultArguments[name] }
+        : property;
+  }
+
+  const result = { ...schema, properties };
+  if (Array.isArray(schema.required)) {
+    result.required = schema.required.filter((name: string) => !optional.has(name));
+  }
+  return result;
+}
+
+/**
+ * Injects the fixed and default arguments of a tool into the arguments the model sent.
+ * Arguments for hidden parameters are dropped, since the model was not supposed to know them.
+ * @param args The arguments sent by the model.
+ * @param override The override of the tool.
+ */
+export function applyArgumentOverrides(args: any, override: ToolOverride | undefined): any {
+  if (!override) {
+    return args;
+  }
+
+  const result: Record<string, any> = { ...(typeof args === 'object' && args !== null ? args : {}) };
+  for (const name of override.hiddenParameters ?? []) {
+    delete result[name];
+  }
+  for (const [name, value] of Object.entries(override.defaultArguments ?? {})) {
+    // Strict schema profiles make the model send null for parameters it leaves out
+    if (result[name] === undefined || result[name] === null) {
+      result[name] = value;
+    }
+  }
+  return { ...result, ...override.fixedArguments };
+}
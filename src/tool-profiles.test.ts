@@ -0,0 +1,184 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { FakeTransport } from './test-utils/fake-transport.js';
+
+type ToolProfilesModule = typeof import('./tool-profiles.js');
+type MCPClientClass = typeof import('./mcp-client.js').MCPClient;
+
+const searchTool = { name: 'search', description: 'Search the web' };
+const fetchTool = { name: 'fetch', description: 'Fetch a page' };
+const readTool = { name: 'read', description: 'Read a file' };
+
+let profiles: ToolProfilesModule;
+let MCPClient: MCPClientClass;
+let transport: FakeTransport;
+let context: {
+  extensionSettings: Record<string, any>;
+  registerFunctionTool: jest.Mock<(tool: any) => void>;
+  unregisterFunctionTool: jest.Mock<(name: string) => void>;
+  saveSettingsDebounced: jest.Mock<() => void>;
+};
+let registered: Set<string>;
+
+beforeEach(async () => {
+  jest.resetModules();
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+
+  registered = new Set();
+  context = {
+    extensionSettings: { mcp: { enabled: true, directServers: {}, toolProfiles: {}, activeToolProfile: '' } },
+    registerFunctionTool: jest.fn((tool: any) => {
+      registered.add(tool.name);
+    }),
+    unregisterFunctionTool: jest.fn((name: string) => {
+      registered.delete(name);
+    }),
+    saveSettingsDebounced: jest.fn(),
+  };
+  (globalThis as any).SillyTavern = { getContext: () => context };
+
+  MCPClient = (await import('./mcp-client.js')).MCPClient;
+  profiles = await import('./tool-profiles.js');
+  transport = new FakeTransport();
+  MCPClient.setTransport(transport);
+
+  transport.addFakeServer('web', [searchTool, fetchTool]);
+  transport.addFakeServer('files', [readTool]);
+  await MCPClient.handleTools(true);
+});
+
+describe('saveToolProfile', () => {
+  it('captures the enabled servers and tools', async () => {
+    await MCPClient.updateDisabledTools('web', ['fetch']);
+
+    await profiles.saveToolProfile(' Research ');
+
+    expect(context.extensionSettings.mcp.toolProfiles.Research).toEqual({
+      servers: {
+        web: { enabled: true, disabledTools: ['fetch'] },
+        files: { enabled: true, disabledTools: [] },
+      },
+    });
+    expect(profiles.getActiveToolProfile()).toBe('Research');
+  });
+});
+
+describe('applyToolProfile', () => {
+  it('changes only the servers and tools that differ', async () => {
+    context.extensionSettings.mcp.toolProfiles.Coding = {
+      servers: {
+        web: { enabled: true, disabledTools: ['search'] },
+        files: { enabled: false, disabledTools: [] },
+      },
+    };
+    transport.calls = [];
+
+    const diff = await profiles.applyToolProfile('Coding');
+
+    expect(diff).toEqual({ disabledServers: ['files'], disabledTools: { web: ['search'] } });
+    expect(transport.calls.filter((call) => !call.startsWith('listTools'))).toEqual([
+      'setDisabledTools:web',
+      'setDisabledServers:*',
+      'stopServer:files',
+    ]);
+    expect(Array.from(registered)).toEqual(['mcp_web_fetch']);
+    expect(profiles.getActiveToolProfile()).toBe('Coding');
+  });
+
+  it('does nothing if the profile matches', async () => {
+    await profiles.saveToolProfile('Everything');
+    transport.calls = [];
+
+    await profiles.applyToolProfile('Everything');
+
+    expect(transport.calls.filter((call) => !call.startsWith('listTools'))).toEqual([]);
+  });
+
+  it('restores the previous states if a server fails', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    context.extensionSettings.mcp.toolProfiles.Coding = {
+      servers: {
+        web: { enabled: true, disabledTools: ['search'] },
+        files: { enabled: false, disabledTools: [] },
+      },
+    };
+    transport.failOn('stopServer', 'files');
+
+    await expect(profiles.applyToolProfile('Coding')).rejects.toThrow(
+      'Failed to update the enabled servers: stopServer failed for files. The previous states were restored.',
+    );
+
+    expect(transport.servers.get('web')!.disabledTools).toEqual([]);
+    expect(Array.from(registered).sort()).toEqual(['mcp_files_read', 'mcp_web_fetch', 'mcp_web_search']);
+    expect(transport.servers.get('files')!.enabled).toBe(true);
+    expect(profiles.getActiveToolProfile()).toBeUndefined();
+  });
+
+  it('names what it could not restore', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    context.extensionSettings.mcp.toolProfiles.Coding = {
+      servers: {
+        web: { enabled: true, disabledTools: ['search'] },
+        files: { enabled: true, disabledTools: ['read'] },
+      },
+    };
+    transport.failOn('setDisabledTools', 'files');
+
+    await expect(profiles.applyToolProfile('Coding')).rejects.toThrow(
+      'Failed to update the tools of server "files": setDisabledTools failed for files. ' +
+        'Could not restore the tools of server "files".',
+    );
+    expect(transport.servers.get('web')!.disabledTools).toEqual([]);
+  });
+
+  it('rejects unknown profiles', async () => {
+    await expect(profiles.applyToolProfile('Missing')).rejects.toThrow('Tool profile "Missing" not found.');
+  });
+});
+
+describe('diffToolProfile', () => {
+  const servers = [
+    { name: 'web', config: { type: 'stdio' as const }, enabled: true, cachedTools: {} },
+    { name: 'new', config: { type: 'stdio' as const }, enabled: false, cachedTools: {} },
+  ];
+
+  it('keeps servers the profile does not know and enables tools added since', () => {
+    const tools = new Map([
+      [
+        'web',
+        [
+          { ...searchTool, _enabled: false },
+          { ...fetchTool, _enabled: false },
+        ],
+      ],
+      ['new', undefined],
+    ]);
+
+    const diff = profiles.diffToolProfile({ servers: { web: { enabled: true, disabledTools: [] } } }, servers, tools);
+
+    expect(diff).toEqual({ disabledTools: { web: [] } });
+  });
+
+  it('keeps the tools of servers that could not be listed', () => {
+    const diff = profiles.diffToolProfile(
+      { servers: { new: { enabled: true, disabledTools: ['x'] } } },
+      servers,
+      new Map([['new', undefined]]),
+    );
+
+    expect(diff).toEqual({ disabledServers: [], disabledTools: {} });
+  });
+});
+
+describe('deleteToolProfile', () => {
+  it('removes the profile and forgets it was active', async () => {
+    const listener = jest.fn();
+    profiles.addToolProfileListener(listener);
+    await profiles.saveToolProfile('Research');
+
+    profiles.deleteToolProfile('Research');
+
+    expect(profiles.getToolProfileNames()).toEqual([]);
+    expect(context.extensionSettings.mcp.activeToolProfile).toBe('');
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+});
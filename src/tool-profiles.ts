@@ -0,0 +1,190 @@
+import { MCPClient, McpTool, ServerData } from './mcp-client.js';
+import { getExtensionSettings } from './settings.js';
+
+/**
+ * The state of one server in a tool profile.
+ */
+export interface ToolProfileServer {
+  enabled: boolean;
+  /** Undefined if the tools of the server were unknown when the profile was saved */
+  disabledTools?: string[];
+}
+
+/**
+ * A named set of enabled servers and tools.
+ */
+export interface ToolProfile {
+  servers: Record<string, ToolProfileServer>;
+}
+
+/**
+ * The changes needed to switch to a tool profile.
+ */
+export interface ToolProfileDiff {
+  /** The complete list of disabled servers, or undefined if it does not change */
+  disabledServers?: string[];
+  /** The complete list of disabled tools of each server whose tools change */
+  disabledTools: Record<string, string[]>;
+}
+
+const listeners: Array<() => void> = [];
+
+/**
+ * Adds a listener called after profiles are saved, deleted or applied.
+ */
+export function addToolProfileListener(listener: () => void): void {
+  listeners.push(listener);
+}
+
+function notifyListeners(): void {
+  for (const listener of listeners) {
+    try {
+      listener();
+    } catch (error) {
+      console.error('[MCPClient] Error in tool profile listener:', error);
+    }
+  }
+}
+
+/**
+ * Gets the names of the saved tool profiles, sorted.
+ */
+export function getToolProfileNames(): string[] {
+  return Object.keys(getExtensionSettings().toolProfiles).sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Gets the name of the tool profile that was applied last, if it still exists.
+ */
+export function getActiveToolProfile(): string | undefined {
+  const settings = getExtensionSettings();
+  return settings.activeToolProfile && settings.toolProfiles[settings.activeToolProfile]
+    ? settings.activeToolProfile
+    : undefined;
+}
+
+/**
+ * Lists the tools of every server, undefined for servers whose tools can not be listed.
+ */
+async function getAllServerTools(servers: ServerData[]): Promise<Map<string, McpTool[] | undefined>> {
+  const tools = new Map<string, McpTool[] | undefined>();
+  for (const server of servers) {
+    tools.set(server.name, await MCPClient.getServerTools(server.name));
+  }
+  return tools;
+}
+
+/**
+ * Captures the enabled state of all servers and their tools.
+ * @param servers The configured servers.
+ * @param tools The tools of each server, undefined if they are unknown.
+ */
+export function captureToolProfile(servers: ServerData[], tools: Map<string, McpTool[] | undefined>): ToolProfile {
+  const profile: ToolProfile = { servers: {} };
+  for (const server of servers) {
+    const serverTools = tools.get(server.name);
+    profile.servers[server.name] = {
+      enabled: server.enabled,
+      disabledTools: serverTools?.filter((tool) => !tool._enabled).map((tool) => tool.name),
+    };
+  }
+  return profile;
+}
+
+/**
+ * Works out which servers and tools change when switching to a profile.
+ * Servers the profile does not know, and tools of servers that were not listed, keep their state.
+ * Tools the server did not have when the profile was saved are enabled.
+ * @param profile The profile to switch to.
+ * @param servers The configured servers.
+ * @param tools The tools of each server, undefined if they are unknown.
+ */
+export function diffToolProfile(
+  profile: ToolProfile,
+  servers: ServerData[],
+  tools: Map<string, McpTool[] | undefined>,
+): ToolProfileDiff {
+  const diff: ToolProfileDiff = { disabledTools: {} };
+
+  const disabledServers = servers
+    .filter((server) => !(profile.servers[server.name]?.enabled ?? server.enabled))
+    .map((server) => server.name);
+  if (servers.some((server) => disabledServers.includes(server.name) === server.enabled)) {
+    diff.disabledServers = disabledServers;
+  }
+
+  for (const server of servers) {
+    const wanted = profile.servers[server.name]?.disabledTools;
+    const serverTools = tools.get(server.name);
+    if (!wanted || !serverTools) continue;
+
+    const disabledTools = serverTools.filter((tool) => wanted.includes(tool.name)).map((tool) => tool.name);
+    if (serverTools.some((tool) => disabledTools.includes(tool.name) === tool._enabled)) {
+      diff.disabledTools[server.name] = disabledTools;
+    }
+  }
+
+  return diff;
+}
+
+/**
+ * Saves the current state of all servers and tools as a profile and makes it the active one.
+ * @param name The name of the profile. An existing profile with the name is replaced.
+ */
+export async function saveToolProfile(name: string): Promise<ToolProfile> {
+  const context = SillyTavern.getContext();
+  const settings = getExtensionSettings();
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error('The profile name is empty.');
+  }
+
+  const servers = await MCPClient.getServers();
+  const profile = captureToolProfile(servers, await getAllServerTools(servers));
+  settings.toolProfiles[trimmed] = profile;
+  settings.activeToolProfile = trimmed;
+  context.saveSettingsDebounced();
+  notifyListeners();
+  return profile;
+}
+
+/**
+ * Deletes a profile.
+ */
+export function deleteToolProfile(name: string): void {
+  const context = SillyTavern.getContext();
+  const settings = getExtensionSettings();
+  delete settings.toolProfiles[name];
+  if (settings.activeToolProfile === name) {
+    settings.activeToolProfile = '';
+  }
+  context.saveSettingsDebounced();
+  notifyListeners();
+}
+
+/**
+ * Switches to a profile. Only the servers and tools that differ from the profile are changed.
+ * @param name The name of the profile.
+ * @returns The changes that were applied.
+ */
+export async function applyToolProfile(name: string): Promise<ToolProfileDiff> {
+  const context = SillyTavern.getContext();
+  const settings = getExtensionSettings();
+  const profile = settings.toolProfiles[name];
+  if (!profile) {
+    throw new Error(`Tool profile "${name}" not found.`);
+  }
+
+  const servers = await MCPClient.getServers();
+  const diff = diffToolProfile(profile, servers, await getAllServerTools(servers));
+  await MCPClient.applyToolStates(diff);
+
+  settings.activeToolProfile = name;
+  context.saveSettingsDebounced();
+  notifyListeners();
+  console.log(
+    `[MCPClient] Applied tool profile "${name}", changed ${Object.keys(diff.disabledTools).length} servers' tools` +
+      (diff.disabledServers ? ' and the enabled servers' : ''),
+  );
+  return diff;
+}
@@ -0,0 +1,113 @@
+import { ActiveToolCall, MCPClient } from './mcp-client.js';
+
+const CONTAINER_ID = 'mcp-tool-progress';
+
+let elapsedTimer: ReturnType<typeof setInterval> | null = null;
+
+function formatElapsed(startedAt: number): string {
+  const seconds = Math.floor((Date.now() - startedAt) / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+function createCallElement(call: ActiveToolCall): HTMLElement {
+  const element = document.createElement('div');
+  element.className = 'mcp-tool-progress-item';
+  element.dataset.callId = String(call.id);
+  element.innerHTML = `
+    <div class="mcp-tool-progress-header">
+      <i class="fa-solid fa-gear fa-spin"></i>
+      <span class="mcp-tool-progress-name"></span>
+      <span class="mcp-tool-progress-elapsed"></span>
+      <button class="menu_button mcp-tool-progress-cancel" title="Cancel the tool call">
+        <i class="fa-solid fa-stop"></i> Cancel
+      </button>
+    </div>
+    <progress class="mcp-tool-progress-bar"></progress>
+    <div class="mcp-tool-progress-message"></div>
+  `;
+  element.querySelector('.mcp-tool-progress-name')!.textContent = `${call.serverName}: ${call.toolName}`;
+
+  const cancelButton = element.querySelector('.mcp-tool-progress-cancel') as HTMLButtonElement;
+  cancelButton.addEventListener('click', () => {
+    cancelButton.disabled = true;
+    MCPClient.cancelToolCall(call.id);
+  });
+  return element;
+}
+
+function updateCallElement(element: HTMLElement, call: ActiveToolCall): void {
+  element.querySelector('.mcp-tool-progress-elapsed')!.textContent = formatElapsed(call.startedAt);
+
+  const bar = element.querySelector('.mcp-tool-progress-bar') as HTMLProgressElement;
+  const message = element.querySelector('.mcp-tool-progress-message') as HTMLElement;
+  const progress = call.progress;
+  if (progress?.total) {
+    bar.max = progress.total;
+    bar.value = progress.progress;
+  } else {
+    // Indeterminate until the server reports a total
+    bar.removeAttribute('value');
+  }
+
+  const parts: string[] = [];
+  if (progress?.message) {
+    parts.push(progress.message);
+  }
+  if (progress && !progress.total) {
+    parts.push(`${progress.progress} done`);
+  }
+  message.textContent = parts.join(' · ');
+}
+
+/**
+ * Shows the running tool calls below the last chat message.
+ */
+function renderActiveCalls(calls: ActiveToolCall[]): void {
+  let container = document.getElementById(CONTAINER_ID);
+  if (calls.length === 0) {
+    container?.remove();
+    if (elapsedTimer) {
+      clearInterval(elapsedTimer);
+      elapsedTimer = null;
+    }
+    return;
+  }
+
+  const chat = document.getElementById('chat');
+  if (!chat) {
+    return;
+  }
+  if (!container) {
+    container = document.createElement('div');
+    container.id = CONTAINER_ID;
+    container.className = 'mcp-tool-progress';
+  }
+  // Chat re-renders remove the container, and new messages go below it
+  if (container.parentElement !== chat || container !== chat.lastElementChild) {
+    chat.appendChild(container);
+  }
+
+  const ids = new Set(calls.map((call) => String(call.id)));
+  container.querySelectorAll<HTMLElement>('.mcp-tool-progress-item').forEach((element) => {
+    if (!ids.has(element.dataset.callId!)) {
+      element.remove();
+    }
+  });
+  for (const call of calls) {
+    let element = container.querySelector<HTMLElement>(`.mcp-tool-progress-item[data-call-id="${call.id}"]`);
+    if (!element) {
+      element = createCallElement(call);
+      container.appendChild(element);
+    }
+    updateCallElement(element, call);
+  }
+
+  elapsedTimer ??= setInterval(() => renderActiveCalls(MCPClient.getActiveToolCalls()), 1000);
+}
+
+/**
+ * Shows a progress indicator with a cancel button in the chat while tool calls run.
+ */
+export function initializeToolProgress(): void {
+  MCPClient.addActiveToolCallListener(renderActiveCalls);
+}
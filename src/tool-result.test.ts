@@ -0,0 +1,85 @@
+import { describe, expect, it } from '@jest/globals';
+import { describeDroppedImages, parseToolResult } from './tool-result.js';
+
+describe('parseToolResult', () => {
+  it('joins text parts and collects images', () => {
+    expect(
+      parseToolResult({
+        content: [
+          { type: 'text', text: 'Here is the chart:' },
+          { type: 'image', data: 'iVBOR', mimeType: 'image/png' },
+          { type: 'image', data: '/9j/4', mimeType: 'image/jpeg' },
+        ],
+      }),
+    ).toEqual({
+      text: 'Here is the chart:\n[Image: image/png]\n[Image: image/jpeg]',
+      images: [
+        { data: 'iVBOR', mimeType: 'image/png' },
+        { data: '/9j/4', mimeType: 'image/jpeg' },
+      ],
+      isError: false,
+    });
+  });
+
+  it('describes audio, embedded resources and resource links', () => {
+    const result = parseToolResult({
+      content: [
+        { type: 'audio', data: 'UklGR', mimeType: 'audio/wav' },
+        { type: 'resource', resource: { uri: 'file:///notes.md', text: '# Notes' } },
+        { type: 'resource', resource: { uri: 'file:///data.bin', blob: 'AAEC' } },
+        { type: 'resource_link', uri: 'file:///report.pdf', name: 'report.pdf' },
+        { type: 'resource_link', uri: 'file:///unnamed' },
+      ],
+    });
+
+    expect(result.text).toBe(
+      [
+        '[Audio: audio/wav]',
+        '# Notes',
+        '[Binary resource: file:///data.bin]',
+        '[Resource: report.pdf (file:///report.pdf)]',
+        '[Resource: file:///unnamed (file:///unnamed)]',
+      ].join('\n'),
+    );
+    expect(result.images).toEqual([]);
+  });
+
+  it('uses structured content only if there are no content parts to show', () => {
+    expect(parseToolResult({ content: [], structuredContent: { temperature: 21 } }).text).toBe('{"temperature":21}');
+    expect(
+      parseToolResult({ content: [{ type: 'text', text: '21 degrees' }], structuredContent: { temperature: 21 } }).text,
+    ).toBe('21 degrees');
+  });
+
+  it('reports error results', () => {
+    expect(parseToolResult({ content: [{ type: 'text', text: 'Not found' }], isError: true })).toEqual({
+      text: 'Not found',
+      images: [],
+      isError: true,
+    });
+  });
+
+  it('passes results that are not MCP results as JSON', () => {
+    expect(parseToolResult('plain text').text).toBe('plain text');
+    expect(parseToolResult({ items: [1, 2] }).text).toBe('{"items":[1,2]}');
+    expect(parseToolResult(undefined).text).toBe('null');
+    expect(parseToolResult({ content: 'not a list' }).isError).toBe(false);
+  });
+});
+
+describe('describeDroppedImages', () => {
+  it('counts the images that were left out', () => {
+    expect(describeDroppedImages([])).toBe('');
+    expect(describeDroppedImages([{ data: 'a', mimeType: 'image/png' }])).toBe(
+      '[1 more tool result image (image/png) could not be attached. Only the first image is sent to the model.]',
+    );
+    expect(
+      describeDroppedImages([
+        { data: 'a', mimeType: 'image/png' },
+        { data: 'b', mimeType: 'image/jpeg' },
+      ]),
+    ).toBe(
+      '[2 more tool result images (image/png, image/jpeg) could not be attached. Only the first image is sent to the model.]',
+    );
+  });
+});
@@ -0,0 +1,86 @@
+import { McpResourceContents } from './mcp-client.js';
+
+export type McpContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image' | 'audio'; data: string; mimeType: string }
+  | { type: 'resource'; resource: McpResourceContents }
+  | { type: 'resource_link'; uri: string; name?: string; description?: string; mimeType?: string };
+
+export interface McpCallToolResult {
+  content?: McpContentPart[];
+  structuredContent?: any;
+  isError?: boolean;
+}
+
+export interface ToolResultImage {
+  /** Base64 encoded image data */
+  data: string;
+  mimeType: string;
+}
+
+export interface ParsedToolResult {
+  /** Text for the model */
+  text: string;
+  images: ToolResultImage[];
+  isError: boolean;
+}
+
+/**
+ * Parses the typed content parts of an MCP tool result.
+ * Results that are not MCP results are passed as JSON text.
+ * @param result The result returned by the server.
+ */
+export function parseToolResult(result: any): ParsedToolResult {
+  if (typeof result === 'string') {
+    return { text: result, images: [], isError: false };
+  }
+  if (!result || typeof result !== 'object' || !Array.isArray(result.content)) {
+    return { text: JSON.stringify(result ?? null), images: [], isError: false };
+  }
+
+  const toolResult = result as McpCallToolResult;
+  const texts: string[] = [];
+  const images: ToolResultImage[] = [];
+
+  for (const part of toolResult.content!) {
+    switch (part.type) {
+      case 'text':
+        texts.push(part.text);
+        break;
+      case 'image':
+        images.push({ data: part.data, mimeType: part.mimeType });
+        texts.push(`[Image: ${part.mimeType}]`);
+        break;
+      case 'audio':
+        texts.push(`[Audio: ${part.mimeType}]`);
+        break;
+      case 'resource':
+        texts.push(part.resource.text ?? `[Binary resource: ${part.resource.uri}]`);
+        break;
+      case 'resource_link':
+        texts.push(`[Resource: ${part.name ?? part.uri} (${part.uri})]`);
+        break;
+    }
+  }
+
+  if (texts.length === 0 && toolResult.structuredContent !== undefined) {
+    texts.push(JSON.stringify(toolResult.structuredContent));
+  }
+
+  return { text: texts.join('\n'), images, isError: !!toolResult.isError };
+}
+
+/**
+ * Describes the tool result images that could not be attached to a message, which holds one image.
+ * @param images The images that were left out.
+ * @returns A note for the message text, or an empty string if no images were left out.
+ */
+export function describeDroppedImages(images: ToolResultImage[]): string {
+  if (images.length === 0) {
+    return '';
+  }
+  const mimeTypes = images.map((image) => image.mimeType).join(', ');
+  return images.length === 1
+    ? `[1 more tool result image (${mimeTypes}) could not be attached. Only the first image is sent to the model.]`
+    : `[${images.length} more tool result images (${mimeTypes}) could not be attached. Only the first image is sent to the model.]`;
+}
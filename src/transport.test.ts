@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+
+type TransportModule = typeof import('./transport.js');
+
+let PluginTransport: TransportModule['PluginTransport'];
+/** Server configurations the fake plugin stores, keyed by name */
+let pluginServers: Map<string, any>;
+/** Requests the fake plugin received, as `METHOD path` */
+let requests: string[];
+/** Answers of the fake plugin, by `METHOD path`. Requests without an answer get 404. */
+let routes: Map<string, (body: any) => Response>;
+
+function json(data: any, status = 200): Response {
+  return new Response(JSON.stringify(data), { status, headers: { 'content-type': 'application/json' } });
+}
+
+beforeEach(async () => {
+  jest.resetModules();
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  (globalThis as any).SillyTavern = {
+    getContext: () => ({ getRequestHeaders: () => ({}), extensionSettings: { mcp: {} } }),
+  };
+
+  pluginServers = new Map([['web', { type: 'stdio', command: 'web' }]]);
+  requests = [];
+  routes = new Map<string, (body: any) => Response>([
+    [
+      'GET /servers',
+      () => json(Array.from(pluginServers, ([name, config]) => ({ name, config, enabled: true, cachedTools: {} }))),
+    ],
+    [
+      'POST /servers',
+      (body) => {
+        if (!body.config.command) return json({ error: 'Invalid config' }, 400);
+        pluginServers.set(body.name, body.config);
+        return json({});
+      },
+    ],
+    [
+      'DELETE /servers/web',
+      () => {
+        pluginServers.delete('web');
+        return json({});
+      },
+    ],
+  ]);
+
+  (globalThis as any).fetch = jest.fn(async (url: string, init: RequestInit) => {
+    const key = `${init.method} ${url.replace('/api/plugins/mcp', '')}`;
+    requests.push(key);
+    const route = routes.get(key);
+    return route ? route(init.body ? JSON.parse(init.body as string) : undefined) : json({ error: 'Not found' }, 404);
+  });
+
+  PluginTransport = (await import('./transport.js')).PluginTransport;
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('PluginTransport.updateServer', () => {
+  it('replaces the configuration', async () => {
+    await new PluginTransport().updateServer('web', { type: 'stdio', command: 'uvx' });
+
+    expect(pluginServers.get('web')).toEqual({ type: 'stdio', command: 'uvx' });
+  });
+
+  it('restores the old configuration if the plugin rejects the new one', async () => {
+    await expect(new PluginTransport().updateServer('web', { type: 'stdio' })).rejects.toThrow();
+
+    expect(pluginServers.get('web')).toEqual({ type: 'stdio', command: 'web' });
+  });
+});
+
+describe('PluginTransport.ping', () => {
+  it('checks that the plugin knows the server without reloading its tools', async () => {
+    const transport = new PluginTransport();
+
+    await transport.ping('web');
+    await expect(transport.ping('files')).rejects.toThrow('The plugin no longer knows server "files".');
+    expect(requests).toEqual(['GET /servers', 'GET /servers']);
+  });
+
+  it('reloads the tools for a thorough check', async () => {
+    routes.set('POST /servers/web/reload-tools', () => json({}));
+
+    await new PluginTransport().ping('web', true);
+
+    expect(requests).toEqual(['POST /servers/web/reload-tools']);
+  });
+});
+
+describe('plugin endpoints', () => {
+  it('calls tools with a plain request', async () => {
+    routes.set('POST /servers/web/call-tool', (body) =>
+      json({ result: { content: [{ type: 'text', text: body.toolName }] } }),
+    );
+
+    const result = await new PluginTransport().callTool('web', 'search', { query: 'cats' }, { onProgress: () => {} });
+
+    expect(result).toEqual({ content: [{ type: 'text', text: 'search' }] });
+    expect(requests).toEqual(['POST /servers/web/call-tool']);
+  });
+
+  it('passes the error of a failed tool call on', async () => {
+    routes.set('POST /servers/web/call-tool', () => json({ error: 'Tool failed' }, 500));
+
+    await expect(new PluginTransport().callTool('web', 'search', {})).rejects.toMatchObject({ data: 'Tool failed' });
+  });
+
+  it('lists tools', async () => {
+    routes.set('GET /servers/web/list-tools', () => json([{ name: 'search' }]));
+
+    expect(await new PluginTransport().listTools('web')).toEqual([{ name: 'search' }]);
+  });
+
+  it('does not ask the plugin for resources and prompts, which it does not forward', async () => {
+    const transport = new PluginTransport();
+
+    expect(await transport.listResources('web')).toEqual([]);
+    expect(await transport.listResourceTemplates('web')).toEqual([]);
+    expect(await transport.listPrompts('web')).toEqual([]);
+    await expect(transport.readResource('web', 'file:///a.txt')).rejects.toThrow(
+      'The MCP Server plugin does not forward resources.',
+    );
+    await expect(transport.getPrompt('web', 'summarize', {})).rejects.toThrow(
+      'The MCP Server plugin does not forward prompts.',
+    );
+    expect(requests).toEqual([]);
+  });
+});
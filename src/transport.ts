@@ -0,0 +1,245 @@
+import { withAuthHeaders } from './auth.js';
+import { JsonError } from './json-error.js';
+import {
+  McpPrompt,
+  McpPromptResult,
+  McpResource,
+  McpResourceContents,
+  McpResourceTemplate,
+  McpTool,
+  ServerConfig,
+  ServerData,
+  ToolCallOptions,
+} from './mcp-client.js';
+
+/**
+ * The operations MCPClient needs from the place servers are configured and run.
+ */
+export interface McpTransport {
+  listServers(): Promise<ServerData[]>;
+  addServer(name: string, config: ServerConfig): Promise<void>;
+  /** Replaces the configuration of a stopped server */
+  updateServer(name: string, config: ServerConfig): Promise<void>;
+  deleteServer(name: string): Promise<void>;
+  startServer(name: string, config: ServerConfig): Promise<void>;
+  stopServer(name: string): Promise<void>;
+  /**
+   * Rejects if a started server no longer responds.
+   * @param thorough Whether the check may be slow, e.g. after a failed tool call, instead of cheap enough to run periodically.
+   */
+  ping(name: string, thorough?: boolean): Promise<void>;
+  setDisabledServers(disabledServers: string[]): Promise<void>;
+  setDisabledTools(name: string, disabledTools: string[]): Promise<void>;
+  reloadTools(name: string): Promise<void>;
+  listTools(name: string): Promise<McpTool[]>;
+  /**
+   * Stops waiting when the signal aborts. Transports that speak MCP themselves also send `notifications/cancelled`
+   * and report `notifications/progress`.
+   */
+  callTool(name: string, toolName: string, args: any, options?: ToolCallOptions): Promise<any>;
+  /** Resolves to an empty list if the server has no resources */
+  listResources(name: string): Promise<McpResource[]>;
+  /** Resolves to an empty list if the server has no resources */
+  listResourceTemplates(name: string): Promise<McpResourceTemplate[]>;
+  readResource(name: string, uri: string): Promise<McpResourceContents[]>;
+  /** Resolves to an empty list if the server has no prompts */
+  listPrompts(name: string): Promise<McpPrompt[]>;
+  getPrompt(name: string, promptName: string, args: Record<string, string>): Promise<McpPromptResult>;
+  /** Opens the place the server configurations are stored, if the transport has one */
+  openSettings?(): Promise<void>;
+  /**
+   * Set by MCPClient. Called when a started server sends `notifications/tools/list_changed`,
+   * if the transport receives notifications.
+   */
+  onToolsChanged?: (name: string) => void;
+  /**
+   * Set by MCPClient. Called for requests a started server sends, like `elicitation/create`.
+   * Resolves to the result sent back to the server, rejects with the error sent back.
+   */
+  onRequest?: (name: string, method: string, params: any) => Promise<any>;
+}
+
+const PLUGIN_ID = 'mcp';
+
+/**
+ * Talks to the SillyTavern MCP Server plugin, which runs the servers.
+ * The plugin forwards tools only. Resources, prompts, progress, cancellation, notifications and server requests
+ * need servers added with `"mode": "direct"`.
+ */
+export class PluginTransport implements McpTransport {
+  /**
+   * Helper method to provide user-friendly error messages for common issues
+   */
+  #createUserFriendlyError(response: Response, context: string): Error {
+    const status = response.status;
+    const statusText = response.statusText;
+
+    if (status === 404) {
+      return new Error(
+        `MCP Server plugin not found. Please install the SillyTavern MCP Server plugin first:\n` +
+          `https://github.com/bmen25124/SillyTavern-MCP-Server\n\n` +
+          `After installation, restart SillyTavern and try again.\n\n` +
+          `Remote "sse" and "streamableHttp" servers can be added without the plugin by setting "mode": "direct".`,
+      );
+    }
+
+    if (status === 500) {
+      return new Error(
+        `MCP Server plugin error. The plugin may not be properly configured or started.\n` +
+          `Check the SillyTavern console for more details.`,
+      );
+    }
+
+    // For other errors, provide a generic but helpful message
+    return new Error(
+      `Failed to ${context}. Error: ${statusText} (${status})\n` +
+        `Make sure the SillyTavern MCP Server plugin is installed and running.`,
+    );
+  }
+
+  async #request(method: string, path: string, body?: any, init: RequestInit = {}): Promise<Response> {
+    const context = SillyTavern.getContext();
+    return await fetch(`/api/plugins/${PLUGIN_ID}${path}`, {
+      ...init,
+      method,
+      headers: { ...context.getRequestHeaders(), ...(init.headers as Record<string, string>) },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+  }
+
+  /**
+   * Sends a request and throws the plugin error message if it fails.
+   */
+  async #requestOk(method: string, path: string, body?: any): Promise<Response> {
+    const response = await this.#request(method, path, body);
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || response.statusText);
+    }
+    return response;
+  }
+
+  async listServers(): Promise<ServerData[]> {
+    const response = await this.#request('GET', '/servers');
+    if (!response.ok) {
+      return [];
+    }
+    return await response.json();
+  }
+
+  async addServer(name: string, config: ServerConfig): Promise<void> {
+    const response = await this.#request('POST', '/servers', { name, config });
+    if (!response.ok) {
+      throw this.#createUserFriendlyError(response, 'add MCP server');
+    }
+  }
+
+  async updateServer(name: string, config: ServerConfig): Promise<void> {
+    // The plugin has no update endpoint, so the server is added again under the same name
+    const previous = (await this.listServers()).find((server) => server.name === name);
+    await this.deleteServer(name);
+    try {
+      await this.addServer(name, config);
+    } catch (error) {
+      // Put the old configuration back, so a rejected update does not lose the server
+      if (previous) {
+        await this.addServer(name, previous.config).catch((restoreError) => {
+          console.error(`[MCPClient] Could not restore server "${name}":`, restoreError);
+        });
+      }
+      throw error;
+    }
+  }
+
+  async deleteServer(name: string): Promise<void> {
+    await this.#requestOk('DELETE', `/servers/${encodeURIComponent(name)}`);
+  }
+
+  async startServer(name: string, config: ServerConfig): Promise<void> {
+    // The plugin gets plain headers, OAuth tokens are refreshed before each start
+    await this.#requestOk('POST', `/servers/${name}/start`, await withAuthHeaders(name, config));
+  }
+
+  async stopServer(name: string): Promise<void> {
+    await this.#requestOk('POST', `/servers/${name}/stop`);
+  }
+
+  async ping(name: string, thorough = false): Promise<void> {
+    // The plugin has no status endpoint. Reloading the tools asks the running server for them,
+    // which fails if its process crashed or its connection dropped, but makes the server list its tools again.
+    if (thorough) {
+      await this.reloadTools(name);
+      return;
+    }
+    // Listing the servers is cheap and shows that the plugin still answers and knows the server
+    const response = await this.#requestOk('GET', '/servers');
+    const servers: ServerData[] = await response.json();
+    if (!servers.some((server) => server.name === name)) {
+      throw new Error(`The plugin no longer knows server "${name}".`);
+    }
+  }
+
+  async setDisabledServers(disabledServers: string[]): Promise<void> {
+    await this.#requestOk('POST', '/servers/disabled', { disabledServers });
+  }
+
+  async setDisabledTools(name: string, disabledTools: string[]): Promise<void> {
+    await this.#requestOk('POST', `/servers/${name}/disabled-tools`, { disabledTools });
+  }
+
+  async reloadTools(name: string): Promise<void> {
+    await this.#requestOk('POST', `/servers/${name}/reload-tools`);
+  }
+
+  async listTools(name: string): Promise<McpTool[]> {
+    const response = await this.#requestOk('GET', `/servers/${name}/list-tools`);
+    const data = await response.json();
+    return Array.isArray(data) ? data : [];
+  }
+
+  async callTool(name: string, toolName: string, args: any, options: ToolCallOptions = {}): Promise<any> {
+    // The plugin keeps running a call that is aborted here, it can't forward the cancellation
+    const response = await this.#request(
+      'POST',
+      `/servers/${name}/call-tool`,
+      { toolName, arguments: args },
+      { signal: options.signal },
+    );
+    if (!response.ok) {
+      const resp = await response.json();
+      throw new JsonError(resp.data || resp.error || response.statusText);
+    }
+    return (await response.json()).result;
+  }
+
+  async listResources(name: string): Promise<McpResource[]> {
+    return [];
+  }
+
+  async listResourceTemplates(name: string): Promise<McpResourceTemplate[]> {
+    return [];
+  }
+
+  async readResource(name: string, uri: string): Promise<McpResourceContents[]> {
+    throw new Error(
+      'The MCP Server plugin does not forward resources. Add the server with "mode": "direct" to read them.',
+    );
+  }
+
+  async listPrompts(name: string): Promise<McpPrompt[]> {
+    return [];
+  }
+
+  async getPrompt(name: string, promptName: string, args: Record<string, string>): Promise<McpPromptResult> {
+    throw new Error(
+      'The MCP Server plugin does not forward prompts. Add the server with "mode": "direct" to use them.',
+    );
+  }
+
+  /**
+   * Opens the location of the plugin settings file.
+   */
+  async openSettings(): Promise<void> {
+    await this.#requestOk('POST', '/open-settings');
+  }
+}
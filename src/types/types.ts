@@ -1,3 +1,5 @@
+import { ConnectionProfile } from 'sillytavern-utils-lib/types/profiles';
+
 export interface ToolDefinitionOpenAI {
   type: string;
   function: {
@@ -7,3 +9,26 @@ export interface ToolDefinitionOpenAI {
     toString: () => string;
   };
 }
+
+/** Settings of the Connection Manager extension */
+export interface ConnectionManagerSettings {
+  profiles: ConnectionProfile[];
+  /** ID of the selected profile */
+  selectedProfile?: string;
+}
+
+declare module 'sillytavern-utils-lib/types' {
+  interface SillyTavernContext {
+    /** ID of the current chat, undefined if no chat is open */
+    chatId?: string;
+    /** Counts the tokens of a text with the tokenizer of the current model */
+    getTokenCountAsync: (text: string, padding?: number) => Promise<number>;
+    /** Generates text with the current model, without the chat as context */
+    generateRaw: (options: {
+      prompt: string;
+      systemPrompt?: string;
+      responseLength?: number;
+      prefill?: string;
+    }) => Promise<string>;
+  }
+}